@@ -0,0 +1,5 @@
+-- Keep the guardrails used for each rewrite so history entries can be restored exactly
+
+ALTER TABLE rewrite_history ADD COLUMN IF NOT EXISTS guardrails JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_rewrite_history_user_created ON rewrite_history(user_id, created_at DESC);
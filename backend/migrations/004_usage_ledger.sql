@@ -0,0 +1,17 @@
+-- One row per LLM call (or cache hit) so monthly totals can be traced and broken down
+
+CREATE TABLE IF NOT EXISTS usage_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    request_id UUID NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    model VARCHAR(50) NOT NULL,
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('primary', 'retry', 'batch', 'cached')),
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd DECIMAL(10,6) NOT NULL DEFAULT 0,   -- Charged; always 0 for cache hits
+    saved_usd DECIMAL(10,6) NOT NULL DEFAULT 0,  -- Cost a cache hit avoided
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON usage_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_events_request ON usage_events(request_id);
@@ -0,0 +1,4 @@
+-- Record what each call was for, so usage can be broken down by preset and slider configuration
+
+ALTER TABLE usage_events ADD COLUMN IF NOT EXISTS preset_id VARCHAR(100);
+ALTER TABLE usage_events ADD COLUMN IF NOT EXISTS slider_values JSONB;
@@ -0,0 +1,38 @@
+-- Organizations share one monthly rewrite pool and budget, sized by the organization's tier.
+-- A user belongs to at most one organization; members may be given their own sub-limits.
+
+CREATE TABLE IF NOT EXISTS organizations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    tier VARCHAR(50) DEFAULT 'free' CHECK (tier IN ('free', 'premium', 'enterprise')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'admin', 'member')),
+    monthly_rewrite_limit INTEGER,      -- NULL = only the shared pool applies
+    monthly_budget_usd DECIMAL(10,4),   -- NULL = only the shared pool applies
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (organization_id, user_id)
+);
+
+-- Pooled monthly totals, counted while users are members
+CREATE TABLE IF NOT EXISTS organization_usage (
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    month_year VARCHAR(7) NOT NULL, -- Format: 2024-01
+    rewrites_count INTEGER DEFAULT 0,
+    tokens_used INTEGER DEFAULT 0,
+    cost_usd DECIMAL(10,4) DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (organization_id, month_year)
+);
+
+DROP TRIGGER IF EXISTS update_organizations_updated_at ON organizations;
+CREATE TRIGGER update_organizations_updated_at BEFORE UPDATE ON organizations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+DROP TRIGGER IF EXISTS update_organization_usage_updated_at ON organization_usage;
+CREATE TRIGGER update_organization_usage_updated_at BEFORE UPDATE ON organization_usage
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,8 @@
+-- Tier limits and model prices edited through the admin API; a single row holds the whole catalog
+
+CREATE TABLE IF NOT EXISTS plan_catalog (
+    id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    catalog JSONB NOT NULL,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,24 @@
+-- Outgoing webhooks for quota events. The secret signs payloads, so it is stored as issued.
+
+CREATE TABLE IF NOT EXISTS webhooks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    url VARCHAR(2048) NOT NULL,
+    secret VARCHAR(128) NOT NULL,
+    events TEXT[] NOT NULL,
+    last_delivery_at TIMESTAMP WITH TIME ZONE,
+    last_status VARCHAR(20) CHECK (last_status IN ('delivered', 'failed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per threshold crossed, so each warning goes out once a month even with several replicas
+CREATE TABLE IF NOT EXISTS quota_notifications (
+    subject VARCHAR(100) NOT NULL,  -- user:<id>, organization:<id> or member:<id>
+    month_year VARCHAR(7) NOT NULL,
+    metric VARCHAR(20) NOT NULL CHECK (metric IN ('rewrites', 'budget')),
+    threshold INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (subject, month_year, metric, threshold)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_user ON webhooks(user_id);
@@ -0,0 +1,22 @@
+-- Admin role, per-month quota top-ups and an audit trail of administrative changes
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'user'
+    CHECK (role IN ('user', 'admin'));
+
+-- Granted by support on top of the tier's limits, for that month only
+ALTER TABLE user_usage ADD COLUMN IF NOT EXISTS bonus_rewrites INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_usage ADD COLUMN IF NOT EXISTS bonus_budget_usd DECIMAL(10,4) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    actor_email VARCHAR(255) NOT NULL,  -- Kept so entries stay readable after the actor is deleted
+    action VARCHAR(50) NOT NULL,
+    target_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    details JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_email_lower ON users(LOWER(email));
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_user_id, created_at DESC);
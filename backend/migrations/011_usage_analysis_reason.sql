@@ -0,0 +1,5 @@
+-- Tone analyses are billed too; record them in the ledger under their own reason
+
+ALTER TABLE usage_events DROP CONSTRAINT IF EXISTS usage_events_reason_check;
+ALTER TABLE usage_events ADD CONSTRAINT usage_events_reason_check
+    CHECK (reason IN ('primary', 'retry', 'batch', 'cached', 'analysis'));
@@ -0,0 +1,17 @@
+-- Users join an organization by accepting an invitation sent to their email address, since
+-- membership replaces their own tier and quota with the organization's
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,        -- Lower-cased
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'admin', 'member')),
+    monthly_rewrite_limit INTEGER,
+    monthly_budget_usd DECIMAL(10,4),
+    invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    UNIQUE (organization_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_email ON organization_invitations(email);
@@ -0,0 +1,320 @@
+import { Router, Request, Response } from 'express';
+import { AdminAuditEntry, AdminUserSummary, ApiResponse, PlanCatalog, PlanTier } from '@tone-slyder/shared/types';
+import { planCatalog, PlanCatalogError, PlanSource, tierPlanSchema, modelPlanSchema } from '../services/planCatalog';
+import { adminService, AdminError } from '../services/adminService';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { logger } from '../config/logger';
+import Joi from 'joi';
+
+export const adminRouter = Router();
+
+// Administration happens from a signed-in session only
+adminRouter.use(authenticate({ sessionOnly: true }), requireAdmin);
+
+const TIERS: PlanTier[] = ['free', 'premium', 'enterprise'];
+
+// Any subset of a tier's limits
+const tierChangesSchema = tierPlanSchema.fork(
+  ['monthlyRewrites', 'monthlyBudgetUSD', 'rateLimitPerHour', 'modelAccess'],
+  field => field.optional()
+).min(1);
+
+// Why the admin made a change, kept in the audit log
+const note = Joi.string().trim().max(500).optional();
+
+const userSearchSchema = Joi.object({
+  q: Joi.string().trim().max(255).optional(),
+  tier: Joi.string().valid(...TIERS).optional(),
+  role: Joi.string().valid('user', 'admin').optional(),
+  active: Joi.boolean().optional(),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+const userChangesSchema = Joi.object({
+  tier: Joi.string().valid(...TIERS),
+  role: Joi.string().valid('user', 'admin'),
+  isActive: Joi.boolean(),
+  note
+}).or('tier', 'role', 'isActive');
+
+const topUpSchema = Joi.object({
+  rewrites: Joi.number().integer().min(0).max(1000000).default(0),
+  budgetUSD: Joi.number().min(0).max(100000).precision(4).default(0),
+  note
+}).or('rewrites', 'budgetUSD');
+
+const resetUsageSchema = Joi.object({ note });
+
+const auditQuerySchema = Joi.object({
+  userId: Joi.string().guid().optional(),
+  actorId: Joi.string().guid().optional(),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+function sendPlanError(res: Response, error: any, message: string, context: Record<string, unknown>) {
+  if (error instanceof PlanCatalogError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.code,
+      message: error.message
+    });
+  }
+
+  logger.error(message, { ...context, error: error.message });
+
+  res.status(500).json({
+    success: false,
+    error: 'plan_update_failed',
+    message: `${message}. Please try again.`
+  });
+}
+
+/**
+ * GET /api/admin/plans
+ * The plan catalog in force and where it came from (default, file or database)
+ */
+adminRouter.get('/plans', (req: Request, res: Response) => {
+  const response: ApiResponse<PlanCatalog & { source: PlanSource }> = {
+    success: true,
+    data: { ...planCatalog.get(), source: planCatalog.getSource() }
+  };
+
+  res.json(response);
+});
+
+/**
+ * PATCH /api/admin/plans/tiers/:tier
+ * Change a tier's limits or model access. Applies to quotas immediately on this replica
+ * and within a minute on the others.
+ */
+adminRouter.patch('/plans/tiers/:tier',
+  validateRequest(tierChangesSchema),
+  async (req: Request, res: Response) => {
+    const tier = req.params.tier as PlanTier;
+    if (!TIERS.includes(tier)) {
+      return res.status(404).json({
+        success: false,
+        error: 'tier_not_found',
+        message: `Unknown tier: ${req.params.tier}`
+      });
+    }
+
+    try {
+      const catalog = await planCatalog.updateTier(tier, req.body, req.user!.id);
+      await adminService.audit(req.user!, 'plan.tier_update', undefined, { tier, changes: req.body });
+
+      const response: ApiResponse<PlanCatalog> = {
+        success: true,
+        data: catalog,
+        message: `${tier} tier updated`
+      };
+
+      res.json(response);
+    } catch (error: any) {
+      sendPlanError(res, error, 'Unable to update tier', { tier, userId: req.user?.id });
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/plans/models/:id
+ * Set a hosted model's prices and description
+ */
+adminRouter.put('/plans/models/:id',
+  validateRequest(modelPlanSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const catalog = await planCatalog.upsertModel(req.params.id, req.body, req.user!.id);
+      await adminService.audit(req.user!, 'plan.model_update', undefined, { model: req.params.id, plan: req.body });
+
+      const response: ApiResponse<PlanCatalog> = {
+        success: true,
+        data: catalog,
+        message: `${req.params.id} pricing updated`
+      };
+
+      res.json(response);
+    } catch (error: any) {
+      sendPlanError(res, error, 'Unable to update model pricing', { model: req.params.id, userId: req.user?.id });
+    }
+  }
+);
+
+function sendUserError(res: Response, error: any, message: string, context: Record<string, unknown>) {
+  if (error instanceof AdminError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.code,
+      message: error.message
+    });
+  }
+
+  logger.error(message, { ...context, error: error.message });
+
+  res.status(500).json({
+    success: false,
+    error: 'admin_user_update_failed',
+    message: `${message}. Please try again.`
+  });
+}
+
+/**
+ * GET /api/admin/users
+ * Find accounts by email or display name (`q`), tier, role or `active`, oldest first
+ */
+adminRouter.get('/users', async (req: Request, res: Response) => {
+  const { error, value } = userSearchSchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      error: 'validation_error',
+      message: error.details[0].message
+    });
+  }
+
+  try {
+    const { users, total } = await adminService.listUsers({
+      query: value.q,
+      tier: value.tier,
+      role: value.role,
+      isActive: value.active,
+      limit: value.limit,
+      offset: value.offset
+    });
+
+    const response: ApiResponse<{ users: AdminUserSummary[]; total: number }> = {
+      success: true,
+      data: { users, total }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error listing users', { userId: req.user?.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'admin_users_fetch_failed',
+      message: 'Unable to fetch users. Please try again.'
+    });
+  }
+});
+
+/**
+ * GET /api/admin/users/:id
+ * An account with its usage, limits and top-ups this month
+ */
+adminRouter.get('/users/:id', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await adminService.getUser(req.params.id)
+    });
+  } catch (error: any) {
+    sendUserError(res, error, 'Unable to fetch user', { targetUserId: req.params.id });
+  }
+});
+
+/**
+ * PATCH /api/admin/users/:id
+ * Change a user's tier or role, or disable/re-enable the account (`isActive`)
+ */
+adminRouter.patch('/users/:id',
+  validateRequest(userChangesSchema),
+  async (req: Request, res: Response) => {
+    const { note, ...changes } = req.body;
+
+    try {
+      const response: ApiResponse<AdminUserSummary> = {
+        success: true,
+        data: await adminService.updateUser(req.user!, req.params.id, changes, note),
+        message: 'User updated'
+      };
+
+      res.json(response);
+    } catch (error: any) {
+      sendUserError(res, error, 'Unable to update user', { targetUserId: req.params.id, userId: req.user?.id });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:id/top-ups
+ * Grant extra rewrites and/or budget on top of the user's limits for the current month.
+ * For organization members this raises their member sub-limits, not the shared pool.
+ */
+adminRouter.post('/users/:id/top-ups',
+  validateRequest(topUpSchema),
+  async (req: Request, res: Response) => {
+    const { note, ...topUp } = req.body;
+
+    try {
+      res.status(201).json({
+        success: true,
+        data: await adminService.grantTopUp(req.user!, req.params.id, topUp, note),
+        message: 'Top-up granted'
+      });
+    } catch (error: any) {
+      sendUserError(res, error, 'Unable to grant top-up', { targetUserId: req.params.id, userId: req.user?.id });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:id/usage/reset
+ * Zero the user's rewrites, tokens and cost for the current month. Top-ups and the usage
+ * ledger (history) are kept.
+ */
+adminRouter.post('/users/:id/usage/reset',
+  validateRequest(resetUsageSchema),
+  async (req: Request, res: Response) => {
+    try {
+      res.json({
+        success: true,
+        data: await adminService.resetUsage(req.user!, req.params.id, req.body.note),
+        message: 'Monthly usage reset'
+      });
+    } catch (error: any) {
+      sendUserError(res, error, 'Unable to reset usage', { targetUserId: req.params.id, userId: req.user?.id });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/audit
+ * Administrative changes, newest first, optionally for one target user or acting admin
+ */
+adminRouter.get('/audit', async (req: Request, res: Response) => {
+  const { error, value } = auditQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      error: 'validation_error',
+      message: error.details[0].message
+    });
+  }
+
+  try {
+    const response: ApiResponse<AdminAuditEntry[]> = {
+      success: true,
+      data: await adminService.listAudit({
+        targetUserId: value.userId,
+        actorId: value.actorId,
+        limit: value.limit,
+        offset: value.offset
+      })
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error fetching audit log', { userId: req.user?.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'admin_audit_fetch_failed',
+      message: 'Unable to fetch the audit log. Please try again.'
+    });
+  }
+});
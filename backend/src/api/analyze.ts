@@ -0,0 +1,90 @@
+import { Router, Request, Response } from 'express';
+import { ToneAnalysisRequest, ToneAnalysisResponse, ApiResponse } from '@tone-slyder/shared/types';
+import { toneAnalyzer } from '../core/toneAnalyzer';
+import { llmService } from '../services/llmService';
+import { meteringService } from '../services/meteringService';
+import { costEstimator } from '../services/costEstimator';
+import { validateRequest } from '../middleware/validation';
+import { authenticate } from '../middleware/auth';
+import { rateLimitByTier } from '../middleware/rateLimit';
+import { logger } from '../config/logger';
+import Joi from 'joi';
+
+export const analyzeRouter = Router();
+
+// Also open to API keys scoped to 'rewrite'
+const authenticateRewrite = authenticate({ scope: 'rewrite' });
+
+const analyzeRequestSchema = Joi.object({
+  text: Joi.string().min(1).max(10000).required(),
+  customSliders: Joi.array().items(Joi.object({
+    id: Joi.string().required(),
+    label: Joi.string().required(),
+    description: Joi.string().allow('').default('')
+  })).max(10).default([]),
+  model: Joi.string().valid(...llmService.getModelIds()).default('gpt-3.5-turbo')
+});
+
+/**
+ * POST /api/analyze
+ * Estimate the slider values the given text already has
+ */
+analyzeRouter.post('/',
+  validateRequest(analyzeRequestSchema),
+  authenticateRewrite,
+  rateLimitByTier(),
+  async (req: Request, res: Response) => {
+    const { text, customSliders, model }: Required<ToneAnalysisRequest> = req.body;
+    const userId = req.user?.id || 'anonymous';
+
+    try {
+      const projection = costEstimator.estimateAnalysis(text, customSliders, model);
+      const quotaCheck = await meteringService.checkQuota(userId, model, req.user?.tier, projection.costUSD);
+
+      if (!quotaCheck.canProceed) {
+        return res.status(429).json({
+          success: false,
+          error: 'quota_exceeded',
+          message: quotaCheck.reason || 'Request quota exceeded',
+          usage: quotaCheck.usage,
+          limits: quotaCheck.limits
+        });
+      }
+
+      const { inputTokens, outputTokens, ...analysis } = await toneAnalyzer.analyze(text, customSliders, model);
+
+      // Billed for its tokens, but an analysis isn't a rewrite
+      await meteringService.recordUsage(userId, model, analysis.tokensUsed, inputTokens, outputTokens, {
+        reason: 'analysis',
+        countsAsRewrite: false
+      });
+
+      logger.info('Tone analysis completed', {
+        userId,
+        textLength: text.length,
+        dimensions: Object.keys(analysis.dimensions).length,
+        tokensUsed: analysis.tokensUsed
+      });
+
+      const response: ApiResponse<ToneAnalysisResponse> = {
+        success: true,
+        data: analysis
+      };
+
+      res.json(response);
+
+    } catch (error: any) {
+      logger.error('Error analyzing tone', {
+        userId,
+        error: error.message,
+        stack: error.stack
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'analysis_failed',
+        message: 'Failed to analyze text tone. Please try again.'
+      });
+    }
+  }
+);
@@ -0,0 +1,93 @@
+import { Router, Request, Response } from 'express';
+import { ApiResponse, CreatedApiKey } from '@tone-slyder/shared/types';
+import { authService } from '../services/authService';
+import { validateRequest } from '../middleware/validation';
+import { authenticate } from '../middleware/auth';
+import { logger } from '../config/logger';
+import Joi from 'joi';
+
+export const apiKeysRouter = Router();
+
+// Keys are managed from a signed-in session only
+const authenticateSession = authenticate({ sessionOnly: true });
+
+const createApiKeySchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  scopes: Joi.array().items(Joi.string().valid('rewrite', 'presets:read')).unique().default([])
+});
+
+// GET /api/keys - List the user's active API keys (never the keys themselves)
+apiKeysRouter.get('/', authenticateSession, async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await authService.listApiKeys(req.user!.id)
+    });
+  } catch (error: any) {
+    logger.error('Error listing API keys', { userId: req.user?.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'api_keys_fetch_failed',
+      message: 'Unable to fetch API keys. Please try again.'
+    });
+  }
+});
+
+/**
+ * POST /api/keys
+ * Mint a labelled key, optionally restricted to scopes. The key is only shown in this response.
+ */
+apiKeysRouter.post('/',
+  validateRequest(createApiKeySchema),
+  authenticateSession,
+  async (req: Request, res: Response) => {
+    try {
+      const apiKey = await authService.createApiKey(req.user!.id, req.body.name, req.body.scopes);
+
+      const response: ApiResponse<CreatedApiKey> = {
+        success: true,
+        data: apiKey,
+        message: 'API key created. Copy it now; it will not be shown again.'
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Error creating API key', { userId: req.user?.id, error: error.message });
+
+      res.status(500).json({
+        success: false,
+        error: 'api_key_create_failed',
+        message: 'Unable to create API key. Please try again.'
+      });
+    }
+  }
+);
+
+// DELETE /api/keys/:id - Revoke a key
+apiKeysRouter.delete('/:id', authenticateSession, async (req: Request, res: Response) => {
+  try {
+    const revoked = await authService.revokeApiKey(req.user!.id, req.params.id);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        error: 'api_key_not_found',
+        message: 'API key not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'API key revoked'
+    });
+  } catch (error: any) {
+    logger.error('Error revoking API key', { apiKeyId: req.params.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'api_key_revoke_failed',
+      message: 'Unable to revoke API key. Please try again.'
+    });
+  }
+});
@@ -1,35 +1,166 @@
 import { Router, Request, Response } from 'express';
+import { ApiResponse, AuthSession } from '@tone-slyder/shared/types';
+import { authService, AuthError } from '../services/authService';
+import { validateRequest } from '../middleware/validation';
+import { authenticateUser } from '../middleware/auth';
+import { logger } from '../config/logger';
+import Joi from 'joi';
 
 export const authRouter = Router();
 
-// POST /api/auth/login - Mock login for development
-authRouter.post('/login', (req: Request, res: Response) => {
-  res.json({
-    success: true,
-    data: {
-      token: 'dev-token-123',
-      user: {
-        id: 'dev-user-123',
-        email: 'dev@toneslyder.com',
-        tier: 'premium'
-      }
-    },
-    message: 'Development login successful'
-  });
+const registerSchema = Joi.object({
+  email: Joi.string().email().max(255).required(),
+  password: Joi.string().min(8).max(128).required(),
+  displayName: Joi.string().max(100).optional()
+});
+
+const loginSchema = Joi.object({
+  email: Joi.string().email().max(255).required(),
+  password: Joi.string().max(128).required()
+});
+
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
+const logoutSchema = Joi.object({
+  refreshToken: Joi.string().optional(),
+  everywhere: Joi.boolean().default(false)
 });
 
-// POST /api/auth/register - Mock register for development  
-authRouter.post('/register', (req: Request, res: Response) => {
-  res.json({
-    success: true,
-    data: {
-      token: 'dev-token-123',
-      user: {
-        id: 'dev-user-123',
-        email: 'dev@toneslyder.com',
-        tier: 'free'
-      }
-    },
-    message: 'Development registration successful'
+function sendAuthError(res: Response, error: AuthError) {
+  res.status(error.status).json({
+    success: false,
+    error: error.code,
+    message: error.message
   });
+}
+
+/**
+ * POST /api/auth/register
+ * Create an account and start a session
+ */
+authRouter.post('/register', validateRequest(registerSchema), async (req: Request, res: Response) => {
+  try {
+    const { email, password, displayName } = req.body;
+    const session = await authService.register(email, password, displayName);
+
+    const response: ApiResponse<AuthSession> = {
+      success: true,
+      data: session,
+      message: 'Registration successful'
+    };
+
+    res.status(201).json(response);
+  } catch (error: any) {
+    if (error instanceof AuthError) return sendAuthError(res, error);
+
+    logger.error('Error registering user', { error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'registration_failed',
+      message: 'Unable to register. Please try again.'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/login
+ * Exchange email and password for an access token and refresh token
+ */
+authRouter.post('/login', validateRequest(loginSchema), async (req: Request, res: Response) => {
+  try {
+    const session = await authService.login(req.body.email, req.body.password);
+
+    const response: ApiResponse<AuthSession> = {
+      success: true,
+      data: session,
+      message: 'Login successful'
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    if (error instanceof AuthError) return sendAuthError(res, error);
+
+    logger.error('Error logging in', { error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'login_failed',
+      message: 'Unable to log in. Please try again.'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Rotate a refresh token; the old one can't be used again
+ */
+authRouter.post('/refresh', validateRequest(refreshSchema), async (req: Request, res: Response) => {
+  try {
+    const session = await authService.refresh(req.body.refreshToken);
+
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error: any) {
+    if (error instanceof AuthError) return sendAuthError(res, error);
+
+    logger.error('Error refreshing session', { error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'refresh_failed',
+      message: 'Unable to refresh session. Please try again.'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Revoke the given refresh token, or every session with `everywhere: true`
+ */
+authRouter.post('/logout',
+  validateRequest(logoutSchema),
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      await authService.logout(req.user!.id, req.body.refreshToken, req.body.everywhere);
+
+      res.json({
+        success: true,
+        message: 'Logged out'
+      });
+    } catch (error: any) {
+      logger.error('Error logging out', { userId: req.user?.id, error: error.message });
+
+      res.status(500).json({
+        success: false,
+        error: 'logout_failed',
+        message: 'Unable to log out. Please try again.'
+      });
+    }
+  }
+);
+
+// GET /api/auth/me - Current user
+authRouter.get('/me', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const user = await authService.getUser(req.user!.id);
+
+    res.json({
+      success: true,
+      data: user
+    });
+  } catch (error: any) {
+    logger.error('Error fetching current user', { userId: req.user?.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'user_fetch_failed',
+      message: 'Unable to fetch user. Please try again.'
+    });
+  }
 });
@@ -0,0 +1,131 @@
+import { Router, Request, Response } from 'express';
+import { ApiResponse, HistoryEntry, HistoryPage } from '@tone-slyder/shared/types';
+import { historyRepository } from '../repositories/historyRepository';
+import { authenticateUser } from '../middleware/auth';
+import { logger } from '../config/logger';
+import Joi from 'joi';
+
+export const historyRouter = Router();
+
+const historyQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0),
+  search: Joi.string().trim().max(200).allow('').optional(),
+  model: Joi.string().max(100).optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional().when('from', {
+    is: Joi.exist(),
+    then: Joi.date().min(Joi.ref('from'))
+  })
+});
+
+/**
+ * GET /api/history
+ * Page through the user's past rewrites, newest first.
+ * Filters: search (original or rewritten text), model, from/to (ISO dates, inclusive)
+ */
+historyRouter.get('/', authenticateUser, async (req: Request, res: Response) => {
+  const { error, value } = historyQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      error: 'validation_error',
+      message: error.details[0].message
+    });
+  }
+
+  try {
+    // A bare date for "to" means the whole of that day
+    const to: Date | undefined = value.to;
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.to))) {
+      to.setUTCHours(23, 59, 59, 999);
+    }
+
+    const { entries, total } = await historyRepository.listByUser(req.user!.id, {
+      limit: value.limit,
+      offset: value.offset,
+      search: value.search || undefined,
+      model: value.model,
+      from: value.from,
+      to
+    });
+
+    const response: ApiResponse<HistoryPage> = {
+      success: true,
+      data: { entries, total, limit: value.limit, offset: value.offset }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error fetching rewrite history', { userId: req.user?.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'history_fetch_failed',
+      message: 'Unable to fetch rewrite history. Please try again.'
+    });
+  }
+});
+
+/**
+ * GET /api/history/:id
+ * Get a single entry, e.g. to restore its text and settings into the editor
+ */
+historyRouter.get('/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const entry = await historyRepository.findById(req.user!.id, req.params.id);
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'history_entry_not_found',
+        message: 'History entry not found'
+      });
+    }
+
+    const response: ApiResponse<HistoryEntry> = {
+      success: true,
+      data: entry
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error fetching history entry', { entryId: req.params.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'history_fetch_failed',
+      message: 'Unable to fetch history entry. Please try again.'
+    });
+  }
+});
+
+// DELETE /api/history/:id - Remove a single entry
+historyRouter.delete('/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const deleted = await historyRepository.delete(req.user!.id, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'history_entry_not_found',
+        message: 'History entry not found'
+      });
+    }
+
+    logger.info('History entry deleted', { userId: req.user!.id, entryId: req.params.id });
+
+    res.json({
+      success: true,
+      message: 'History entry deleted'
+    });
+  } catch (error: any) {
+    logger.error('Error deleting history entry', { entryId: req.params.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'history_delete_failed',
+      message: 'Unable to delete history entry. Please try again.'
+    });
+  }
+});
@@ -0,0 +1,42 @@
+import express from 'express';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthSession } from '@tone-slyder/shared/types';
+import { authService } from '../services/authService';
+import { organizationsRouter } from './organizations';
+
+const app = express();
+app.use(express.json());
+app.use('/api/organizations', organizationsRouter);
+
+let session: AuthSession;
+
+beforeAll(async () => {
+  session = await authService.register(`${uuidv4()}@example.com`, 'correct horse battery staple');
+});
+
+describe('organization names', () => {
+  it.each([
+    ['a line break', 'Acme\r\nBcc: everyone@example.com'],
+    ['a bare newline', 'Acme\nInc'],
+    ['another control character', 'Acme\u0000Inc']
+  ])('rejects a name with %s', async (_, name) => {
+    const response = await request(app)
+      .post('/api/organizations')
+      .set('Authorization', `Bearer ${session.accessToken}`)
+      .send({ name });
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it('accepts names with spaces, punctuation and accents', async () => {
+    const response = await request(app)
+      .post('/api/organizations')
+      .set('Authorization', `Bearer ${session.accessToken}`)
+      .send({ name: '  Café Müller & Co. (EU)  ' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.name).toBe('Café Müller & Co. (EU)');
+  });
+});
@@ -0,0 +1,293 @@
+import { Router, Request, Response } from 'express';
+import {
+  ApiResponse,
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationUsage
+} from '@tone-slyder/shared/types';
+import { organizationService, OrganizationError } from '../services/organizationService';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, authenticateUser } from '../middleware/auth';
+import { logger } from '../config/logger';
+import Joi from 'joi';
+
+export const organizationsRouter = Router();
+
+// Membership and roles are managed from a signed-in session only
+const authenticateSession = authenticate({ sessionOnly: true });
+
+// The name appears in email subjects, where a line break would start a new header
+const nameSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).pattern(/^\P{Cc}*$/u)
+    .messages({ 'string.pattern.base': 'name must not contain control characters' })
+    .required()
+});
+
+const inviteSchema = Joi.object({
+  email: Joi.string().email().max(255).required(),
+  role: Joi.string().valid('owner', 'admin', 'member').default('member'),
+  monthlyRewriteLimit: Joi.number().integer().min(0).optional(),
+  monthlyBudgetUSD: Joi.number().min(0).precision(4).optional()
+});
+
+const updateMemberSchema = Joi.object({
+  role: Joi.string().valid('owner', 'admin', 'member').optional(),
+  monthlyRewriteLimit: Joi.number().integer().min(0).allow(null).optional(),
+  monthlyBudgetUSD: Joi.number().min(0).precision(4).allow(null).optional()
+}).min(1);
+
+/**
+ * Known failures become their own responses; anything else is logged as a 500
+ */
+function sendError(res: Response, error: any, code: string, message: string, context: Record<string, unknown>) {
+  if (error instanceof OrganizationError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.code,
+      message: error.message
+    });
+  }
+
+  logger.error(message, { ...context, error: error.message });
+
+  res.status(500).json({
+    success: false,
+    error: code,
+    message: `${message}. Please try again.`
+  });
+}
+
+/**
+ * GET /api/organizations
+ * The organization the user belongs to, with their role (null when they have none)
+ */
+organizationsRouter.get('/', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const response: ApiResponse<Organization | null> = {
+      success: true,
+      data: await organizationService.getForUser(req.user!.id)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    sendError(res, error, 'organization_fetch_failed', 'Unable to fetch organization', { userId: req.user?.id });
+  }
+});
+
+/**
+ * POST /api/organizations
+ * Create an organization on the user's tier, with the user as owner
+ */
+organizationsRouter.post('/',
+  validateRequest(nameSchema),
+  authenticateSession,
+  async (req: Request, res: Response) => {
+    try {
+      const response: ApiResponse<Organization> = {
+        success: true,
+        data: await organizationService.create(req.user!.id, req.body.name),
+        message: 'Organization created'
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      sendError(res, error, 'organization_create_failed', 'Unable to create organization', { userId: req.user?.id });
+    }
+  }
+);
+
+// GET /api/organizations/invitations - Invitations to the user's email address
+organizationsRouter.get('/invitations', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const response: ApiResponse<OrganizationInvitation[]> = {
+      success: true,
+      data: await organizationService.listInvitationsForUser(req.user!.id)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    sendError(res, error, 'invitations_fetch_failed', 'Unable to fetch invitations', { userId: req.user?.id });
+  }
+});
+
+/**
+ * POST /api/organizations/invitations/:invitationId/accept
+ * Join the organization. Its tier and shared quota then apply instead of the user's own.
+ */
+organizationsRouter.post('/invitations/:invitationId/accept', authenticateSession, async (req: Request, res: Response) => {
+  try {
+    const response: ApiResponse<Organization> = {
+      success: true,
+      data: await organizationService.acceptInvitation(req.user!.id, req.params.invitationId),
+      message: 'Joined organization'
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    sendError(res, error, 'invitation_accept_failed', 'Unable to accept invitation', { userId: req.user?.id });
+  }
+});
+
+// DELETE /api/organizations/invitations/:invitationId - Decline an invitation
+organizationsRouter.delete('/invitations/:invitationId', authenticateSession, async (req: Request, res: Response) => {
+  try {
+    await organizationService.declineInvitation(req.user!.id, req.params.invitationId);
+
+    res.json({
+      success: true,
+      message: 'Invitation declined'
+    });
+  } catch (error: any) {
+    sendError(res, error, 'invitation_decline_failed', 'Unable to decline invitation', { userId: req.user?.id });
+  }
+});
+
+// PATCH /api/organizations/:id - Rename (owners and admins)
+organizationsRouter.patch('/:id',
+  validateRequest(nameSchema),
+  authenticateSession,
+  async (req: Request, res: Response) => {
+    try {
+      const response: ApiResponse<Organization> = {
+        success: true,
+        data: await organizationService.rename(req.user!.id, req.params.id, req.body.name)
+      };
+
+      res.json(response);
+    } catch (error: any) {
+      sendError(res, error, 'organization_update_failed', 'Unable to update organization', { organizationId: req.params.id });
+    }
+  }
+);
+
+// DELETE /api/organizations/:id - Disband the organization (owners only)
+organizationsRouter.delete('/:id', authenticateSession, async (req: Request, res: Response) => {
+  try {
+    await organizationService.delete(req.user!.id, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Organization deleted'
+    });
+  } catch (error: any) {
+    sendError(res, error, 'organization_delete_failed', 'Unable to delete organization', { organizationId: req.params.id });
+  }
+});
+
+// GET /api/organizations/:id/members - List members and their sub-limits
+organizationsRouter.get('/:id/members', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const response: ApiResponse<OrganizationMember[]> = {
+      success: true,
+      data: await organizationService.listMembers(req.user!.id, req.params.id)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    sendError(res, error, 'members_fetch_failed', 'Unable to fetch members', { organizationId: req.params.id });
+  }
+});
+
+/**
+ * POST /api/organizations/:id/invitations
+ * Invite an email address, optionally with sub-limits; the user joins only by accepting.
+ * Only owners may invite admins or owners.
+ */
+organizationsRouter.post('/:id/invitations',
+  validateRequest(inviteSchema),
+  authenticateSession,
+  async (req: Request, res: Response) => {
+    try {
+      const response: ApiResponse<OrganizationInvitation> = {
+        success: true,
+        data: await organizationService.invite(req.user!.id, req.params.id, req.body),
+        message: 'Invitation sent. The user joins once they accept it.'
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      sendError(res, error, 'invitation_create_failed', 'Unable to send invitation', { organizationId: req.params.id });
+    }
+  }
+);
+
+// GET /api/organizations/:id/invitations - Pending invitations (owners and admins)
+organizationsRouter.get('/:id/invitations', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const response: ApiResponse<OrganizationInvitation[]> = {
+      success: true,
+      data: await organizationService.listInvitations(req.user!.id, req.params.id)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    sendError(res, error, 'invitations_fetch_failed', 'Unable to fetch invitations', { organizationId: req.params.id });
+  }
+});
+
+// DELETE /api/organizations/:id/invitations/:invitationId - Withdraw a pending invitation
+organizationsRouter.delete('/:id/invitations/:invitationId', authenticateSession, async (req: Request, res: Response) => {
+  try {
+    await organizationService.revokeInvitation(req.user!.id, req.params.id, req.params.invitationId);
+
+    res.json({
+      success: true,
+      message: 'Invitation withdrawn'
+    });
+  } catch (error: any) {
+    sendError(res, error, 'invitation_revoke_failed', 'Unable to withdraw invitation', { organizationId: req.params.id });
+  }
+});
+
+/**
+ * PATCH /api/organizations/:id/members/:userId
+ * Change a member's role or sub-limits; null clears a sub-limit
+ */
+organizationsRouter.patch('/:id/members/:userId',
+  validateRequest(updateMemberSchema),
+  authenticateSession,
+  async (req: Request, res: Response) => {
+    try {
+      const response: ApiResponse<OrganizationMember> = {
+        success: true,
+        data: await organizationService.updateMember(req.user!.id, req.params.id, req.params.userId, req.body)
+      };
+
+      res.json(response);
+    } catch (error: any) {
+      sendError(res, error, 'member_update_failed', 'Unable to update member', { organizationId: req.params.id });
+    }
+  }
+);
+
+// DELETE /api/organizations/:id/members/:userId - Remove a member, or leave with your own ID
+organizationsRouter.delete('/:id/members/:userId', authenticateSession, async (req: Request, res: Response) => {
+  try {
+    await organizationService.removeMember(req.user!.id, req.params.id, req.params.userId);
+
+    res.json({
+      success: true,
+      message: 'Member removed'
+    });
+  } catch (error: any) {
+    sendError(res, error, 'member_remove_failed', 'Unable to remove member', { organizationId: req.params.id });
+  }
+});
+
+/**
+ * GET /api/organizations/:id/usage
+ * This month's pooled usage against the shared limits, with each member's share (owners and admins)
+ */
+organizationsRouter.get('/:id/usage', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const response: ApiResponse<OrganizationUsage> = {
+      success: true,
+      data: await organizationService.getUsage(req.user!.id, req.params.id)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    sendError(res, error, 'organization_usage_failed', 'Unable to fetch organization usage', { organizationId: req.params.id });
+  }
+});
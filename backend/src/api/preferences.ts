@@ -1,16 +1,35 @@
 import { Router, Request, Response } from 'express';
 import { authenticateUser } from '../middleware/auth';
+import { llmService } from '../services/llmService';
+import { preferencesRepository } from '../repositories/preferencesRepository';
 import { logger } from '../config/logger';
 import Joi from 'joi';
 
 export const preferencesRouter = Router();
 
-// In-memory preferences storage (in production, use database)
-const userPreferences = new Map<string, any>();
+// Returned until the user saves preferences of their own
+const DEFAULT_PREFERENCES = {
+  preferredModel: 'gpt-3.5-turbo',
+  autoSaveEnabled: true,
+  showTips: true,
+  defaultSliderValues: {
+    formality: 50,
+    conversational: 50,
+    informativeness: 50,
+    authoritativeness: 50
+  },
+  favoritePresets: [],
+  theme: 'light',
+  notificationSettings: {
+    quotaWarnings: true,
+    newFeatures: false,
+    usageSummary: true
+  }
+};
 
 // Validation schema for preferences
 const preferencesSchema = Joi.object({
-  preferredModel: Joi.string().valid('gpt-3.5-turbo', 'gpt-4', 'claude-3-haiku', 'claude-3-sonnet').optional(),
+  preferredModel: Joi.string().valid(...llmService.getModelIds()).optional(),
   autoSaveEnabled: Joi.boolean().optional(),
   showTips: Joi.boolean().optional(),
   defaultSliderValues: Joi.object({
@@ -44,25 +63,7 @@ preferencesRouter.get('/', authenticateUser, async (req: Request, res: Response)
       });
     }
 
-    // Get preferences from storage (in production, query database)
-    const preferences = userPreferences.get(userId) || {
-      preferredModel: 'gpt-3.5-turbo',
-      autoSaveEnabled: true,
-      showTips: true,
-      defaultSliderValues: {
-        formality: 50,
-        conversational: 50,
-        informativeness: 50,
-        authoritativeness: 50
-      },
-      favoritePresets: [],
-      theme: 'light',
-      notificationSettings: {
-        quotaWarnings: true,
-        newFeatures: false,
-        usageSummary: true
-      }
-    };
+    const preferences = (await preferencesRepository.get(userId)) || DEFAULT_PREFERENCES;
 
     res.json({
       success: true,
@@ -111,7 +112,7 @@ preferencesRouter.put('/', authenticateUser, async (req: Request, res: Response)
     }
 
     // Get existing preferences
-    const existingPreferences = userPreferences.get(userId) || {};
+    const existingPreferences = (await preferencesRepository.get(userId)) || {};
     
     // Merge with new preferences
     const updatedPreferences = {
@@ -120,8 +121,7 @@ preferencesRouter.put('/', authenticateUser, async (req: Request, res: Response)
       updatedAt: new Date().toISOString()
     };
 
-    // Save preferences (in production, update database)
-    userPreferences.set(userId, updatedPreferences);
+    await preferencesRepository.save(userId, updatedPreferences);
 
     logger.info('User preferences updated', {
       userId,
@@ -182,7 +182,7 @@ preferencesRouter.patch('/:key', authenticateUser, async (req: Request, res: Res
     }
 
     // Get existing preferences
-    const existingPreferences = userPreferences.get(userId) || {};
+    const existingPreferences = (await preferencesRepository.get(userId)) || {};
     
     // Update specific key
     const updatedPreferences = {
@@ -192,7 +192,7 @@ preferencesRouter.patch('/:key', authenticateUser, async (req: Request, res: Res
     };
 
     // Save preferences
-    userPreferences.set(userId, updatedPreferences);
+    await preferencesRepository.save(userId, updatedPreferences);
 
     logger.info('User preference updated', {
       userId,
@@ -239,7 +239,7 @@ preferencesRouter.delete('/', authenticateUser, async (req: Request, res: Respon
     }
 
     // Remove preferences (reset to defaults)
-    userPreferences.delete(userId);
+    await preferencesRepository.delete(userId);
 
     logger.info('User preferences reset to defaults', { userId });
 
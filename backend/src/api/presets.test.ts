@@ -0,0 +1,151 @@
+import express from 'express';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthSession, DEFAULT_PRESETS, TonePreset } from '@tone-slyder/shared/types';
+import { authService } from '../services/authService';
+import { presetRepository } from '../repositories/presetRepository';
+import { presetsRouter, findVisiblePreset } from './presets';
+
+const app = express();
+app.use(express.json());
+app.use('/api/presets', presetsRouter);
+
+let alice: AuthSession;
+let bob: AuthSession;
+
+function register() {
+  return authService.register(`${uuidv4()}@example.com`, 'correct horse battery staple');
+}
+
+function createPreset(owner: AuthSession, isPublic: boolean): Promise<TonePreset> {
+  return presetRepository.create(owner.user.id, {
+    name: `Preset ${uuidv4().slice(0, 8)}`,
+    description: '',
+    sliderValues: { formality: 70 },
+    tags: [],
+    public: isPublic
+  });
+}
+
+function listPresets(session: AuthSession, scope?: string) {
+  return request(app)
+    .get('/api/presets')
+    .query(scope ? { scope } : {})
+    .set('Authorization', `Bearer ${session.accessToken}`);
+}
+
+beforeAll(async () => {
+  [alice, bob] = await Promise.all([register(), register()]);
+});
+
+describe('preset visibility', () => {
+  it("lists the built-ins, then the user's own and other users' public presets", async () => {
+    const own = await createPreset(alice, false);
+    const shared = await createPreset(bob, true);
+    const hidden = await createPreset(bob, false);
+
+    const ids = (await listPresets(alice)).body.data.map((preset: TonePreset) => preset.id);
+
+    expect(ids.slice(0, DEFAULT_PRESETS.length)).toEqual(DEFAULT_PRESETS.map(preset => preset.id));
+    expect(ids).toEqual(expect.arrayContaining([own.id, shared.id]));
+    expect(ids).not.toContain(hidden.id);
+  });
+
+  it("lists only the user's own presets with scope=mine", async () => {
+    const own = await createPreset(alice, true);
+    const shared = await createPreset(bob, true);
+
+    const ids = (await listPresets(alice, 'mine')).body.data.map((preset: TonePreset) => preset.id);
+
+    expect(ids).toContain(own.id);
+    expect(ids).not.toContain(shared.id);
+    expect(ids).not.toContain(DEFAULT_PRESETS[0].id);
+  });
+
+  it("hides other users' private presets as if they did not exist", async () => {
+    const hidden = await createPreset(bob, false);
+
+    const asAlice = await request(app).get(`/api/presets/${hidden.id}`).set('Authorization', `Bearer ${alice.accessToken}`);
+    const asBob = await request(app).get(`/api/presets/${hidden.id}`).set('Authorization', `Bearer ${bob.accessToken}`);
+
+    expect(asAlice.status).toBe(404);
+    expect(asAlice.body.error).toBe('preset_not_found');
+    expect(asBob.status).toBe(200);
+  });
+
+  it('finds built-ins, own and public presets for rewrites', async () => {
+    const shared = await createPreset(bob, true);
+    const hidden = await createPreset(bob, false);
+
+    await expect(findVisiblePreset(DEFAULT_PRESETS[0].id, alice.user.id)).resolves.toEqual(DEFAULT_PRESETS[0]);
+    await expect(findVisiblePreset(shared.id, alice.user.id)).resolves.toMatchObject({ id: shared.id });
+    await expect(findVisiblePreset(hidden.id, alice.user.id)).resolves.toBeNull();
+    await expect(findVisiblePreset(hidden.id, bob.user.id)).resolves.toMatchObject({ id: hidden.id });
+  });
+});
+
+describe('preset ownership', () => {
+  it('only lets the owner change or delete a public preset', async () => {
+    const shared = await createPreset(bob, true);
+
+    const update = await request(app)
+      .put(`/api/presets/${shared.id}`)
+      .set('Authorization', `Bearer ${alice.accessToken}`)
+      .send({ name: 'Taken over' });
+    const remove = await request(app)
+      .delete(`/api/presets/${shared.id}`)
+      .set('Authorization', `Bearer ${alice.accessToken}`);
+
+    expect(update.status).toBe(403);
+    expect(remove.status).toBe(403);
+    expect((await presetRepository.findById(shared.id))?.name).toBe(shared.name);
+  });
+});
+
+describe('preset defaults', () => {
+  it('clears guardrails and the model with null and leaves other fields alone', async () => {
+    const preset = await presetRepository.create(alice.user.id, {
+      name: 'Legal',
+      description: 'Mandatory phrasing',
+      sliderValues: { formality: 80 },
+      guardrails: { required: ['subject to contract'], banned: [] },
+      model: 'gpt-3.5-turbo',
+      tags: ['legal'],
+      public: false
+    });
+
+    const response = await request(app)
+      .put(`/api/presets/${preset.id}`)
+      .set('Authorization', `Bearer ${alice.accessToken}`)
+      .send({ guardrails: null, model: null });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.guardrails).toBeUndefined();
+    expect(response.body.data.model).toBeUndefined();
+    expect(response.body.data).toMatchObject({ name: 'Legal', description: 'Mandatory phrasing', tags: ['legal'] });
+  });
+
+  it('keeps guardrails and the model when the update leaves them out', async () => {
+    const preset = await presetRepository.create(alice.user.id, {
+      name: 'Support',
+      description: '',
+      sliderValues: { conversational: 70 },
+      guardrails: { required: [], banned: ['unfortunately'] },
+      model: 'gpt-3.5-turbo',
+      tags: [],
+      public: false
+    });
+
+    const response = await request(app)
+      .put(`/api/presets/${preset.id}`)
+      .set('Authorization', `Bearer ${alice.accessToken}`)
+      .send({ name: 'Customer support' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({
+      name: 'Customer support',
+      guardrails: { required: [], banned: ['unfortunately'] },
+      model: 'gpt-3.5-turbo'
+    });
+  });
+});
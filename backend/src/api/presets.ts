@@ -1,30 +1,251 @@
 import { Router, Request, Response } from 'express';
-import { DEFAULT_PRESETS } from '@tone-slyder/shared/types';
+import { DEFAULT_PRESETS, TonePreset, ApiResponse } from '@tone-slyder/shared/types';
+import { presetRepository } from '../repositories/presetRepository';
+import { llmService } from '../services/llmService';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, authenticateUser } from '../middleware/auth';
+import { logger } from '../config/logger';
+import Joi from 'joi';
 
 export const presetsRouter = Router();
 
-// GET /api/presets - Get all available presets
-presetsRouter.get('/', (req: Request, res: Response) => {
-  res.json({
-    success: true,
-    data: DEFAULT_PRESETS
-  });
+// Reads are also open to API keys scoped to 'presets:read'
+const authenticatePresetRead = authenticate({ scope: 'presets:read' });
+
+const sliderValuesSchema = Joi.object().pattern(
+  Joi.string(),
+  Joi.number().min(10).max(90)
+).min(1);
+
+const guardrailsSchema = Joi.object({
+  required: Joi.array().items(Joi.string().max(200)).max(50).default([]),
+  banned: Joi.array().items(Joi.string().max(200)).max(50).default([])
+});
+
+const createPresetSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  description: Joi.string().max(500).allow('').default(''),
+  sliderValues: sliderValuesSchema.required(),
+  guardrails: guardrailsSchema.optional(),
+  model: Joi.string().valid(...llmService.getModelIds()).optional(),
+  tags: Joi.array().items(Joi.string().max(50)).max(10).default([]),
+  public: Joi.boolean().default(false)
+});
+
+const updatePresetSchema = Joi.object({
+  name: Joi.string().min(1).max(100),
+  description: Joi.string().max(500).allow(''),
+  sliderValues: sliderValuesSchema,
+  // null removes the preset's guardrails or model default
+  guardrails: guardrailsSchema.allow(null),
+  model: Joi.string().valid(...llmService.getModelIds()).allow(null),
+  tags: Joi.array().items(Joi.string().max(50)).max(10),
+  public: Joi.boolean()
+}).min(1);
+
+function isBuiltIn(id: string): boolean {
+  return DEFAULT_PRESETS.some(preset => preset.id === id);
+}
+
+/**
+ * Find a preset the user may see: built-ins, their own, or public ones
+ */
+export async function findVisiblePreset(id: string, userId?: string): Promise<TonePreset | null> {
+  const builtIn = DEFAULT_PRESETS.find(preset => preset.id === id);
+  if (builtIn) return builtIn;
+
+  const preset = await presetRepository.findById(id);
+  if (!preset || (!preset.public && preset.creator !== userId)) return null;
+
+  return preset;
+}
+
+/**
+ * GET /api/presets
+ * Built-in presets followed by the user's own and public presets.
+ * `?scope=mine` returns only presets the user created.
+ */
+presetsRouter.get('/', authenticatePresetRead, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    if (req.query.scope === 'mine') {
+      return res.json({
+        success: true,
+        data: await presetRepository.listByOwner(userId)
+      });
+    }
+
+    res.json({
+      success: true,
+      data: [...DEFAULT_PRESETS, ...await presetRepository.listVisibleTo(userId)]
+    });
+  } catch (error: any) {
+    logger.error('Error listing presets', { userId: req.user?.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'presets_fetch_failed',
+      message: 'Unable to fetch presets. Please try again.'
+    });
+  }
 });
 
 // GET /api/presets/:id - Get a specific preset
-presetsRouter.get('/:id', (req: Request, res: Response) => {
-  const preset = DEFAULT_PRESETS.find(p => p.id === req.params.id);
-  
-  if (!preset) {
-    return res.status(404).json({
+presetsRouter.get('/:id', authenticatePresetRead, async (req: Request, res: Response) => {
+  try {
+    const preset = await findVisiblePreset(req.params.id, req.user?.id);
+
+    if (!preset) {
+      return res.status(404).json({
+        success: false,
+        error: 'preset_not_found',
+        message: 'Preset not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: preset
+    });
+  } catch (error: any) {
+    logger.error('Error fetching preset', { presetId: req.params.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'preset_fetch_failed',
+      message: 'Unable to fetch preset. Please try again.'
+    });
+  }
+});
+
+/**
+ * POST /api/presets
+ * Save a preset owned by the current user
+ */
+presetsRouter.post('/',
+  validateRequest(createPresetSchema),
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const preset = await presetRepository.create(req.user!.id, req.body);
+
+      logger.info('Preset created', {
+        userId: req.user?.id,
+        presetId: preset.id,
+        public: preset.public
+      });
+
+      const response: ApiResponse<TonePreset> = {
+        success: true,
+        data: preset,
+        message: 'Preset created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Error creating preset', { userId: req.user?.id, error: error.message });
+
+      res.status(500).json({
+        success: false,
+        error: 'preset_create_failed',
+        message: 'Unable to create preset. Please try again.'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/presets/:id
+ * Update a preset; built-ins are read-only and only the creator may edit theirs
+ */
+presetsRouter.put('/:id',
+  validateRequest(updatePresetSchema),
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const existing = await findVisiblePreset(req.params.id, req.user?.id);
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'preset_not_found',
+          message: 'Preset not found'
+        });
+      }
+
+      if (isBuiltIn(existing.id) || existing.creator !== req.user?.id) {
+        return res.status(403).json({
+          success: false,
+          error: 'forbidden',
+          message: 'Only the creator can modify this preset'
+        });
+      }
+
+      const preset = await presetRepository.update(req.params.id, req.body);
+
+      logger.info('Preset updated', {
+        userId: req.user?.id,
+        presetId: req.params.id,
+        updatedFields: Object.keys(req.body)
+      });
+
+      res.json({
+        success: true,
+        data: preset,
+        message: 'Preset updated successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error updating preset', { presetId: req.params.id, error: error.message });
+
+      res.status(500).json({
+        success: false,
+        error: 'preset_update_failed',
+        message: 'Unable to update preset. Please try again.'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/presets/:id
+ * Delete a preset; built-ins are read-only and only the creator may delete theirs
+ */
+presetsRouter.delete('/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const existing = await findVisiblePreset(req.params.id, req.user?.id);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'preset_not_found',
+        message: 'Preset not found'
+      });
+    }
+
+    if (isBuiltIn(existing.id) || existing.creator !== req.user?.id) {
+      return res.status(403).json({
+        success: false,
+        error: 'forbidden',
+        message: 'Only the creator can delete this preset'
+      });
+    }
+
+    await presetRepository.delete(req.params.id);
+
+    logger.info('Preset deleted', { userId: req.user?.id, presetId: req.params.id });
+
+    res.json({
+      success: true,
+      message: 'Preset deleted'
+    });
+  } catch (error: any) {
+    logger.error('Error deleting preset', { presetId: req.params.id, error: error.message });
+
+    res.status(500).json({
       success: false,
-      error: 'preset_not_found',
-      message: 'Preset not found'
+      error: 'preset_delete_failed',
+      message: 'Unable to delete preset. Please try again.'
     });
   }
-  
-  res.json({
-    success: true,
-    data: preset
-  });
 });
@@ -0,0 +1,288 @@
+import express from 'express';
+import compression from 'compression';
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthSession } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { authService } from '../services/authService';
+import { usageRepository } from '../repositories/usageRepository';
+import { historyRepository } from '../repositories/historyRepository';
+import { usageLedgerRepository } from '../repositories/usageLedgerRepository';
+import { llmService } from '../services/llmService';
+import { rewriteRouter } from './rewrite';
+
+// Compression provides the res.flush() the streaming endpoint relies on, as in the app
+const app = express();
+app.use(compression());
+app.use(express.json());
+app.use('/api/rewrite', rewriteRouter);
+
+const FREE_REWRITES = config.costControl.freeTierMonthlyRewrites;
+
+function currentMonthYear(): string {
+  const now = new Date();
+  return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+function register() {
+  return authService.register(`${uuidv4()}@example.com`, 'correct horse battery staple');
+}
+
+function post(session: AuthSession, path: string, body: object) {
+  return request(app)
+    .post(`/api/rewrite${path}`)
+    .set('Authorization', `Bearer ${session.accessToken}`)
+    .send(body);
+}
+
+// History is written in the background; wait for it to settle
+async function listHistory(session: AuthSession) {
+  await new Promise(resolve => setImmediate(resolve));
+  return (await historyRepository.listByUser(session.user.id, { limit: 50, offset: 0 })).entries;
+}
+
+// Server-Sent Events in a response body, in order
+function parseEvents(body: string): { event: string; data: any }[] {
+  return body.trim().split('\n\n').map(block => {
+    const [eventLine, dataLine] = block.split('\n');
+    return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+  });
+}
+
+// Ledger totals per reason for the user's calls in the last hour
+async function ledgerUsage(session: AuthSession) {
+  await new Promise(resolve => setImmediate(resolve));
+  const now = Date.now();
+  return usageLedgerRepository.summarize(session.user.id, new Date(now - 60 * 60 * 1000), new Date(now + 1000));
+}
+
+async function primaryUsage(session: AuthSession) {
+  return (await ledgerUsage(session)).primary;
+}
+
+// A text nobody else has rewritten, so the first request always misses the cache
+function uniqueText(): string {
+  return `Please send the report over by Friday, reference ${uuidv4()}.`;
+}
+
+describe('cached rewrites', () => {
+  it('serves a cached rewrite to a user with quota left', async () => {
+    const [alice, bob] = await Promise.all([register(), register()]);
+    const body = { originalText: uniqueText(), sliderValues: { formality: 70 } };
+
+    const first = await post(alice, '', body);
+    const cached = await post(bob, '', body);
+
+    expect(first.status).toBe(200);
+    expect(cached.status).toBe(200);
+    expect(cached.body.data.rewrittenText).toBe(first.body.data.rewrittenText);
+    expect(cached.body.data.costUSD).toBe(0);
+  });
+
+  it("records a cached rewrite in the user's history at no cost", async () => {
+    const [alice, bob] = await Promise.all([register(), register()]);
+    const body = { originalText: uniqueText(), sliderValues: { formality: 70 } };
+
+    const first = await post(alice, '', body);
+    await post(bob, '', body);
+
+    expect(await listHistory(bob)).toEqual([expect.objectContaining({
+      originalText: body.originalText,
+      rewrittenText: first.body.data.rewrittenText,
+      model: first.body.data.model,
+      costUSD: 0
+    })]);
+  });
+
+  it("records cached rewrites from a stream or batch in the user's history", async () => {
+    const [alice, bob] = await Promise.all([register(), register()]);
+    const texts = [uniqueText(), uniqueText()];
+    await post(alice, '/batch', { texts, sliderValues: { formality: 70 } });
+
+    await post(bob, '/stream', { originalText: texts[0], sliderValues: { formality: 70 } });
+    await post(bob, '/batch', { texts: [texts[1]], sliderValues: { formality: 70 } });
+
+    const history = await listHistory(bob);
+    expect(history.map(entry => entry.originalText).sort()).toEqual([...texts].sort());
+    expect(history.every(entry => entry.costUSD === 0)).toBe(true);
+  });
+
+  it('refuses a cached rewrite to a user over their monthly limit', async () => {
+    const [alice, bob] = await Promise.all([register(), register()]);
+    await usageRepository.increment(bob.user.id, currentMonthYear(), { rewrites: FREE_REWRITES, tokens: 0, costUSD: 0 });
+    const body = { originalText: uniqueText(), sliderValues: { formality: 70 } };
+
+    await post(alice, '', body);
+    const refused = await post(bob, '', body);
+
+    expect(refused.status).toBe(429);
+    expect(refused.body.error).toBe('quota_exceeded');
+    expect(refused.body.data).toBeUndefined();
+  });
+
+  it('refuses a model outside the user\'s plan', async () => {
+    const alice = await register();
+    const body = { originalText: uniqueText(), sliderValues: { formality: 70 }, model: 'gpt-4' };
+
+    const refused = await post(alice, '', body);
+
+    expect(refused.status).toBe(429);
+    expect(refused.body.error).toBe('quota_exceeded');
+  });
+});
+
+describe('batch rewrites', () => {
+  let session: AuthSession;
+
+  beforeAll(async () => {
+    session = await register();
+  });
+
+  it('rewrites each text with the shared settings', async () => {
+    const texts = [uniqueText(), uniqueText()];
+
+    const response = await post(session, '/batch', { texts, sliderValues: { formality: 70 } });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.results.map((result: { originalText: string }) => result.originalText)).toEqual(texts);
+    expect(response.body.data.errors).toBeUndefined();
+  });
+
+  it.each([
+    ['no texts', { texts: [], sliderValues: { formality: 70 } }],
+    ['too many texts', { texts: Array.from({ length: 11 }, uniqueText), sliderValues: { formality: 70 } }],
+    ['an empty text', { texts: [''], sliderValues: { formality: 70 } }],
+    ['a single originalText', { texts: [uniqueText()], originalText: 'Hello', sliderValues: { formality: 70 } }],
+    ['variants', { texts: [uniqueText()], sliderValues: { formality: 70 }, variants: 3 }],
+    ['slider values out of range', { texts: [uniqueText()], sliderValues: { formality: 95 } }],
+    ['no slider values', { texts: [uniqueText()] }]
+  ])('rejects a batch with %s', async (_, body) => {
+    const response = await post(session, '/batch', body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it('reports items outside the user\'s plan without failing the batch', async () => {
+    const response = await post(session, '/batch', { texts: [uniqueText()], sliderValues: { formality: 70 }, model: 'gpt-4' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.results).toEqual([]);
+    expect(response.body.data.errors).toEqual([{ index: 0, error: expect.any(String) }]);
+  });
+});
+
+describe('failed rewrites', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('charges nothing when the provider call fails', async () => {
+    const user = await register();
+    jest.spyOn(llmService, 'rewrite').mockRejectedValue(new Error('Failed to get response from gpt-3.5-turbo: 503'));
+
+    const response = await post(user, '', { originalText: uniqueText(), sliderValues: { formality: 70 } });
+
+    expect(response.status).toBe(500);
+    expect(await ledgerUsage(user)).toEqual(expect.objectContaining({
+      primary: expect.objectContaining({ calls: 0, costUSD: 0 }),
+      retry: expect.objectContaining({ calls: 0 })
+    }));
+  });
+
+  it('charges only the batch items that were rewritten', async () => {
+    const user = await register();
+    const rewrite = llmService.rewrite.bind(llmService);
+    jest.spyOn(llmService, 'rewrite')
+      .mockImplementationOnce(rewrite)
+      .mockRejectedValueOnce(new Error('Failed to get response from gpt-3.5-turbo: 503'));
+
+    const response = await post(user, '/batch', { texts: [uniqueText(), uniqueText()], sliderValues: { formality: 70 } });
+
+    expect(response.body.data.results).toHaveLength(1);
+    expect(response.body.data.errors).toEqual([{ index: 1, error: expect.any(String) }]);
+    const { batch } = await ledgerUsage(user);
+    expect(batch.calls).toBe(1);
+    expect(batch.costUSD).toBeCloseTo(response.body.data.results[0].costUSD);
+  });
+});
+
+describe('streamed rewrites', () => {
+  let session: AuthSession;
+
+  beforeAll(async () => {
+    session = await register();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('streams the rewrite in fragments, then reports and bills the whole of it', async () => {
+    const response = await post(session, '/stream', { originalText: uniqueText(), sliderValues: { formality: 70 } });
+
+    const events = parseEvents(response.text);
+    const done = events[events.length - 1];
+    const streamed = events.filter(event => event.event === 'delta').map(event => event.data.text).join('');
+
+    expect(response.headers['content-type']).toMatch(/^text\/event-stream/);
+    expect(events.length).toBeGreaterThan(2);
+    expect(done.event).toBe('done');
+    expect(streamed).toBe(done.data.rewrittenText);
+    expect(done.data.outputTokens).toBe(llmService.countTokens(streamed, done.data.model));
+    expect((await primaryUsage(session)).outputTokens).toBe(done.data.outputTokens);
+  });
+
+  it('stops the provider when the client disconnects and bills only what was produced', async () => {
+    const user = await register();
+    const rewriteStream = llmService.rewriteStream.bind(llmService);
+    let signal: AbortSignal | undefined;
+    let produced = '';
+    jest.spyOn(llmService, 'rewriteStream').mockImplementation((prompt, model, onDelta, abortSignal) => {
+      signal = abortSignal;
+      return rewriteStream(prompt, model, text => {
+        produced += text;
+        onDelta(text);
+      }, abortSignal);
+    });
+
+    const server = app.listen(0);
+    try {
+      // Hang up as soon as the first fragment arrives
+      await new Promise<void>((resolve, reject) => {
+        const req = http.request({
+          port: (server.address() as AddressInfo).port,
+          path: '/api/rewrite/stream',
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${user.accessToken}` }
+        }, res => {
+          res.once('data', () => {
+            req.destroy();
+            resolve();
+          });
+        });
+        req.on('error', reject);
+        req.end(JSON.stringify({ originalText: uniqueText(), sliderValues: { formality: 70 } }));
+      });
+
+      let usage = await primaryUsage(user);
+      for (let i = 0; i < 50 && usage.calls === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        usage = await primaryUsage(user);
+      }
+
+      const { text: whole } = await llmService.rewrite('', 'gpt-3.5-turbo');
+      expect(signal?.aborted).toBe(true);
+      expect(produced.length).toBeGreaterThan(0);
+      expect(produced.length).toBeLessThan(whole.length);
+      expect(usage.calls).toBe(1);
+      expect(usage.outputTokens).toBe(llmService.countTokens(produced, 'gpt-3.5-turbo'));
+      expect(usage.inputTokens).toBeGreaterThan(0);
+      expect(await listHistory(user)).toEqual([]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
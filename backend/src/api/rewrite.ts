@@ -1,18 +1,29 @@
 import { Router, Request, Response } from 'express';
-import { RewriteRequest, RewriteResponse, ApiResponse } from '@tone-slyder/shared/types';
+import { v4 as uuidv4 } from 'uuid';
+import { RewriteRequest, RewriteResponse, RewriteVariant, ApiResponse, UsageReason } from '@tone-slyder/shared/types';
 import { rewriteEngine } from '../core/rewriteEngine';
-import { llmService } from '../services/llmService';
+import { llmService, LLMResponse } from '../services/llmService';
 import { cacheService } from '../services/cacheService';
-import { meteringService } from '../services/meteringService';
+import { meteringService, UsageContext } from '../services/meteringService';
+import { costEstimator } from '../services/costEstimator';
+import { planCatalog } from '../services/planCatalog';
+import { presetRepository } from '../repositories/presetRepository';
+import { findVisiblePreset } from './presets';
+import { historyRepository } from '../repositories/historyRepository';
 import { validateRequest } from '../middleware/validation';
-import { authenticateUser } from '../middleware/auth';
+import { authenticate } from '../middleware/auth';
+import { rateLimitByTier } from '../middleware/rateLimit';
+import { config } from '../config/environment';
 import { logger } from '../config/logger';
 import Joi from 'joi';
 
 export const rewriteRouter = Router();
 
+// Also open to API keys scoped to 'rewrite'
+const authenticateRewrite = authenticate({ scope: 'rewrite' });
+
 // Validation schema for rewrite requests
-const rewriteRequestSchema = Joi.object({
+export const rewriteRequestSchema = Joi.object({
   originalText: Joi.string().min(1).max(10000).required(),
   sliderValues: Joi.object().pattern(
     Joi.string(),
@@ -22,19 +33,88 @@ const rewriteRequestSchema = Joi.object({
     required: Joi.array().items(Joi.string()).default([]),
     banned: Joi.array().items(Joi.string()).default([])
   }).default({ required: [], banned: [] }),
-  model: Joi.string().valid('gpt-3.5-turbo', 'gpt-4', 'claude-3-sonnet', 'claude-3-haiku').default('gpt-3.5-turbo'),
-  userId: Joi.string().optional()
+  model: Joi.string().valid(...llmService.getModelIds()).default('gpt-3.5-turbo'),
+  userId: Joi.string().optional(),
+  variants: Joi.number().integer().min(1).max(5).default(1),
+  presetId: Joi.string().max(100).optional()
+});
+
+// Streamed output is a single sequence, so alternatives can't be offered
+const streamRequestSchema = rewriteRequestSchema.keys({
+  variants: Joi.number().valid(1).default(1)
 });
 
+// The other rewrite fields apply to every text in the batch. Each text gets one rewrite.
+const batchRequestSchema = rewriteRequestSchema.keys({
+  originalText: Joi.forbidden(),
+  variants: Joi.forbidden(),
+  texts: Joi.array().items(Joi.string().min(1).max(10000)).min(1).max(10).required()
+});
+
+/**
+ * Keep a copy of a completed rewrite in the user's history, including ones served from the
+ * shared cache at no cost; failures are only logged
+ */
+function recordHistory(userId: string, request: RewriteRequest, response: RewriteResponse, cost: number): void {
+  historyRepository.create(userId, {
+    originalText: request.originalText,
+    rewrittenText: response.rewrittenText,
+    sliderValues: request.sliderValues,
+    guardrails: request.guardrails,
+    model: response.model,
+    tokensUsed: response.tokensUsed,
+    costUSD: cost
+  }).catch(error => {
+    logger.error('Failed to record rewrite history', { userId, error: error.message });
+  });
+}
+
+/**
+ * Check the user's remaining quota before serving a rewrite, cached or not, so accounts over
+ * their limits or asking for a model outside their plan get nothing. A cache hit costs nothing;
+ * a miss is checked against the worst case for its prompt.
+ */
+function checkRewriteQuota(req: Request, request: RewriteRequest, prompt: string, cached: boolean) {
+  return meteringService.checkQuota(
+    request.userId || 'anonymous',
+    request.model || 'gpt-3.5-turbo',
+    req.user?.tier,
+    cached ? 0 : costEstimator.estimateForPrompt(request, prompt).max.costUSD
+  );
+}
+
+/**
+ * Ledger context tying a call to its API request, preset and slider configuration
+ */
+function usageContext(requestId: string, request: RewriteRequest): UsageContext {
+  return { requestId, presetId: request.presetId, sliderValues: request.sliderValues };
+}
+
+/**
+ * Count a preset as used, if the user can see it, so nobody can push up the ranking of
+ * someone else's private preset; failures are logged, never surfaced to the user
+ */
+function recordPresetUsage(userId: string, presetId?: string): void {
+  if (!presetId) return;
+
+  findVisiblePreset(presetId, userId)
+    .then(preset => preset && presetRepository.incrementUsage(preset.id))
+    .catch(error => {
+      logger.error('Failed to record preset usage', { presetId, error: error.message });
+    });
+}
+
 /**
  * POST /api/rewrite
  * Main rewriting endpoint
  */
 rewriteRouter.post('/', 
   validateRequest(rewriteRequestSchema),
-  authenticateUser,
+  authenticateRewrite,
+  rateLimitByTier(),
   async (req: Request, res: Response) => {
     const startTime = Date.now();
+    const requestId = uuidv4();
     const requestData: RewriteRequest = req.body;
 
     try {
@@ -53,95 +133,145 @@ rewriteRouter.post('/',
 
       // Check cache first (Phase 2: Cost Control)
       const cachedResult = await cacheService.get(cacheKey);
+
+      const quotaCheck = await checkRewriteQuota(req, requestData, prompt, !!cachedResult);
+
+      if (!quotaCheck.canProceed) {
+        return res.status(429).json({
+          success: false,
+          error: 'quota_exceeded',
+          message: quotaCheck.reason || 'Request quota exceeded',
+          usage: quotaCheck.usage,
+          limits: quotaCheck.limits
+        });
+      }
+
       if (cachedResult) {
         logger.info('Cache hit for rewrite request', { cacheKey, userId: requestData.userId });
+        meteringService.recordCacheHit(req.user!.id, cachedResult.model, cachedResult, usageContext(requestId, requestData));
+        recordPresetUsage(req.user!.id, requestData.presetId);
+        recordHistory(req.user!.id, requestData, cachedResult, 0);
         
         const response: ApiResponse<RewriteResponse> = {
           success: true,
           data: {
             ...cachedResult,
-            processingTime: Date.now() - startTime
+            // A semantic cache hit may have been stored for a near-duplicate text
+            originalText: requestData.originalText,
+            processingTime: Date.now() - startTime,
+            costUSD: 0
           }
         };
         
         return res.json(response);
       }
 
-      // Check user's remaining quota
-      const quotaCheck = await meteringService.checkQuota(
-        requestData.userId || 'anonymous',
-        requestData.model || 'gpt-3.5-turbo',
-        req.user?.tier
-      );
+      const model = requestData.model || 'gpt-3.5-turbo';
+      const variantCount = requestData.variants || 1;
+      let finalText: string;
+      let violations: string[];
+      let variants: RewriteVariant[] | undefined;
+      // Every LLM call made for this request, so all of them are billed
+      const calls: { response: LLMResponse; reason: UsageReason }[] = [];
 
-      if (!quotaCheck.canProceed) {
-        return res.status(429).json({
-          success: false,
-          error: 'quota_exceeded',
-          message: quotaCheck.reason || 'Request quota exceeded',
-          usage: quotaCheck.usage,
-          limits: quotaCheck.limits
-        });
-      }
+      if (variantCount > 1) {
+        // Draw candidates at increasing temperatures so they actually differ
+        const responses = await Promise.all(
+          Array.from({ length: variantCount }, (_, i) =>
+            llmService.rewrite(prompt, model, {
+              temperature: Math.min(1, config.models.temperature + i * 0.15)
+            })
+          )
+        );
 
-      // Call LLM service
-      const llmResponse = await llmService.rewrite(prompt, requestData.model || 'gpt-3.5-turbo');
-      
-      // Validate output against guardrails
-      const violations = rewriteEngine.validateOutput(
-        requestData.originalText,
-        llmResponse.text,
-        requestData.guardrails
-      );
+        // Ranking replaces the stricter-prompt retry: violation-free candidates sort first
+        variants = rewriteEngine.rankVariants(requestData, responses.map(r => r.text));
+        finalText = variants[0].text;
+        violations = variants[0].guardrailViolations;
+        calls.push(...responses.map(response => ({ response, reason: 'primary' as const })));
+      } else {
+        // Call LLM service
+        const llmResponse = await llmService.rewrite(prompt, model);
+        calls.push({ response: llmResponse, reason: 'primary' });
 
-      // If there are violations, try once more with stricter prompt
-      let finalText = llmResponse.text;
-      if (violations.length > 0) {
-        logger.warn('Guardrail violations detected, retrying with stricter prompt', { violations });
-        
-        const stricterPrompt = prompt + '\\n\\nIMPORTANT: Pay special attention to the guardrails above. Ensure ALL required words remain unchanged and NO banned words appear in the output.';
-        const retryResponse = await llmService.rewrite(stricterPrompt, requestData.model || 'gpt-3.5-turbo');
-        
-        const retryViolations = rewriteEngine.validateOutput(
+        // Validate output against guardrails
+        violations = rewriteEngine.validateOutput(
           requestData.originalText,
-          retryResponse.text,
+          llmResponse.text,
           requestData.guardrails
         );
-        
-        if (retryViolations.length < violations.length) {
-          finalText = retryResponse.text;
+
+        // If there are violations, try once more with stricter prompt
+        finalText = llmResponse.text;
+        if (violations.length > 0) {
+          logger.warn('Guardrail violations detected, retrying with stricter prompt', { violations });
+          
+          const stricterPrompt = prompt + '\\n\\nIMPORTANT: Pay special attention to the guardrails above. Ensure ALL required words remain unchanged and NO banned words appear in the output.';
+          const retryResponse = await llmService.rewrite(stricterPrompt, model);
+          calls.push({ response: retryResponse, reason: 'retry' });
+          
+          const retryViolations = rewriteEngine.validateOutput(
+            requestData.originalText,
+            retryResponse.text,
+            requestData.guardrails
+          );
+          
+          if (retryViolations.length < violations.length) {
+            finalText = retryResponse.text;
+          }
         }
       }
 
+      // Verify the rewrite moved the way the sliders asked
+      const toneDrift = rewriteEngine.detectDrift(requestData, finalText);
+
       // Calculate metrics
       const metrics = rewriteEngine.calculateMetrics(requestData, finalText, Date.now() - startTime);
 
-      // Record usage
-      await meteringService.recordUsage(
-        requestData.userId || 'anonymous',
-        requestData.model || 'gpt-3.5-turbo',
-        llmResponse.tokensUsed
-      );
+      // Record each call with the provider's prompt/completion split; the request counts as one rewrite
+      let cost = 0;
+      for (const [index, { response, reason }] of calls.entries()) {
+        cost += await meteringService.recordUsage(
+          requestData.userId || 'anonymous',
+          model,
+          response.tokensUsed,
+          response.inputTokens,
+          response.outputTokens,
+          { ...usageContext(requestId, requestData), reason, countsAsRewrite: index === 0 }
+        );
+      }
+      const inputTokens = calls.reduce((sum, call) => sum + call.response.inputTokens, 0);
+      const outputTokens = calls.reduce((sum, call) => sum + call.response.outputTokens, 0);
+      const tokensUsed = inputTokens + outputTokens;
 
       // Prepare response
       const responseData: RewriteResponse = {
         rewrittenText: finalText,
         originalText: requestData.originalText,
-        model: requestData.model || 'gpt-3.5-turbo',
+        model,
         processingTime: metrics.processingTime,
-        tokensUsed: llmResponse.tokensUsed,
-        guardrailViolations: violations.length > 0 ? violations : undefined
+        tokensUsed,
+        inputTokens,
+        outputTokens,
+        costUSD: cost,
+        guardrailViolations: violations.length > 0 ? violations : undefined,
+        toneDrift: toneDrift.length > 0 ? toneDrift : undefined,
+        variants
       };
 
-      // Cache the result (10 minute TTL)
-      await cacheService.set(cacheKey, responseData, 600);
+      // Cache the result
+      await cacheService.set(cacheKey, responseData);
+      recordPresetUsage(req.user!.id, requestData.presetId);
+      recordHistory(req.user!.id, requestData, responseData, cost);
 
       logger.info('Rewrite completed successfully', {
         userId: requestData.userId,
         processingTime: metrics.processingTime,
-        tokensUsed: llmResponse.tokensUsed,
+        tokensUsed,
         wordChangeRatio: metrics.wordChangeRatio,
-        violations: violations.length
+        violations: violations.length,
+        toneDrift: toneDrift.length,
+        variants: variantCount
       });
 
       const response: ApiResponse<RewriteResponse> = {
@@ -170,23 +300,203 @@ rewriteRouter.post('/',
   }
 );
 
+/**
+ * Write a single Server-Sent Event and push it past the compression buffer
+ */
+function sendEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  res.flush();
+}
+
+/**
+ * POST /api/rewrite/stream
+ * Streaming variant of POST /api/rewrite using Server-Sent Events.
+ * Emits `delta` events with text fragments, then a single `done` event
+ * carrying guardrail violations, tokens used and cost (or an `error` event).
+ */
+rewriteRouter.post('/stream',
+  validateRequest(streamRequestSchema),
+  authenticateRewrite,
+  rateLimitByTier(),
+  async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+    const requestData: RewriteRequest = req.body;
+    const model = requestData.model || 'gpt-3.5-turbo';
+    const abortController = new AbortController();
+    // What the provider has generated so far; it bills for it even if the client cancels
+    let streamedPrompt: string | undefined;
+    let streamedText = '';
+
+    // Stop the upstream completion if the client goes away mid-stream
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    try {
+      requestData.userId = req.user?.id;
+
+      const { prompt, cacheKey } = await rewriteEngine.processRequest(requestData);
+
+      const cachedResult: RewriteResponse | null = await cacheService.get(cacheKey);
+
+      const quotaCheck = await checkRewriteQuota(req, requestData, prompt, !!cachedResult);
+
+      if (!quotaCheck.canProceed) {
+        return res.status(429).json({
+          success: false,
+          error: 'quota_exceeded',
+          message: quotaCheck.reason || 'Request quota exceeded',
+          usage: quotaCheck.usage,
+          limits: quotaCheck.limits
+        });
+      }
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.flushHeaders();
+
+      if (cachedResult) {
+        logger.info('Cache hit for streaming rewrite request', { cacheKey, userId: requestData.userId });
+        meteringService.recordCacheHit(req.user!.id, cachedResult.model, cachedResult, usageContext(requestId, requestData));
+        recordPresetUsage(req.user!.id, requestData.presetId);
+        recordHistory(req.user!.id, requestData, cachedResult, 0);
+        sendEvent(res, 'delta', { text: cachedResult.rewrittenText });
+        sendEvent(res, 'done', {
+          ...cachedResult,
+          originalText: requestData.originalText,
+          processingTime: Date.now() - startTime,
+          costUSD: 0,
+          cost: 0,
+          cached: true
+        });
+        return res.end();
+      }
+
+      streamedPrompt = prompt;
+      const llmResponse = await llmService.rewriteStream(
+        prompt,
+        model,
+        text => {
+          streamedText += text;
+          sendEvent(res, 'delta', { text });
+        },
+        abortController.signal
+      );
+      streamedPrompt = undefined;
+
+      // Charged even when the client has gone: the provider generated these tokens
+      const cost = await meteringService.recordUsage(
+        requestData.userId || 'anonymous',
+        model,
+        llmResponse.tokensUsed,
+        llmResponse.inputTokens,
+        llmResponse.outputTokens,
+        usageContext(requestId, requestData)
+      );
+
+      if (abortController.signal.aborted) {
+        logger.info('Streaming rewrite cancelled by client', { userId: requestData.userId });
+        return;
+      }
+
+      // Streamed text can't be retried transparently, so violations and drift are only reported
+      const violations = rewriteEngine.validateOutput(
+        requestData.originalText,
+        llmResponse.text,
+        requestData.guardrails
+      );
+      const toneDrift = rewriteEngine.detectDrift(requestData, llmResponse.text);
+
+      const responseData: RewriteResponse = {
+        rewrittenText: llmResponse.text,
+        originalText: requestData.originalText,
+        model,
+        processingTime: Date.now() - startTime,
+        tokensUsed: llmResponse.tokensUsed,
+        inputTokens: llmResponse.inputTokens,
+        outputTokens: llmResponse.outputTokens,
+        costUSD: cost,
+        guardrailViolations: violations.length > 0 ? violations : undefined,
+        toneDrift: toneDrift.length > 0 ? toneDrift : undefined
+      };
+
+      await cacheService.set(cacheKey, responseData);
+      recordPresetUsage(req.user!.id, requestData.presetId);
+      recordHistory(req.user!.id, requestData, responseData, cost);
+
+      logger.info('Streaming rewrite completed', {
+        userId: requestData.userId,
+        processingTime: responseData.processingTime,
+        tokensUsed: llmResponse.tokensUsed,
+        violations: violations.length,
+        toneDrift: toneDrift.length
+      });
+
+      sendEvent(res, 'done', { ...responseData, cost });
+      res.end();
+
+    } catch (error: any) {
+      if (abortController.signal.aborted) {
+        // The stream was cut off mid-completion, so bill the prompt and what was streamed
+        if (streamedPrompt !== undefined) {
+          const inputTokens = llmService.countTokens(streamedPrompt, model);
+          const outputTokens = llmService.countTokens(streamedText, model);
+
+          await meteringService.recordUsage(
+            requestData.userId || 'anonymous',
+            model,
+            inputTokens + outputTokens,
+            inputTokens,
+            outputTokens,
+            usageContext(requestId, requestData)
+          );
+        }
+
+        logger.info('Streaming rewrite cancelled by client', { userId: requestData.userId });
+        return;
+      }
+
+      logger.error('Error processing streaming rewrite request', {
+        error: error.message,
+        stack: error.stack,
+        userId: requestData.userId
+      });
+
+      if (!res.headersSent) {
+        return res.status(500).json({
+          success: false,
+          error: 'rewrite_failed',
+          message: 'Failed to process rewrite request. Please try again.'
+        });
+      }
+
+      sendEvent(res, 'error', {
+        error: 'rewrite_failed',
+        message: 'Failed to process rewrite request. Please try again.'
+      });
+      res.end();
+    }
+  }
+);
+
 /**
  * POST /api/rewrite/batch
  * Batch rewriting endpoint for multiple texts
  */
 rewriteRouter.post('/batch',
-  authenticateUser,
+  validateRequest(batchRequestSchema),
+  authenticateRewrite,
+  // Each text in the batch counts towards the hourly limit
+  rateLimitByTier({ weight: req => req.body.texts.length }),
   async (req: Request, res: Response) => {
     const { texts, ...commonParams } = req.body;
-    
-    if (!Array.isArray(texts) || texts.length === 0 || texts.length > 10) {
-      return res.status(400).json({
-        success: false,
-        error: 'invalid_batch_size',
-        message: 'Batch size must be between 1 and 10 texts'
-      });
-    }
 
+    const requestId = uuidv4();
     const results = [];
     const errors = [];
 
@@ -201,28 +511,51 @@ rewriteRouter.post('/batch',
         const { prompt, cacheKey } = await rewriteEngine.processRequest(requestData);
         
         // Check cache
-        let result = await cacheService.get(cacheKey);
-        
-        if (!result) {
-          const llmResponse = await llmService.rewrite(prompt, requestData.model || 'gpt-3.5-turbo');
-          
-          result = {
-            rewrittenText: llmResponse.text,
-            originalText: requestData.originalText,
-            model: requestData.model || 'gpt-3.5-turbo',
-            processingTime: 0,
-            tokensUsed: llmResponse.tokensUsed
-          };
-          
-          await cacheService.set(cacheKey, result, 600);
-          
-          await meteringService.recordUsage(
-            requestData.userId || 'anonymous',
-            requestData.model || 'gpt-3.5-turbo',
-            llmResponse.tokensUsed
-          );
+        const cachedResult: RewriteResponse | null = await cacheService.get(cacheKey);
+
+        // Each item is admitted separately, so earlier items' spend counts against later ones
+        const quotaCheck = await checkRewriteQuota(req, requestData, prompt, !!cachedResult);
+
+        if (!quotaCheck.canProceed) {
+          errors.push({
+            index: i,
+            error: quotaCheck.reason || 'Request quota exceeded'
+          });
+          continue;
         }
 
+        if (cachedResult) {
+          meteringService.recordCacheHit(req.user!.id, cachedResult.model, cachedResult, usageContext(requestId, requestData));
+          recordHistory(req.user!.id, requestData, cachedResult, 0);
+          results.push({ ...cachedResult, originalText: requestData.originalText, costUSD: 0 });
+          continue;
+        }
+
+        const llmResponse = await llmService.rewrite(prompt, requestData.model || 'gpt-3.5-turbo');
+
+        const cost = await meteringService.recordUsage(
+          requestData.userId || 'anonymous',
+          requestData.model || 'gpt-3.5-turbo',
+          llmResponse.tokensUsed,
+          llmResponse.inputTokens,
+          llmResponse.outputTokens,
+          { ...usageContext(requestId, requestData), reason: 'batch' }
+        );
+
+        const result: RewriteResponse = {
+          rewrittenText: llmResponse.text,
+          originalText: requestData.originalText,
+          model: requestData.model || 'gpt-3.5-turbo',
+          processingTime: 0,
+          tokensUsed: llmResponse.tokensUsed,
+          inputTokens: llmResponse.inputTokens,
+          outputTokens: llmResponse.outputTokens,
+          costUSD: cost
+        };
+
+        await cacheService.set(cacheKey, result);
+        recordHistory(req.user!.id, requestData, result, cost);
+
         results.push(result);
         
       } catch (error: any) {
@@ -245,47 +578,22 @@ rewriteRouter.post('/batch',
 
 /**
  * GET /api/rewrite/models
- * Get available models and their capabilities
+ * Get available models and their capabilities, from the plan catalog
  */
 rewriteRouter.get('/models', (req: Request, res: Response) => {
-  const models = [
-    {
-      id: 'gpt-3.5-turbo',
-      name: 'GPT-3.5 Turbo',
-      provider: 'openai',
-      tier: 'free',
-      maxTokens: 4096,
-      costPerToken: 0.0015,
-      description: 'Fast and efficient model for general tone adjustments'
-    },
-    {
-      id: 'gpt-4',
-      name: 'GPT-4',
-      provider: 'openai',
-      tier: 'premium',
-      maxTokens: 8192,
-      costPerToken: 0.03,
-      description: 'Advanced model with superior understanding and nuanced tone control'
+  const models = planCatalog.listModels().map(model => ({
+    id: model.id,
+    name: model.name,
+    provider: model.provider,
+    tier: model.tier,
+    maxTokens: model.maxTokens,
+    costPerToken: model.inputPer1k / 1000,
+    pricing: {
+      inputPer1k: model.inputPer1k,
+      outputPer1k: model.outputPer1k
     },
-    {
-      id: 'claude-3-haiku',
-      name: 'Claude 3 Haiku',
-      provider: 'anthropic',
-      tier: 'premium',
-      maxTokens: 4096,
-      costPerToken: 0.002,
-      description: 'Fast and efficient Claude model with good tone understanding'
-    },
-    {
-      id: 'claude-3-sonnet',
-      name: 'Claude 3 Sonnet',
-      provider: 'anthropic',
-      tier: 'premium',
-      maxTokens: 8192,
-      costPerToken: 0.015,
-      description: 'Balanced Claude model with excellent tone control and creativity'
-    }
-  ];
+    description: model.description
+  }));
 
   res.json({
     success: true,
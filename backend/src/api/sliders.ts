@@ -1,17 +1,96 @@
 import { Router, Request, Response } from 'express';
-import { CORE_SLIDERS } from '@tone-slyder/shared/types';
+import { CORE_SLIDERS, CompositeMapping, CustomSlider, ApiResponse } from '@tone-slyder/shared/types';
+import { customSliderRepository } from '../repositories/customSliderRepository';
+import { validateRequest } from '../middleware/validation';
+import { authenticateUser } from '../middleware/auth';
+import { logger } from '../config/logger';
+import Joi from 'joi';
 
 export const slidersRouter = Router();
 
-// GET /api/sliders - Get all core sliders
-slidersRouter.get('/', (req: Request, res: Response) => {
-  res.json({
-    success: true,
-    data: {
-      core: CORE_SLIDERS,
-      custom: [] // No custom sliders in basic implementation
+const compositeMappingSchema = Joi.object({
+  condition: Joi.string().valid('low', 'medium', 'high').required(),
+  range: Joi.array().ordered(
+    Joi.number().integer().min(10).max(90).required(),
+    Joi.number().integer().min(10).max(90).required()
+  ).length(2).required(),
+  instructions: Joi.array().items(Joi.string().min(1).max(200)).min(1).max(5).required()
+});
+
+/**
+ * Ranges must be ascending, non-overlapping and each condition may appear only once
+ */
+function validateCompositeMappings(mappings: CompositeMapping[], helpers: Joi.CustomHelpers) {
+  const conditions = new Set<string>();
+
+  for (const mapping of mappings) {
+    if (mapping.range[0] > mapping.range[1]) {
+      return helpers.message({ custom: `Range for "${mapping.condition}" must be [min, max]` });
     }
-  });
+    if (conditions.has(mapping.condition)) {
+      return helpers.message({ custom: `Condition "${mapping.condition}" is mapped more than once` });
+    }
+    conditions.add(mapping.condition);
+  }
+
+  const sorted = [...mappings].sort((a, b) => a.range[0] - b.range[0]);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].range[0] <= sorted[i - 1].range[1]) {
+      return helpers.message({
+        custom: `Ranges for "${sorted[i - 1].condition}" and "${sorted[i].condition}" overlap`
+      });
+    }
+  }
+
+  return mappings;
+}
+
+const mappingsSchema = Joi.array()
+  .items(compositeMappingSchema)
+  .max(3)
+  .custom(validateCompositeMappings, 'composite mapping ranges');
+
+const createCustomSliderSchema = Joi.object({
+  label: Joi.string().min(1).max(100).required(),
+  description: Joi.string().max(500).allow('').default(''),
+  mappings: mappingsSchema.default([]),
+  tags: Joi.array().items(Joi.string().max(50)).max(10).default([]),
+  public: Joi.boolean().default(false)
+});
+
+const updateCustomSliderSchema = Joi.object({
+  label: Joi.string().min(1).max(100),
+  description: Joi.string().max(500).allow(''),
+  mappings: mappingsSchema,
+  tags: Joi.array().items(Joi.string().max(50)).max(10),
+  public: Joi.boolean()
+}).min(1);
+
+function isVisibleTo(slider: CustomSlider, userId?: string): boolean {
+  return slider.public || slider.creator === userId;
+}
+
+// GET /api/sliders - Get core sliders and the custom sliders visible to the user
+slidersRouter.get('/', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const custom = await customSliderRepository.listVisibleTo(req.user!.id);
+
+    res.json({
+      success: true,
+      data: {
+        core: CORE_SLIDERS,
+        custom
+      }
+    });
+  } catch (error: any) {
+    logger.error('Error fetching sliders', { userId: req.user?.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'sliders_fetch_failed',
+      message: 'Unable to fetch sliders. Please try again.'
+    });
+  }
 });
 
 // GET /api/sliders/core - Get core sliders only
@@ -21,3 +100,189 @@ slidersRouter.get('/core', (req: Request, res: Response) => {
     data: CORE_SLIDERS
   });
 });
+
+/**
+ * GET /api/sliders/custom
+ * List the user's own custom sliders plus public ones
+ */
+slidersRouter.get('/custom', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const sliders = await customSliderRepository.listVisibleTo(req.user!.id);
+
+    res.json({
+      success: true,
+      data: sliders
+    });
+  } catch (error: any) {
+    logger.error('Error listing custom sliders', { userId: req.user?.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'custom_sliders_fetch_failed',
+      message: 'Unable to fetch custom sliders. Please try again.'
+    });
+  }
+});
+
+/**
+ * GET /api/sliders/custom/:id
+ * Private sliders are reported as not found to anyone but their creator
+ */
+slidersRouter.get('/custom/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const slider = await customSliderRepository.findById(req.params.id);
+
+    if (!slider || !isVisibleTo(slider, req.user?.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'slider_not_found',
+        message: 'Custom slider not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: slider
+    });
+  } catch (error: any) {
+    logger.error('Error fetching custom slider', { sliderId: req.params.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'custom_slider_fetch_failed',
+      message: 'Unable to fetch custom slider. Please try again.'
+    });
+  }
+});
+
+/**
+ * POST /api/sliders/custom
+ * Create a custom slider owned by the current user
+ */
+slidersRouter.post('/custom',
+  validateRequest(createCustomSliderSchema),
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const slider = await customSliderRepository.create(req.user!.id, req.body);
+
+      logger.info('Custom slider created', {
+        userId: req.user?.id,
+        sliderId: slider.id,
+        mappings: slider.mappings?.length || 0,
+        public: slider.public
+      });
+
+      const response: ApiResponse<CustomSlider> = {
+        success: true,
+        data: slider,
+        message: 'Custom slider created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Error creating custom slider', { userId: req.user?.id, error: error.message });
+
+      res.status(500).json({
+        success: false,
+        error: 'custom_slider_create_failed',
+        message: 'Unable to create custom slider. Please try again.'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/sliders/custom/:id
+ * Update a custom slider; only its creator may do so
+ */
+slidersRouter.put('/custom/:id',
+  validateRequest(updateCustomSliderSchema),
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const existing = await customSliderRepository.findById(req.params.id);
+
+      if (!existing || !isVisibleTo(existing, req.user?.id)) {
+        return res.status(404).json({
+          success: false,
+          error: 'slider_not_found',
+          message: 'Custom slider not found'
+        });
+      }
+
+      if (existing.creator !== req.user?.id) {
+        return res.status(403).json({
+          success: false,
+          error: 'forbidden',
+          message: 'Only the creator can modify this slider'
+        });
+      }
+
+      const slider = await customSliderRepository.update(req.params.id, req.body);
+
+      logger.info('Custom slider updated', {
+        userId: req.user?.id,
+        sliderId: req.params.id,
+        updatedFields: Object.keys(req.body)
+      });
+
+      res.json({
+        success: true,
+        data: slider,
+        message: 'Custom slider updated successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error updating custom slider', { sliderId: req.params.id, error: error.message });
+
+      res.status(500).json({
+        success: false,
+        error: 'custom_slider_update_failed',
+        message: 'Unable to update custom slider. Please try again.'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/sliders/custom/:id
+ * Delete a custom slider; only its creator may do so
+ */
+slidersRouter.delete('/custom/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const existing = await customSliderRepository.findById(req.params.id);
+
+    if (!existing || !isVisibleTo(existing, req.user?.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'slider_not_found',
+        message: 'Custom slider not found'
+      });
+    }
+
+    if (existing.creator !== req.user?.id) {
+      return res.status(403).json({
+        success: false,
+        error: 'forbidden',
+        message: 'Only the creator can delete this slider'
+      });
+    }
+
+    await customSliderRepository.delete(req.params.id);
+
+    logger.info('Custom slider deleted', { userId: req.user?.id, sliderId: req.params.id });
+
+    res.json({
+      success: true,
+      message: 'Custom slider deleted'
+    });
+  } catch (error: any) {
+    logger.error('Error deleting custom slider', { sliderId: req.params.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'custom_slider_delete_failed',
+      message: 'Unable to delete custom slider. Please try again.'
+    });
+  }
+});
@@ -1,10 +1,30 @@
 import { Router, Request, Response } from 'express';
+import { RewriteRequest, RewriteEstimate, UsageHistory, ApiResponse } from '@tone-slyder/shared/types';
 import { meteringService } from '../services/meteringService';
+import { costEstimator } from '../services/costEstimator';
+import { usageAnalytics } from '../services/usageAnalytics';
+import { planCatalog } from '../services/planCatalog';
 import { authenticateUser } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { rewriteRequestSchema } from './rewrite';
 import { logger } from '../config/logger';
+import Joi from 'joi';
 
 export const usageRouter = Router();
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const historyQuerySchema = Joi.object({
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional().when('from', {
+    is: Joi.exist(),
+    then: Joi.date().min(Joi.ref('from'))
+  }),
+  granularity: Joi.string().valid('day', 'month').default('day'),
+  top: Joi.number().integer().min(1).max(50).default(10),
+  format: Joi.string().valid('json', 'csv').optional()
+});
+
 /**
  * GET /api/usage
  * Get current user's usage statistics and limits
@@ -22,7 +42,10 @@ usageRouter.get('/', authenticateUser, async (req: Request, res: Response) => {
       });
     }
 
-    const usageStats = await meteringService.getUserUsage(userId, userTier);
+    const [usageStats, breakdown] = await Promise.all([
+      meteringService.getUserUsage(userId, userTier),
+      meteringService.getUsageBreakdown(userId)
+    ]);
 
     res.json({
       success: true,
@@ -33,6 +56,8 @@ usageRouter.get('/', authenticateUser, async (req: Request, res: Response) => {
           cost: usageStats.usage.costUSD,
           monthYear: usageStats.usage.monthYear
         },
+        // Calls, tokens and spend per reason (primary/retry/batch/cached/analysis), with what caching saved
+        breakdown,
         limits: {
           monthlyRewrites: usageStats.limits.monthlyRewrites,
           monthlyBudgetUSD: usageStats.limits.monthlyBudgetUSD,
@@ -41,6 +66,21 @@ usageRouter.get('/', authenticateUser, async (req: Request, res: Response) => {
         },
         utilization: usageStats.utilization,
         tier: usageStats.usage.tier,
+        // Members draw on a shared pool; limits above are the organization's
+        organization: usageStats.organization ? {
+          id: usageStats.organization.organization.id,
+          name: usageStats.organization.organization.name,
+          role: usageStats.organization.member.role,
+          pool: {
+            rewrites: usageStats.organization.pool.rewritesCount,
+            tokens: usageStats.organization.pool.tokensUsed,
+            cost: usageStats.organization.pool.costUSD
+          },
+          memberLimits: {
+            monthlyRewrites: usageStats.organization.member.monthlyRewriteLimit ?? null,
+            monthlyBudgetUSD: usageStats.organization.member.monthlyBudgetUSD ?? null
+          }
+        } : null,
         status: {
           canMakeRequests: usageStats.utilization.rewritesPercent < 100 && 
                           usageStats.utilization.budgetPercent < 100,
@@ -70,112 +110,129 @@ usageRouter.get('/', authenticateUser, async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/usage/estimate
- * Estimate cost for a potential request
+ * GET /api/usage/history
+ * Daily or monthly usage trends with breakdowns by model, preset and slider configuration,
+ * the most costly requests and cache savings. Range defaults to the last 90 days; from/to are
+ * ISO dates, inclusive. `format=csv` or `format=json` downloads the result as a file.
  */
-usageRouter.post('/estimate', authenticateUser, async (req: Request, res: Response) => {
+usageRouter.get('/history', authenticateUser, async (req: Request, res: Response) => {
+  const { error, value } = historyQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      error: 'validation_error',
+      message: error.details[0].message
+    });
+  }
+
+  // A bare date for "to" means the whole of that day
+  let to: Date = value.to || new Date();
+  if (value.to && /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.to))) {
+    to = new Date(to.getTime() + DAY_MS);
+  }
+  const from: Date = value.from || new Date(to.getTime() - 90 * DAY_MS);
+
+  if (to.getTime() - from.getTime() > 2 * 366 * DAY_MS) {
+    return res.status(400).json({
+      success: false,
+      error: 'validation_error',
+      message: 'Usage history covers at most two years per request'
+    });
+  }
+
   try {
-    const { model = 'gpt-3.5-turbo', textLength } = req.body;
-    
-    // Rough estimation: ~4 characters per token, plus overhead
-    const estimatedTokens = Math.ceil((textLength || 1000) / 4 * 1.3);
-    
-    const estimatedCost = meteringService.estimateRequestCost(model, estimatedTokens);
-    
-    res.json({
-      success: true,
-      data: {
-        model,
-        estimatedTokens,
-        estimatedCost: parseFloat(estimatedCost.toFixed(4)),
-        textLength: textLength || 1000
-      }
+    const history = await usageAnalytics.getHistory(req.user!.id, {
+      from,
+      to,
+      granularity: value.granularity,
+      top: value.top
     });
 
+    if (value.format) {
+      // Name the file after the last day covered; `to` itself is exclusive
+      const lastDay = new Date(to.getTime() - 1).toISOString().slice(0, 10);
+      const filename = `usage-${history.from.slice(0, 10)}-${lastDay}.${value.format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      if (value.format === 'csv') {
+        return res.type('text/csv').send(usageAnalytics.toCsv(history));
+      }
+      return res.type('application/json').send(JSON.stringify(history, null, 2));
+    }
+
+    const response: ApiResponse<UsageHistory> = {
+      success: true,
+      data: history
+    };
+
+    res.json(response);
   } catch (error: any) {
-    logger.error('Error estimating request cost', {
-      userId: req.user?.id,
-      error: error.message,
-      body: req.body
-    });
+    logger.error('Error fetching usage history', { userId: req.user?.id, error: error.message });
 
     res.status(500).json({
       success: false,
-      error: 'estimation_failed', 
-      message: 'Unable to estimate request cost. Please try again.'
+      error: 'usage_history_failed',
+      message: 'Unable to fetch usage history. Please try again.'
     });
   }
 });
 
+/**
+ * POST /api/usage/estimate
+ * Project min/expected/max cost of a rewrite request (same body as POST /api/rewrite)
+ * from the prompt it would actually send
+ */
+usageRouter.post('/estimate',
+  validateRequest(rewriteRequestSchema),
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const requestData: RewriteRequest = { ...req.body, userId: req.user!.id };
+      const estimate = await costEstimator.estimate(requestData);
+
+      const response: ApiResponse<RewriteEstimate> = {
+        success: true,
+        data: estimate
+      };
+
+      res.json(response);
+    } catch (error: any) {
+      logger.error('Error estimating request cost', {
+        userId: req.user?.id,
+        error: error.message
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'estimation_failed',
+        message: 'Unable to estimate request cost. Please try again.'
+      });
+    }
+  }
+);
+
 /**
  * GET /api/usage/models
- * Get available models and pricing for user's tier
+ * Get available models and pricing for user's tier, from the plan catalog
  */
 usageRouter.get('/models', authenticateUser, async (req: Request, res: Response) => {
   try {
-    const userTier = req.user?.tier || 'free';
-    
-    // Get tier limits to determine model access
-    const quotaCheck = await meteringService.checkQuota(
-      req.user?.id || 'anonymous', 
-      'gpt-3.5-turbo',
-      userTier
-    );
-    
-    if (!quotaCheck.limits) {
-      throw new Error('Unable to determine user limits');
-    }
+    // Organization members get their organization's tier
+    const userTier = await meteringService.getEffectiveTier(req.user!.id, req.user!.tier);
+    const limits = meteringService.getTierLimits(userTier);
 
-    const modelPricing = [
-      {
-        id: 'gpt-3.5-turbo',
-        name: 'GPT-3.5 Turbo',
-        provider: 'OpenAI',
-        tier: 'free',
-        available: quotaCheck.limits.modelAccess.includes('gpt-3.5-turbo'),
-        pricing: {
-          inputPer1k: 0.0015,
-          outputPer1k: 0.002
-        },
-        features: ['Fast', 'Cost-effective', 'Good quality']
+    const modelPricing = planCatalog.listModels().map(model => ({
+      id: model.id,
+      name: model.name,
+      provider: model.provider,
+      tier: model.tier,
+      available: model.provider === 'local' || limits.modelAccess.includes(model.id),
+      pricing: {
+        inputPer1k: model.inputPer1k,
+        outputPer1k: model.outputPer1k
       },
-      {
-        id: 'gpt-4',
-        name: 'GPT-4',
-        provider: 'OpenAI',
-        tier: 'premium',
-        available: quotaCheck.limits.modelAccess.includes('gpt-4'),
-        pricing: {
-          inputPer1k: 0.03,
-          outputPer1k: 0.06
-        },
-        features: ['High quality', 'Better reasoning', 'More accurate']
-      },
-      {
-        id: 'claude-3-haiku',
-        name: 'Claude 3 Haiku',
-        provider: 'Anthropic',
-        tier: 'premium',
-        available: quotaCheck.limits.modelAccess.includes('claude-3-haiku'),
-        pricing: {
-          inputPer1k: 0.00025,
-          outputPer1k: 0.00125
-        },
-        features: ['Very fast', 'Ultra cost-effective', 'Good for simple tasks']
-      },
-      {
-        id: 'claude-3-sonnet',
-        name: 'Claude 3 Sonnet',
-        provider: 'Anthropic', 
-        tier: 'premium',
-        available: quotaCheck.limits.modelAccess.includes('claude-3-sonnet'),
-        pricing: {
-          inputPer1k: 0.003,
-          outputPer1k: 0.015
-        },
-        features: ['Balanced performance', 'Creative writing', 'Nuanced understanding']
-      }
-    ];
+      features: model.features
+    }));
 
     res.json({
       success: true,
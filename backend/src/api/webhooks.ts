@@ -0,0 +1,105 @@
+import { Router, Request, Response } from 'express';
+import { ApiResponse, CreatedWebhook } from '@tone-slyder/shared/types';
+import { webhookService, WebhookError } from '../services/webhookService';
+import { validateRequest } from '../middleware/validation';
+import { authenticate } from '../middleware/auth';
+import { config } from '../config/environment';
+import { logger } from '../config/logger';
+import Joi from 'joi';
+
+export const webhooksRouter = Router();
+
+// Webhooks are managed from a signed-in session only
+const authenticateSession = authenticate({ sessionOnly: true });
+
+const EVENTS = ['quota.warning', 'quota.exceeded'];
+
+const createWebhookSchema = Joi.object({
+  // Payloads carry usage details, so production endpoints must use TLS
+  url: Joi.string().uri({ scheme: config.env === 'production' ? ['https'] : ['http', 'https'] }).max(2048).required(),
+  events: Joi.array().items(Joi.string().valid(...EVENTS)).min(1).unique().default(EVENTS)
+});
+
+// GET /api/webhooks - List the user's webhooks (never their secrets)
+webhooksRouter.get('/', authenticateSession, async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await webhookService.list(req.user!.id)
+    });
+  } catch (error: any) {
+    logger.error('Error listing webhooks', { userId: req.user?.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'webhooks_fetch_failed',
+      message: 'Unable to fetch webhooks. Please try again.'
+    });
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Subscribe a URL to quota events. The signing secret is only shown in this response.
+ */
+webhooksRouter.post('/',
+  validateRequest(createWebhookSchema),
+  authenticateSession,
+  async (req: Request, res: Response) => {
+    try {
+      const webhook = await webhookService.create(req.user!.id, req.body.url, req.body.events);
+
+      const response: ApiResponse<CreatedWebhook> = {
+        success: true,
+        data: webhook,
+        message: 'Webhook registered. Copy the signing secret now; it will not be shown again.'
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      if (error instanceof WebhookError) {
+        return res.status(error.status).json({
+          success: false,
+          error: error.code,
+          message: error.message
+        });
+      }
+
+      logger.error('Error registering webhook', { userId: req.user?.id, error: error.message });
+
+      res.status(500).json({
+        success: false,
+        error: 'webhook_create_failed',
+        message: 'Unable to register webhook. Please try again.'
+      });
+    }
+  }
+);
+
+// DELETE /api/webhooks/:id - Stop sending events to a webhook
+webhooksRouter.delete('/:id', authenticateSession, async (req: Request, res: Response) => {
+  try {
+    const deleted = await webhookService.delete(req.user!.id, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'webhook_not_found',
+        message: 'Webhook not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Webhook deleted'
+    });
+  } catch (error: any) {
+    logger.error('Error deleting webhook', { webhookId: req.params.id, error: error.message });
+
+    res.status(500).json({
+      success: false,
+      error: 'webhook_delete_failed',
+      message: 'Unable to delete webhook. Please try again.'
+    });
+  }
+});
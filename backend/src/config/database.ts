@@ -0,0 +1,35 @@
+import { Pool, QueryResultRow } from 'pg';
+import { config } from './environment';
+import { logger } from './logger';
+
+let pool: Pool | null = null;
+
+/**
+ * Lazily create the shared connection pool so the in-memory driver never connects
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    pool = new Pool({ connectionString: config.database.url });
+
+    pool.on('error', (error) => {
+      logger.error('Unexpected PostgreSQL pool error', { error: error.message });
+    });
+  }
+
+  return pool;
+}
+
+// Ids are UUID columns; anything else can't match a row, and Postgres would reject it
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function query<T extends QueryResultRow = any>(text: string, params: unknown[] = []): Promise<T[]> {
+  const result = await getPool().query<T>(text, params);
+  return result.rows;
+}
+
+export async function closePool(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+}
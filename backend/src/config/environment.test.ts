@@ -0,0 +1,47 @@
+// Production logging writes to files; keep it out of the way
+jest.mock('./logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const ORIGINAL_ENV = process.env;
+
+// A fresh config module read from the given environment
+function loadConfig(env: Record<string, string | undefined>) {
+  process.env = { ...ORIGINAL_ENV, DATABASE_URL: undefined, DATABASE_DRIVER: undefined, ...env };
+  Object.keys(process.env).forEach(key => process.env[key] === undefined && delete process.env[key]);
+
+  let config!: typeof import('./environment').config;
+  jest.isolateModules(() => {
+    config = require('./environment').config;
+  });
+  return config;
+}
+
+afterEach(() => {
+  process.env = ORIGINAL_ENV;
+});
+
+describe('config.database', () => {
+  it('keeps data in memory when no database is configured outside production', () => {
+    expect(loadConfig({ NODE_ENV: 'development' }).database.driver).toBe('memory');
+  });
+
+  it('uses Postgres when DATABASE_URL is set', () => {
+    const config = loadConfig({ NODE_ENV: 'development', DATABASE_URL: 'postgresql://db:5432/tone_slyder' });
+
+    expect(config.database.driver).toBe('postgres');
+    expect(config.database.url).toBe('postgresql://db:5432/tone_slyder');
+  });
+
+  it('refuses to start in production without a database', () => {
+    expect(() => loadConfig({ NODE_ENV: 'production', OPENAI_API_KEY: 'sk-test' })).toThrow(
+      /DATABASE_URL is required in production/
+    );
+  });
+
+  it('runs in production on in-memory storage only when asked to', () => {
+    const config = loadConfig({ NODE_ENV: 'production', OPENAI_API_KEY: 'sk-test', DATABASE_DRIVER: 'memory' });
+
+    expect(config.database.driver).toBe('memory');
+  });
+});
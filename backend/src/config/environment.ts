@@ -11,6 +11,8 @@ interface Config {
   port: number;
   database: {
     url: string;
+    driver: 'postgres' | 'memory';
+    migrateOnStart: boolean;
   };
   redis: {
     url: string;
@@ -18,6 +20,7 @@ interface Config {
   jwt: {
     secret: string;
     expiresIn: string;
+    refreshTtlDays: number;
   };
   cors: {
     origins: string[];
@@ -25,17 +28,37 @@ interface Config {
   rateLimiting: {
     maxRequests: number;
     windowMs: number;
+    store: 'redis' | 'memory';
   };
   logging: {
     level: string;
   };
   cache: {
+    driver: 'redis' | 'memory';
     ttlSeconds: number;
+    maxEntries: number;
+    semantic: boolean;
   };
   costControl: {
     freeTierMonthlyRewrites: number;
     freeTierMonthlyBudgetUsd: number;
   };
+  plans: {
+    file: string;  // Optional JSON plan catalog replacing the built-in defaults
+  };
+  notifications: {
+    email: {
+      transport: 'file' | 'stub' | 'none';
+      dir: string;   // Where the file transport writes .eml files
+      from: string;
+    };
+    webhooks: {
+      maxAttempts: number;
+      retryBaseMs: number;  // Doubles after each failed attempt
+      timeoutMs: number;
+      allowPrivateTargets: boolean;  // Local testing only; never outside development
+    };
+  };
   models: {
     default: string;
     temperature: number;
@@ -44,9 +67,16 @@ interface Config {
   llm: {
     openai: {
       apiKey: string;
+      baseUrl: string;
     };
     anthropic: {
       apiKey: string;
+      baseUrl: string;
+    };
+    local: {
+      baseUrl: string;
+      apiKey: string;
+      models: string[];
     };
   };
 }
@@ -66,8 +96,13 @@ function validateConfig(): Config {
 
   // Validate API keys in production
   if (process.env.NODE_ENV === 'production') {
-    if (!process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
-      throw new Error('At least one LLM API key (OPENAI_API_KEY or ANTHROPIC_API_KEY) is required in production');
+    if (!process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY && !process.env.LOCAL_LLM_BASE_URL) {
+      throw new Error('At least one LLM backend (OPENAI_API_KEY, ANTHROPIC_API_KEY or LOCAL_LLM_BASE_URL) is required in production');
+    }
+
+    // In-memory storage loses every account and usage record on restart, so it must be asked for
+    if (!process.env.DATABASE_URL && process.env.DATABASE_DRIVER !== 'memory') {
+      throw new Error('DATABASE_URL is required in production (set DATABASE_DRIVER=memory to run without a database)');
     }
   }
 
@@ -76,7 +111,11 @@ function validateConfig(): Config {
     port: parseInt(process.env.PORT || '3001', 10),
     
     database: {
-      url: process.env.DATABASE_URL || 'postgresql://localhost:5432/tone_slyder'
+      url: process.env.DATABASE_URL || 'postgresql://localhost:5432/tone_slyder',
+      // Without an explicit DATABASE_URL, keep data in memory so the API runs standalone
+      driver: (process.env.DATABASE_DRIVER as 'postgres' | 'memory') ||
+        (process.env.DATABASE_URL ? 'postgres' : 'memory'),
+      migrateOnStart: process.env.DATABASE_MIGRATE_ON_START !== 'false'
     },
     
     redis: {
@@ -85,7 +124,9 @@ function validateConfig(): Config {
     
     jwt: {
       secret: process.env.JWT_SECRET!,
-      expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+      // Access tokens stay short-lived; sessions are extended with refresh tokens
+      expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+      refreshTtlDays: parseInt(process.env.JWT_REFRESH_TTL_DAYS || '30', 10)
     },
     
     cors: {
@@ -94,7 +135,10 @@ function validateConfig(): Config {
     
     rateLimiting: {
       maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
-      windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10)
+      windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
+      // Per-user hourly limits must be shared by every replica to hold
+      store: (process.env.RATE_LIMIT_STORE as 'redis' | 'memory') ||
+        (process.env.REDIS_URL ? 'redis' : 'memory')
     },
     
     logging: {
@@ -102,12 +146,41 @@ function validateConfig(): Config {
     },
     
     cache: {
-      ttlSeconds: parseInt(process.env.CACHE_TTL_SECONDS || '600', 10)
+      // Share the cache across replicas through Redis whenever it is configured
+      driver: (process.env.CACHE_DRIVER as 'redis' | 'memory') ||
+        (process.env.REDIS_URL ? 'redis' : 'memory'),
+      ttlSeconds: parseInt(process.env.CACHE_TTL_SECONDS || '600', 10),
+      // LRU bound for the in-memory driver
+      maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10),
+      // Reuse rewrites for near-duplicate requests (same prompt after normalisation)
+      semantic: process.env.CACHE_SEMANTIC === 'true'
     },
     
     costControl: {
+      // Seed the free tier of the built-in plan catalog
       freeTierMonthlyRewrites: parseInt(process.env.FREE_TIER_MONTHLY_REWRITES || '100', 10),
-      freeTierMonthlyBudgetUsd: parseInt(process.env.FREE_TIER_MONTHLY_BUDGET_USD || '100', 10)
+      freeTierMonthlyBudgetUsd: parseFloat(process.env.FREE_TIER_MONTHLY_BUDGET_USD || '5')
+    },
+
+    plans: {
+      file: process.env.PLANS_FILE || ''
+    },
+
+    notifications: {
+      email: {
+        // Nothing leaves the process unless a transport is chosen; production defaults to none
+        transport: (process.env.EMAIL_TRANSPORT as 'file' | 'stub' | 'none') ||
+          (process.env.NODE_ENV === 'production' ? 'none' : 'stub'),
+        dir: process.env.EMAIL_DIR || path.join(process.cwd(), 'mail'),
+        from: process.env.EMAIL_FROM || 'Tone Slyder <no-reply@toneslyder.com>'
+      },
+      webhooks: {
+        maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+        retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '2000', 10),
+        timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10),
+        allowPrivateTargets: process.env.NODE_ENV === 'development' &&
+          process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true'
+      }
     },
     
     models: {
@@ -118,10 +191,17 @@ function validateConfig(): Config {
     
     llm: {
       openai: {
-        apiKey: process.env.OPENAI_API_KEY || ''
+        apiKey: process.env.OPENAI_API_KEY || '',
+        baseUrl: process.env.OPENAI_BASE_URL || ''
       },
       anthropic: {
-        apiKey: process.env.ANTHROPIC_API_KEY || ''
+        apiKey: process.env.ANTHROPIC_API_KEY || '',
+        baseUrl: process.env.ANTHROPIC_BASE_URL || ''
+      },
+      local: {
+        baseUrl: process.env.LOCAL_LLM_BASE_URL || '',
+        apiKey: process.env.LOCAL_LLM_API_KEY || '',
+        models: process.env.LOCAL_LLM_MODELS?.split(',').map(m => m.trim()).filter(Boolean) || []
       }
     }
   };
@@ -137,6 +217,9 @@ if (config.env === 'development') {
     corsOrigins: config.cors.origins,
     hasOpenAI: !!config.llm.openai.apiKey,
     hasAnthropic: !!config.llm.anthropic.apiKey,
-    defaultModel: config.models.default
+    localModels: config.llm.local.models,
+    defaultModel: config.models.default,
+    databaseDriver: config.database.driver,
+    cacheDriver: config.cache.driver
   });
 }
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getPool } from './database';
+import { listMigrations, runMigrations } from './migrations';
+
+jest.mock('./database', () => ({ getPool: jest.fn() }));
+
+let dir: string;
+
+function writeMigrations(files: Record<string, string>): void {
+  Object.entries(files).forEach(([file, sql]) => fs.writeFileSync(path.join(dir, file), sql));
+}
+
+// A connection to a database that has applied `done` and, when `legacy`, was created by init-db.sql
+function fakeDatabase(done: string[] = [], legacy = false) {
+  const statements: string[] = [];
+  const client = {
+    query: jest.fn(async (text: string, params: unknown[] = []) => {
+      statements.push(params.length > 0 ? `${text.trim()} ${params.join(',')}` : text.trim());
+
+      if (text.includes('FROM schema_migrations')) return { rows: done.map(version => ({ version })) };
+      if (text.includes('to_regclass')) return { rows: [{ users: legacy ? 'users' : null }] };
+      if (text.includes('broken')) throw new Error('syntax error');
+      return { rows: [] };
+    }),
+    release: jest.fn()
+  };
+  (getPool as jest.Mock).mockReturnValue({ connect: async () => client });
+
+  // What ran, without the locking and bookkeeping around it
+  const applied = () => statements.filter(statement => /^(BEGIN|COMMIT|ROLLBACK|--|INSERT INTO schema_migrations)/.test(statement));
+  return { client, applied };
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('listMigrations', () => {
+  it('lists numbered SQL files in order', () => {
+    writeMigrations({ '002_b.sql': '', '001_a.sql': '', 'README.md': '', 'notes.sql': '' });
+
+    expect(listMigrations(dir)).toEqual(['001_a.sql', '002_b.sql']);
+  });
+
+  it('finds the shipped migrations numbered without gaps', () => {
+    const versions = listMigrations().map(file => parseInt(file, 10));
+
+    expect(versions).toEqual(versions.map((_, index) => index + 1));
+  });
+});
+
+describe('runMigrations', () => {
+  it('applies pending migrations in order, each in its own transaction', async () => {
+    writeMigrations({ '001_a.sql': '-- a', '002_b.sql': '-- b', '003_c.sql': '-- c' });
+    const { client, applied } = fakeDatabase(['001_a']);
+
+    await expect(runMigrations(dir)).resolves.toEqual(['002_b', '003_c']);
+    expect(applied()).toEqual([
+      'BEGIN', '-- b', 'INSERT INTO schema_migrations (version) VALUES ($1) 002_b', 'COMMIT',
+      'BEGIN', '-- c', 'INSERT INTO schema_migrations (version) VALUES ($1) 003_c', 'COMMIT'
+    ]);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('records 001 as applied on a database created by the old init script', async () => {
+    writeMigrations({ '001_initial_schema.sql': '-- init', '002_b.sql': '-- b' });
+    const { applied } = fakeDatabase([], true);
+
+    await expect(runMigrations(dir)).resolves.toEqual(['002_b']);
+    expect(applied()).not.toContain('-- init');
+    expect(applied()[0]).toBe('INSERT INTO schema_migrations (version) VALUES ($1) 001_initial_schema');
+  });
+
+  it('runs 001 on an empty database', async () => {
+    writeMigrations({ '001_initial_schema.sql': '-- init' });
+    fakeDatabase([], false);
+
+    await expect(runMigrations(dir)).resolves.toEqual(['001_initial_schema']);
+  });
+
+  it('rolls back and stops at a failing migration', async () => {
+    writeMigrations({ '001_a.sql': '-- broken', '002_b.sql': '-- b' });
+    const { client, applied } = fakeDatabase();
+
+    await expect(runMigrations(dir)).rejects.toThrow('Migration 001_a failed: syntax error');
+    expect(applied()).toEqual(['BEGIN', '-- broken', 'ROLLBACK']);
+    expect(client.release).toHaveBeenCalled();
+  });
+});
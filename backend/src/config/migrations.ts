@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import { PoolClient } from 'pg';
+import { getPool } from './database';
+import { logger } from './logger';
+
+// Resolves to backend/migrations from both src/config and dist/config
+const MIGRATIONS_DIR = path.join(__dirname, '../../migrations');
+
+// Arbitrary key for pg_advisory_lock so replicas starting together don't race
+const MIGRATION_LOCK_KEY = 7419203;
+
+// 001 is the old scripts/init-db.sql; databases created from that script already have it
+const BASELINE_VERSION = '001_initial_schema';
+
+/**
+ * Migration files are applied in filename order: 001_name.sql, 002_name.sql, ...
+ */
+export function listMigrations(dir: string = MIGRATIONS_DIR): string[] {
+  return fs.readdirSync(dir)
+    .filter(file => /^\d+_.+\.sql$/.test(file))
+    .sort();
+}
+
+/**
+ * Apply pending migrations, each in its own transaction.
+ * Resolves with the versions that were applied.
+ */
+export async function runMigrations(dir: string = MIGRATIONS_DIR): Promise<string[]> {
+  const client = await getPool().connect();
+  const applied: string[] = [];
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(255) PRIMARY KEY,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    const { rows } = await client.query<{ version: string }>('SELECT version FROM schema_migrations');
+    const done = new Set(rows.map(row => row.version));
+
+    if (done.size === 0 && await hasPreMigrationSchema(client)) {
+      await client.query('INSERT INTO schema_migrations (version) VALUES ($1)', [BASELINE_VERSION]);
+      done.add(BASELINE_VERSION);
+      logger.info('Existing schema found; recorded as baseline', { version: BASELINE_VERSION });
+    }
+
+    for (const file of listMigrations(dir)) {
+      const version = file.replace(/\.sql$/, '');
+      if (done.has(version)) continue;
+
+      const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+
+      try {
+        await client.query('BEGIN');
+        await client.query(sql);
+        await client.query('INSERT INTO schema_migrations (version) VALUES ($1)', [version]);
+        await client.query('COMMIT');
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${version} failed: ${error.message}`);
+      }
+
+      logger.info('Migration applied', { version });
+      applied.push(version);
+    }
+
+    return applied;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+    client.release();
+  }
+}
+
+/**
+ * True when the tables from scripts/init-db.sql exist but no migration has been recorded
+ */
+async function hasPreMigrationSchema(client: PoolClient): Promise<boolean> {
+  const { rows } = await client.query<{ users: string | null }>("SELECT to_regclass('public.users') AS users");
+  return rows[0].users !== null;
+}
@@ -0,0 +1,71 @@
+import { PlanCatalog } from '@tone-slyder/shared/types';
+import { config } from './environment';
+
+/**
+ * Built-in plan catalog, used until PLANS_FILE or an admin edit replaces it.
+ * The free tier's limits come from FREE_TIER_MONTHLY_REWRITES and FREE_TIER_MONTHLY_BUDGET_USD.
+ */
+export const DEFAULT_PLAN_CATALOG: PlanCatalog = {
+  tiers: {
+    free: {
+      monthlyRewrites: config.costControl.freeTierMonthlyRewrites,
+      monthlyBudgetUSD: config.costControl.freeTierMonthlyBudgetUsd,
+      rateLimitPerHour: 30,
+      modelAccess: ['gpt-3.5-turbo']
+    },
+    premium: {
+      monthlyRewrites: 1000,
+      monthlyBudgetUSD: 50,
+      rateLimitPerHour: 300,
+      modelAccess: ['gpt-3.5-turbo', 'gpt-4', 'claude-3-haiku', 'claude-3-sonnet']
+    },
+    enterprise: {
+      monthlyRewrites: 10000,
+      monthlyBudgetUSD: 500,
+      rateLimitPerHour: 1000,
+      modelAccess: ['gpt-3.5-turbo', 'gpt-4', 'claude-3-haiku', 'claude-3-sonnet']
+    }
+  },
+  models: [
+    {
+      id: 'gpt-3.5-turbo',
+      name: 'GPT-3.5 Turbo',
+      provider: 'openai',
+      inputPer1k: 0.0015,
+      outputPer1k: 0.002,
+      maxTokens: 4096,
+      description: 'Fast and efficient model for general tone adjustments',
+      features: ['Fast', 'Cost-effective', 'Good quality']
+    },
+    {
+      id: 'gpt-4',
+      name: 'GPT-4',
+      provider: 'openai',
+      inputPer1k: 0.03,
+      outputPer1k: 0.06,
+      maxTokens: 8192,
+      description: 'Advanced model with superior understanding and nuanced tone control',
+      features: ['High quality', 'Better reasoning', 'More accurate']
+    },
+    {
+      id: 'claude-3-haiku',
+      name: 'Claude 3 Haiku',
+      provider: 'anthropic',
+      inputPer1k: 0.00025,
+      outputPer1k: 0.00125,
+      maxTokens: 4096,
+      description: 'Fast and efficient Claude model with good tone understanding',
+      features: ['Very fast', 'Ultra cost-effective', 'Good for simple tasks']
+    },
+    {
+      id: 'claude-3-sonnet',
+      name: 'Claude 3 Sonnet',
+      provider: 'anthropic',
+      inputPer1k: 0.003,
+      outputPer1k: 0.015,
+      maxTokens: 8192,
+      description: 'Balanced Claude model with excellent tone control and creativity',
+      features: ['Balanced performance', 'Creative writing', 'Nuanced understanding']
+    }
+  ]
+};
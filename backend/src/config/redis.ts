@@ -0,0 +1,31 @@
+import Redis from 'ioredis';
+import { config } from './environment';
+import { logger } from './logger';
+
+let client: Redis | null = null;
+
+/**
+ * Lazily create the shared Redis connection so the in-memory drivers never connect.
+ * Commands fail fast while disconnected instead of queueing, so callers can degrade.
+ */
+export function getRedis(): Redis {
+  if (!client) {
+    client = new Redis(config.redis.url, {
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false
+    });
+
+    client.on('error', (error) => {
+      logger.error('Redis connection error', { error: error.message });
+    });
+  }
+
+  return client;
+}
+
+export async function closeRedis(): Promise<void> {
+  if (client) {
+    await client.quit();
+    client = null;
+  }
+}
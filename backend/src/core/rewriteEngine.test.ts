@@ -0,0 +1,186 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CustomSlider, RewriteRequest } from '@tone-slyder/shared/types';
+import { customSliderRepository } from '../repositories/customSliderRepository';
+import {
+  estimateToneAdherence,
+  generateCacheKey,
+  generateSemanticCacheKey,
+  resolveSliderConflicts,
+  rewriteEngine
+} from './rewriteEngine';
+
+const OWNER_ID = uuidv4();
+
+const CASUAL = "Hey! I'm so glad you're coming. We'll grab pizza, maybe? Can't wait!";
+const FORMAL = 'The committee has determined that the proposed restructuring of departmental ' +
+  'responsibilities will be implemented following the conclusion of the current fiscal quarter.';
+
+function slider(overrides: Partial<CustomSlider> = {}): CustomSlider {
+  return {
+    id: 'warmth',
+    label: 'Warmth',
+    description: 'How friendly the text feels',
+    min: 10,
+    max: 90,
+    defaultValue: 50,
+    step: 1,
+    isCore: false,
+    creator: OWNER_ID,
+    isComposite: true,
+    mappings: [{ condition: 'high', range: [70, 90], instructions: ['Thank the reader'] }],
+    tags: [],
+    public: false,
+    ...overrides
+  };
+}
+
+function request(sliderValues: Record<string, number>, userId = OWNER_ID): RewriteRequest {
+  return {
+    originalText: 'Send me the report.',
+    sliderValues,
+    guardrails: { required: [], banned: [] },
+    model: 'gpt-3.5-turbo',
+    userId
+  };
+}
+
+describe('cache keys for custom sliders', () => {
+  const values = { formality: 70, warmth: 80 };
+
+  it('change when the slider definition is edited', () => {
+    const edited = slider({ mappings: [{ condition: 'high', range: [70, 90], instructions: ['Open with a greeting'] }] });
+
+    expect(generateCacheKey(request(values), [edited])).not.toBe(generateCacheKey(request(values), [slider()]));
+  });
+
+  it('change when the slider changes visibility', () => {
+    expect(generateCacheKey(request(values), [slider({ public: true })]))
+      .not.toBe(generateCacheKey(request(values), [slider()]));
+  });
+
+  it('ignore ratings and usage counts', () => {
+    expect(generateCacheKey(request(values), [slider({ rating: 4.5, usage_count: 12 })]))
+      .toBe(generateCacheKey(request(values), [slider()]));
+  });
+
+  it('apply to the semantic cache too', () => {
+    const edited = slider({ label: 'Friendliness' });
+    const conflicts = resolveSliderConflicts(values, [slider()]);
+
+    expect(generateSemanticCacheKey(request(values), conflicts, [edited]))
+      .not.toBe(generateSemanticCacheKey(request(values), conflicts, [slider()]));
+  });
+});
+
+describe('generateSemanticCacheKey', () => {
+  function semanticKey(originalText: string, sliderValues: Record<string, number>, customSliders: CustomSlider[] = []) {
+    return generateSemanticCacheKey(
+      { ...request(sliderValues), originalText },
+      resolveSliderConflicts(sliderValues, customSliders),
+      customSliders
+    );
+  }
+
+  const key = semanticKey('Send me the report.', { formality: 70 });
+
+  it('ignores differences in case, whitespace and punctuation', () => {
+    expect(semanticKey('  send ME the   report ', { formality: 70 })).toBe(key);
+    expect(semanticKey('Send me the report!', { formality: 70 })).toBe(key);
+  });
+
+  it('shares a key between slider values with the same instruction', () => {
+    expect(semanticKey('Send me the report.', { formality: 62 })).toBe(key);
+    expect(generateCacheKey(request({ formality: 62 }))).not.toBe(generateCacheKey(request({ formality: 70 })));
+  });
+
+  it('shares a key between neutral values, which add no instruction', () => {
+    expect(semanticKey('Send me the report.', { formality: 70, warmth: 52 }))
+      .toBe(semanticKey('Send me the report.', { formality: 70, warmth: 48 }));
+  });
+
+  it('changes when a slider moves into another instruction bucket', () => {
+    expect(semanticKey('Send me the report.', { formality: 75 })).not.toBe(key);
+    expect(semanticKey('Send me the report.', { formality: 30 })).not.toBe(key);
+  });
+
+  it('changes with the wording of the text', () => {
+    expect(semanticKey('Send me the invoice.', { formality: 70 })).not.toBe(key);
+  });
+
+  it('follows the composite mapping a custom slider value falls in', () => {
+    const warmth = slider();
+    const inMapping = semanticKey('Send me the report.', { warmth: 75 }, [warmth]);
+
+    expect(semanticKey('Send me the report.', { warmth: 90 }, [warmth])).toBe(inMapping);
+    expect(semanticKey('Send me the report.', { warmth: 65 }, [warmth])).not.toBe(inMapping);
+  });
+
+  it('changes with the custom sliders a request uses', () => {
+    expect(semanticKey('Send me the report.', { formality: 70 }, [slider()])).not.toBe(key);
+  });
+});
+
+describe('rewriteEngine.processRequest', () => {
+  it("keys another user's request on what they can see of a private slider", async () => {
+    const { mappings, tags, public: isPublic, label, description } = slider();
+    const created = await customSliderRepository.create(OWNER_ID, { label, description, mappings: mappings!, tags, public: isPublic });
+    const values = { formality: 70, [created.id]: 80 };
+
+    const owner = await rewriteEngine.processRequest(request(values));
+    const other = await rewriteEngine.processRequest(request(values, uuidv4()));
+
+    expect(owner.prompt).toContain('Thank the reader');
+    expect(other.prompt).not.toContain('Thank the reader');
+    expect(other.cacheKey).not.toBe(owner.cacheKey);
+  });
+});
+
+describe('estimateToneAdherence', () => {
+  it('scores text closer to the requested tone higher', () => {
+    expect(estimateToneAdherence(FORMAL, { formality: 90 })).toBeGreaterThan(estimateToneAdherence(CASUAL, { formality: 90 }));
+    expect(estimateToneAdherence(CASUAL, { formality: 10 })).toBeGreaterThan(estimateToneAdherence(FORMAL, { formality: 10 }));
+  });
+
+  it('stays between 0 and 1', () => {
+    [CASUAL, FORMAL].forEach(text => {
+      const adherence = estimateToneAdherence(text, { formality: 90, warmth: 10, directness: 90 });
+      expect(adherence).toBeGreaterThanOrEqual(0);
+      expect(adherence).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('treats slider values outside 10-90 as the nearest end', () => {
+    expect(estimateToneAdherence(FORMAL, { formality: 100 })).toBe(estimateToneAdherence(FORMAL, { formality: 90 }));
+  });
+
+  it('counts every text as adherent when no core slider is set', () => {
+    expect(estimateToneAdherence(CASUAL, { enthusiasm: 80 })).toBe(1);
+  });
+});
+
+describe('rewriteEngine.rankVariants', () => {
+  it('puts the text closest to the requested tone first', () => {
+    const ranked = rewriteEngine.rankVariants(request({ formality: 90 }), [CASUAL, FORMAL]);
+
+    expect(ranked.map(variant => variant.text)).toEqual([FORMAL, CASUAL]);
+    expect(ranked[0].toneAdherence).toBeGreaterThan(ranked[1].toneAdherence);
+  });
+
+  it('ranks guardrail violations above tone adherence', () => {
+    const guarded = { ...request({ formality: 90 }), guardrails: { required: [], banned: ['committee'] } };
+
+    const ranked = rewriteEngine.rankVariants(guarded, [FORMAL, CASUAL]);
+
+    expect(ranked.map(variant => variant.text)).toEqual([CASUAL, FORMAL]);
+    expect(ranked[1].guardrailViolations).toEqual(['Banned word/phrase "committee" appears in output']);
+  });
+
+  it('rounds adherence to two decimals and reports drift for each variant', () => {
+    const formal = request({ formality: 90 });
+
+    const [variant] = rewriteEngine.rankVariants(formal, [CASUAL]);
+
+    expect(variant.toneAdherence).toBe(Math.round(estimateToneAdherence(CASUAL, { formality: 90 }) * 100) / 100);
+    expect(variant.toneDrift).toEqual(rewriteEngine.detectDrift(formal, CASUAL));
+  });
+});
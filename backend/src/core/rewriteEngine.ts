@@ -1,12 +1,21 @@
 import { 
   RewriteRequest, 
-  RewriteResponse, 
+  RewriteResponse,
+  RewriteVariant,
   SliderWeight, 
   ConflictResolution,
   ToneInstruction,
-  Guardrails 
+  Guardrails,
+  CoreSliders,
+  CustomSlider,
+  CompositeMapping,
+  CORE_SLIDERS
 } from '@tone-slyder/shared/types';
+import { createHash } from 'crypto';
+import { config } from '../config/environment';
 import { logger } from '../config/logger';
+import { customSliderRepository } from '../repositories/customSliderRepository';
+import { scoreTone } from './toneScorer';
 
 /**
  * Phase 1: Input Processing & Tone Vector Normalization
@@ -31,23 +40,44 @@ export function mapWeightToInstruction(weight: number): string {
   return weight < 0 ? 'very low' : 'very high';
 }
 
+/**
+ * Composite Slider Resolution
+ * Find the mapping whose range contains the slider value
+ */
+export function resolveCompositeMapping(slider: CustomSlider, value: number): CompositeMapping | undefined {
+  return slider.mappings?.find(mapping => value >= mapping.range[0] && value <= mapping.range[1]);
+}
+
 /**
  * Phase 2: Conflict Resolution & Prioritization Logic
- * Handle conflicting slider settings by prioritizing top weights
+ * Handle conflicting slider settings by prioritizing top weights.
+ * Custom sliders with a matching CompositeMapping contribute its concrete instructions;
+ * everything else falls back to bucket wording.
  */
-export function resolveSliderConflicts(sliderValues: Record<string, number>): ConflictResolution {
+export function resolveSliderConflicts(
+  sliderValues: Record<string, number>,
+  customSliders: CustomSlider[] = []
+): ConflictResolution {
+  const slidersById = new Map(customSliders.map(slider => [slider.id, slider]));
+
   // Convert slider values to weights with instructions
   const weights: SliderWeight[] = Object.entries(sliderValues)
     .map(([dimension, value]) => {
       const weight = normalizeSliderValue(value);
       const instruction = mapWeightToInstruction(weight);
+      const slider = slidersById.get(dimension);
+      const mapping = slider ? resolveCompositeMapping(slider, value) : undefined;
+
       return {
         dimension,
         weight,
-        instruction
+        instruction,
+        ...(slider && { label: slider.label }),
+        ...(mapping && { instructions: mapping.instructions })
       };
     })
-    .filter(w => Math.abs(w.weight) > 0.1) // Filter out near-neutral values
+    // Filter out near-neutral values, unless a mapping spells out what that range means
+    .filter(w => Math.abs(w.weight) > 0.1 || w.instructions)
     .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight)); // Sort by absolute weight
 
   return {
@@ -56,6 +86,19 @@ export function resolveSliderConflicts(sliderValues: Record<string, number>): Co
   };
 }
 
+/**
+ * Render one tone instruction line, expanding composite instructions into sub-items
+ */
+function formatToneInstruction(weight: SliderWeight): string {
+  const name = weight.label || weight.dimension;
+
+  if (weight.instructions && weight.instructions.length > 0) {
+    return `- ${name}:\n` + weight.instructions.map(instruction => `  - ${instruction}\n`).join('');
+  }
+
+  return `- ${name}: ${weight.instruction}\n`;
+}
+
 /**
  * Phase 1: Core Prompt Generation System
  * Assemble complete prompts with tone instructions and guardrails
@@ -72,7 +115,7 @@ export function generatePrompt(
   if (conflicts.primary.length > 0) {
     prompt += 'PRIMARY TONE INSTRUCTIONS (highest priority):\n';
     conflicts.primary.forEach(weight => {
-      prompt += `- ${weight.dimension}: ${weight.instruction}\n`;
+      prompt += formatToneInstruction(weight);
     });
     prompt += '\n';
   }
@@ -80,7 +123,7 @@ export function generatePrompt(
   if (conflicts.secondary.length > 0) {
     prompt += 'SECONDARY TONE ADJUSTMENTS (apply if compatible with primary):\n';
     conflicts.secondary.forEach(weight => {
-      prompt += `- ${weight.dimension}: ${weight.instruction}\n`;
+      prompt += formatToneInstruction(weight);
     });
     prompt += '\n';
   }
@@ -146,13 +189,82 @@ export function validateGuardrails(
   return violations;
 }
 
+/**
+ * Variant Ranking: Tone Adherence Estimate
+ * Score (0-1) how close the heuristic tone of a rewrite is to the requested core sliders
+ */
+export function estimateToneAdherence(
+  rewrittenText: string,
+  sliderValues: Record<string, number>
+): number {
+  const scores = scoreTone(rewrittenText);
+  const dimensions = (Object.keys(scores) as (keyof CoreSliders)[])
+    .filter(dimension => sliderValues[dimension] !== undefined);
+
+  if (dimensions.length === 0) return 1;
+
+  const totalDistance = dimensions.reduce((sum, dimension) => {
+    const target = Math.max(10, Math.min(90, sliderValues[dimension]));
+    return sum + Math.abs(scores[dimension] - target) / 80;
+  }, 0);
+
+  return 1 - totalDistance / dimensions.length;
+}
+
+/**
+ * Tone Drift Detection
+ * Flag core dimensions where the rewrite moved away from the requested value.
+ * Small movements are ignored; the heuristic scorer is too coarse to judge them.
+ */
+export function detectToneDrift(
+  originalText: string,
+  rewrittenText: string,
+  sliderValues: Record<string, number>
+): string[] {
+  const DRIFT_TOLERANCE = 5;
+  const before = scoreTone(originalText);
+  const after = scoreTone(rewrittenText);
+  const drift: string[] = [];
+
+  (Object.keys(before) as (keyof CoreSliders)[]).forEach(dimension => {
+    const requested = sliderValues[dimension];
+    if (requested === undefined) return;
+
+    const expectedChange = requested - before[dimension];
+    const actualChange = after[dimension] - before[dimension];
+
+    if (Math.abs(expectedChange) <= DRIFT_TOLERANCE * 2) return;
+
+    if (Math.sign(actualChange) !== Math.sign(expectedChange) && Math.abs(actualChange) > DRIFT_TOLERANCE) {
+      drift.push(
+        `Tone drift: ${dimension} moved from ${before[dimension]} to ${after[dimension]} but ${requested} was requested`
+      );
+    }
+  });
+
+  return drift;
+}
+
+/**
+ * Fingerprint the custom slider definitions a request resolved, with their owner and visibility,
+ * so editing a slider or making it private stops earlier rewrites being served from the cache.
+ * Ratings and usage counts don't change the prompt and are left out.
+ */
+export function fingerprintCustomSliders(customSliders: CustomSlider[]): string {
+  const definitions = [...customSliders]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(({ rating, usage_count, ...definition }) => definition);
+
+  return createHash('sha256').update(JSON.stringify(definitions)).digest('hex');
+}
+
 /**
  * Phase 2: Request Deduplication Cache Key Generation
  * Generate unique cache keys for identical requests
  */
-export function generateCacheKey(request: RewriteRequest): string {
-  const { originalText, sliderValues, guardrails, model = 'gpt-3.5-turbo' } = request;
-  
+export function generateCacheKey(request: RewriteRequest, customSliders: CustomSlider[] = []): string {
+  const { originalText, sliderValues, guardrails, model = 'gpt-3.5-turbo', variants = 1 } = request;
+
   const keyObject = {
     text: originalText.trim().toLowerCase(),
     sliders: Object.keys(sliderValues)
@@ -165,12 +277,56 @@ export function generateCacheKey(request: RewriteRequest): string {
       required: [...guardrails.required].sort(),
       banned: [...guardrails.banned].sort()
     },
-    model
+    customSliders: fingerprintCustomSliders(customSliders),
+    model,
+    variants
   };
 
   return Buffer.from(JSON.stringify(keyObject)).toString('base64');
 }
 
+/**
+ * Semantic Cache: Text Normalization
+ * Fold casing, punctuation and whitespace differences that don't change what gets rewritten
+ */
+export function normalizeTextForCache(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\p{P}+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Semantic Cache: Near-Duplicate Key Generation
+ * Key on the resolved instructions rather than raw slider values, so values falling in the
+ * same mapWeightToInstruction bucket (and producing the same prompt) share a cache entry
+ */
+export function generateSemanticCacheKey(
+  request: RewriteRequest,
+  conflicts: ConflictResolution,
+  customSliders: CustomSlider[] = []
+): string {
+  const { originalText, guardrails, model = 'gpt-3.5-turbo', variants = 1 } = request;
+  const describe = (weight: SliderWeight) => [weight.dimension, weight.instruction, ...(weight.instructions || [])];
+
+  const keyObject = {
+    text: normalizeTextForCache(originalText),
+    primary: conflicts.primary.map(describe),
+    secondary: conflicts.secondary.map(describe),
+    guardrails: {
+      required: [...guardrails.required].sort(),
+      banned: [...guardrails.banned].sort()
+    },
+    customSliders: fingerprintCustomSliders(customSliders),
+    model,
+    variants
+  };
+
+  return 'semantic:' + createHash('sha256').update(JSON.stringify(keyObject)).digest('hex');
+}
+
 /**
  * Main Rewrite Engine
  * Orchestrates the complete rewriting process
@@ -189,18 +345,22 @@ export class RewriteEngine {
 
     try {
       // Phase 1: Normalize and resolve conflicts
-      const conflicts = resolveSliderConflicts(request.sliderValues);
+      const customSliders = await this.loadCustomSliders(request);
+      const conflicts = resolveSliderConflicts(request.sliderValues, customSliders);
       
       // Phase 1: Generate prompt
       const prompt = generatePrompt(request.originalText, conflicts, request.guardrails);
       
-      // Phase 2: Generate cache key
-      const cacheKey = generateCacheKey(request);
+      // Phase 2: Generate cache key (near-duplicates share one when the semantic cache is on)
+      const cacheKey = config.cache.semantic
+        ? generateSemanticCacheKey(request, conflicts, customSliders)
+        : generateCacheKey(request, customSliders);
 
       logger.info('Rewrite request processed', {
         originalTextLength: request.originalText.length,
         primaryInstructions: conflicts.primary.length,
         secondaryInstructions: conflicts.secondary.length,
+        customSliders: customSliders.length,
         requiredWords: request.guardrails.required.length,
         bannedWords: request.guardrails.banned.length,
         processingTime: Date.now() - startTime
@@ -218,6 +378,21 @@ export class RewriteEngine {
     }
   }
 
+  /**
+   * Look up the custom sliders referenced by a request.
+   * Unknown IDs and other users' private sliders are skipped and get bucket wording.
+   */
+  private async loadCustomSliders(request: RewriteRequest): Promise<CustomSlider[]> {
+    const customIds = Object.keys(request.sliderValues).filter(id => !(id in CORE_SLIDERS));
+    if (customIds.length === 0) return [];
+
+    const sliders = await Promise.all(customIds.map(id => customSliderRepository.findById(id)));
+
+    return sliders.filter((slider): slider is CustomSlider =>
+      !!slider && (slider.public || slider.creator === request.userId)
+    );
+  }
+
   /**
    * Validate rewritten text against original request
    */
@@ -229,6 +404,31 @@ export class RewriteEngine {
     return validateGuardrails(originalText, rewrittenText, guardrails);
   }
 
+  /**
+   * Check that the rewrite moved in the direction the sliders requested
+   */
+  detectDrift(request: RewriteRequest, rewrittenText: string): string[] {
+    return detectToneDrift(request.originalText, rewrittenText, request.sliderValues);
+  }
+
+  /**
+   * Score candidate rewrites and order them best-first:
+   * fewest guardrail violations, then highest tone adherence
+   */
+  rankVariants(request: RewriteRequest, texts: string[]): RewriteVariant[] {
+    return texts
+      .map(text => ({
+        text,
+        toneAdherence: Math.round(estimateToneAdherence(text, request.sliderValues) * 100) / 100,
+        guardrailViolations: validateGuardrails(request.originalText, text, request.guardrails),
+        toneDrift: detectToneDrift(request.originalText, text, request.sliderValues)
+      }))
+      .sort((a, b) =>
+        a.guardrailViolations.length - b.guardrailViolations.length ||
+        b.toneAdherence - a.toneAdherence
+      );
+  }
+
   /**
    * Calculate processing metrics
    */
@@ -0,0 +1,36 @@
+import { countTokens } from './tokenizer';
+
+describe('countTokens', () => {
+  it('counts nothing for empty text', () => {
+    expect(countTokens('', 'openai')).toBe(0);
+  });
+
+  it('counts common words with their leading space as one token each', () => {
+    expect(countTokens('Please send the report today', 'openai')).toBe(5);
+  });
+
+  it('splits long words into sub-word tokens', () => {
+    // 21 letters at 4 characters per token
+    expect(countTokens('internationalizations', 'openai')).toBe(6);
+  });
+
+  it('groups digits per provider', () => {
+    expect(countTokens('1234567', 'openai')).toBe(3);
+    expect(countTokens('1234567', 'local')).toBe(7);
+  });
+
+  it('counts each CJK character as a token', () => {
+    expect(countTokens('日本語', 'openai')).toBe(3);
+  });
+
+  it('counts punctuation runs in pairs', () => {
+    expect(countTokens('Hi!!!', 'openai')).toBe(3);
+  });
+
+  it('splits finer for Claude and local models than for OpenAI', () => {
+    const text = 'The quarterly performance assessment highlighted considerable improvements.';
+
+    expect(countTokens(text, 'anthropic')).toBeGreaterThan(countTokens(text, 'openai'));
+    expect(countTokens(text, 'local')).toBeGreaterThan(countTokens(text, 'anthropic'));
+  });
+});
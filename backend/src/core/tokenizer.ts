@@ -0,0 +1,60 @@
+import { ModelProvider } from '@tone-slyder/shared/types';
+
+/**
+ * Local Token Counting
+ * Approximates each provider's BPE tokenizer without loading vocabularies, so prompts can be
+ * measured before they are sent. Billing always prefers the counts the provider reports.
+ */
+
+interface TokenizerProfile {
+  charsPerToken: number;    // Average characters per sub-word token for long words
+  wholeWordLength: number;  // Words up to this length (excluding a leading space) are one token
+  digitsPerToken: number;   // How many digits one token covers
+}
+
+const PROFILES: Record<ModelProvider, TokenizerProfile> = {
+  // cl100k: common words are single tokens, numbers split every three digits
+  openai: { charsPerToken: 4, wholeWordLength: 7, digitsPerToken: 3 },
+  // Claude's tokenizer splits slightly finer than cl100k
+  anthropic: { charsPerToken: 3.5, wholeWordLength: 6, digitsPerToken: 3 },
+  // SentencePiece (Llama, Mistral): smaller vocabularies, one token per digit
+  local: { charsPerToken: 3, wholeWordLength: 5, digitsPerToken: 1 }
+};
+
+// GPT-style pre-tokenization: contractions, words with their leading space, digit runs,
+// punctuation runs and whitespace
+const PRETOKENIZE = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+// Scripts without spaces between words; each character is roughly one token
+const CJK = /[぀-ヿ㐀-䶿一-鿿가-힯]/gu;
+
+function countPiece(piece: string, profile: TokenizerProfile): number {
+  const word = piece.trimStart();
+  if (word.length === 0) return 1;
+
+  if (/^\p{N}+$/u.test(word)) {
+    return Math.ceil(word.length / profile.digitsPerToken);
+  }
+
+  if (/^\p{L}+$/u.test(word)) {
+    const cjk = (word.match(CJK) || []).length;
+    const rest = word.length - cjk;
+    const restTokens = rest === 0 ? 0 : rest <= profile.wholeWordLength ? 1 : Math.ceil(rest / profile.charsPerToken);
+    return cjk + restTokens;
+  }
+
+  // Punctuation runs: common pairs ("."", "),") merge, longer runs rarely do
+  return Math.ceil(word.length / 2);
+}
+
+/**
+ * Count the tokens `text` will use with the given provider's tokenizer
+ */
+export function countTokens(text: string, provider: ModelProvider): number {
+  if (!text) return 0;
+
+  const profile = PROFILES[provider];
+  const pieces = text.match(PRETOKENIZE) || [];
+
+  return pieces.reduce((total, piece) => total + countPiece(piece, profile), 0);
+}
@@ -0,0 +1,118 @@
+import {
+  CORE_SLIDERS,
+  SliderConfig,
+  ToneAnalysisResponse,
+  ToneDimensionEstimate
+} from '@tone-slyder/shared/types';
+import { llmService } from '../services/llmService';
+import { scoreTone } from './toneScorer';
+import { logger } from '../config/logger';
+
+type DimensionDescriptor = Pick<SliderConfig, 'id' | 'label' | 'description'>;
+
+/**
+ * The core sliders plus any custom ones the caller asked about
+ */
+export function getAnalysisDimensions(customSliders: DimensionDescriptor[] = []): DimensionDescriptor[] {
+  return [
+    ...Object.values(CORE_SLIDERS),
+    ...customSliders.filter(slider => !(slider.id in CORE_SLIDERS))
+  ];
+}
+
+/**
+ * Assemble the prompt asking the model to place text on each slider
+ */
+export function generateAnalysisPrompt(text: string, dimensions: DimensionDescriptor[]): string {
+  let prompt = 'You are an expert writing analyst. ';
+  prompt += 'Estimate where the text below currently sits on each tone dimension.\n\n';
+
+  prompt += 'TONE DIMENSIONS (scale 10 = very low, 50 = moderate, 90 = very high):\n';
+  dimensions.forEach(dimension => {
+    prompt += `- ${dimension.id} (${dimension.label}): ${dimension.description}\n`;
+  });
+  prompt += '\n';
+
+  prompt += 'RESPONSE FORMAT:\n';
+  prompt += 'Return only a JSON object keyed by dimension id, where each value is ';
+  prompt += '{"value": <10-90>, "confidence": <0-1>}. No explanations.\n\n';
+
+  prompt += 'TEXT TO ANALYZE:\n';
+  prompt += `"${text}"\n\n`;
+
+  prompt += 'JSON:';
+
+  return prompt;
+}
+
+/**
+ * Extract per-dimension estimates from the model output.
+ * Dimensions the model skipped or garbled come back neutral with zero confidence.
+ */
+export function parseAnalysisResponse(
+  raw: string,
+  dimensionIds: string[]
+): Record<string, ToneDimensionEstimate> {
+  let parsed: Record<string, any> = {};
+
+  const jsonMatch = raw.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    try {
+      parsed = JSON.parse(jsonMatch[0]);
+    } catch (error) {
+      logger.warn('Tone analysis response was not valid JSON', { raw: raw.slice(0, 200) });
+    }
+  }
+
+  return dimensionIds.reduce((estimates, id) => {
+    const entry = parsed[id];
+    const value = Number(entry?.value);
+    const confidence = Number(entry?.confidence);
+
+    estimates[id] = Number.isFinite(value)
+      ? {
+          value: Math.round(Math.max(10, Math.min(90, value))),
+          confidence: Number.isFinite(confidence) ? Math.max(0, Math.min(1, confidence)) : 0.5
+        }
+      : { value: 50, confidence: 0 };
+
+    return estimates;
+  }, {} as Record<string, ToneDimensionEstimate>);
+}
+
+/**
+ * Tone Analyzer
+ * Infers slider positions from existing text
+ */
+export class ToneAnalyzer {
+  async analyze(
+    text: string,
+    customSliders: DimensionDescriptor[] = [],
+    model: string = 'gpt-3.5-turbo'
+  ): Promise<ToneAnalysisResponse & { inputTokens: number; outputTokens: number }> {
+    const dimensions = getAnalysisDimensions(customSliders);
+
+    const prompt = generateAnalysisPrompt(text, dimensions);
+    const llmResponse = await llmService.rewrite(prompt, model, { temperature: 0 });
+    const estimates = parseAnalysisResponse(llmResponse.text, dimensions.map(d => d.id));
+
+    // Fall back to the offline heuristics for core dimensions the model didn't answer
+    const heuristic = scoreTone(text);
+    (Object.keys(heuristic) as (keyof typeof heuristic)[]).forEach(dimension => {
+      if (estimates[dimension].confidence === 0) {
+        estimates[dimension] = { value: heuristic[dimension], confidence: 0.3 };
+      }
+    });
+
+    return {
+      dimensions: estimates,
+      model,
+      tokensUsed: llmResponse.tokensUsed,
+      inputTokens: llmResponse.inputTokens,
+      outputTokens: llmResponse.outputTokens
+    };
+  }
+}
+
+// Export singleton instance
+export const toneAnalyzer = new ToneAnalyzer();
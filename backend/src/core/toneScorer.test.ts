@@ -0,0 +1,70 @@
+import { countSyllables, extractToneFeatures, scoreTone } from './toneScorer';
+
+const CASUAL = "Hey! I'm so glad you're coming. We'll grab pizza, maybe? Can't wait!";
+const FORMAL = 'The committee has determined that the proposed restructuring of departmental ' +
+  'responsibilities will be implemented following the conclusion of the current fiscal quarter. ' +
+  'Affected personnel will receive comprehensive documentation regarding their revised obligations.';
+
+describe('countSyllables', () => {
+  it.each([
+    ['cat', 1],
+    ['table', 2],
+    ['determined', 3],
+    ['documentation', 5],
+    ['', 0]
+  ])('counts %s as %i', (word, syllables) => {
+    expect(countSyllables(word)).toBe(syllables);
+  });
+});
+
+describe('extractToneFeatures', () => {
+  it('counts words, sentences and the marks of casual writing', () => {
+    const features = extractToneFeatures(CASUAL);
+
+    expect(features.wordCount).toBe(12);
+    expect(features.sentenceCount).toBe(4);
+    expect(features.contractionRate).toBeCloseTo(4 / 12);
+    expect(features.questionRate).toBeCloseTo(1 / 4);
+    expect(features.exclamationRate).toBeCloseTo(2 / 4);
+  });
+
+  it('spots passive constructions', () => {
+    expect(extractToneFeatures('The report was written by the team.').passiveRate).toBe(1);
+    expect(extractToneFeatures('The team wrote the report.').passiveRate).toBe(0);
+  });
+
+  it('handles empty text', () => {
+    expect(extractToneFeatures('')).toEqual(expect.objectContaining({ wordCount: 0, sentenceCount: 1 }));
+  });
+});
+
+describe('scoreTone', () => {
+  it('is deterministic', () => {
+    expect(scoreTone(FORMAL)).toEqual(scoreTone(FORMAL));
+  });
+
+  it('keeps every dimension on the slider scale', () => {
+    for (const text of [CASUAL, FORMAL, '', '!!!']) {
+      Object.values(scoreTone(text)).forEach(value => {
+        expect(value).toBeGreaterThanOrEqual(10);
+        expect(value).toBeLessThanOrEqual(90);
+      });
+    }
+  });
+
+  it('rates formal prose more formal and less conversational than a casual note', () => {
+    const formal = scoreTone(FORMAL);
+    const casual = scoreTone(CASUAL);
+
+    expect(formal.formality).toBeGreaterThan(casual.formality);
+    expect(formal.conversational).toBeLessThan(casual.conversational);
+    expect(formal.informativeness).toBeGreaterThan(casual.informativeness);
+  });
+
+  it('rates assertive text more authoritative than hedged text', () => {
+    const assertive = scoreTone('This approach clearly works. We must ship it this week.');
+    const hedged = scoreTone('This approach might work, perhaps. We could probably ship it this week.');
+
+    expect(assertive.authoritativeness).toBeGreaterThan(hedged.authoritativeness);
+  });
+});
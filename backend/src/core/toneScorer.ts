@@ -0,0 +1,150 @@
+import { CoreSliders } from '@tone-slyder/shared/types';
+
+/**
+ * Deterministic, offline tone heuristics.
+ * Rough by design: good enough to tell which way a rewrite moved,
+ * not a substitute for the model-based analysis in toneAnalyzer.
+ */
+
+export interface ToneFeatures {
+  wordCount: number;
+  sentenceCount: number;
+  avgSentenceLength: number;    // Words per sentence
+  avgSyllablesPerWord: number;
+  readingEase: number;          // Flesch reading ease, higher = easier
+  contractionRate: number;      // Per word
+  pronounRate: number;          // First/second person pronouns per word
+  hedgeRate: number;            // Hedging words per word
+  boosterRate: number;          // Assertive words per word
+  numberRate: number;           // Numeric tokens per word
+  passiveRate: number;          // Fraction of sentences with passive constructions
+  questionRate: number;         // Fraction of sentences that are questions
+  exclamationRate: number;      // Fraction of sentences that are exclamations
+}
+
+const PRONOUNS = new Set([
+  'i', 'me', 'my', 'mine', 'myself', 'we', 'us', 'our', 'ours', 'ourselves',
+  'you', 'your', 'yours', 'yourself', 'yourselves'
+]);
+
+const HEDGES = new Set([
+  'maybe', 'perhaps', 'possibly', 'probably', 'might', 'could', 'seems', 'seem',
+  'apparently', 'somewhat', 'fairly', 'rather', 'arguably', 'likely', 'unlikely',
+  'suggest', 'suggests', 'guess', 'think', 'believe', 'sort', 'kind', 'roughly'
+]);
+
+const BOOSTERS = new Set([
+  'must', 'clearly', 'certainly', 'definitely', 'undoubtedly', 'always', 'never',
+  'will', 'proven', 'essential', 'critical', 'ensure', 'require', 'requires', 'demonstrates'
+]);
+
+const CONTRACTION_PATTERN = /\b\w+'(s|t|re|ve|ll|d|m)\b/gi;
+const PASSIVE_PATTERN = /\b(am|is|are|was|were|be|been|being)\s+(\w+ly\s+)?\w+(ed|en)\b/i;
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function toSliderValue(score: number): number {
+  return Math.round(10 + clamp01(score) * 80);
+}
+
+export function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (cleaned.length === 0) return 0;
+  if (cleaned.length <= 3) return 1;
+
+  const groups = cleaned
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '')
+    .match(/[aeiouy]{1,2}/g);
+
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+/**
+ * Measure the raw stylistic signals of a text
+ */
+export function extractToneFeatures(text: string): ToneFeatures {
+  const sentences = text
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+  const words = text.match(/[A-Za-z0-9']+/g) || [];
+  const lowerWords = words.map(word => word.toLowerCase());
+
+  const wordCount = words.length;
+  const sentenceCount = Math.max(1, sentences.length);
+  const perWord = (count: number) => (wordCount > 0 ? count / wordCount : 0);
+  const perSentence = (count: number) => count / sentenceCount;
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const avgSentenceLength = wordCount / sentenceCount;
+  const avgSyllablesPerWord = wordCount > 0 ? syllables / wordCount : 0;
+
+  return {
+    wordCount,
+    sentenceCount,
+    avgSentenceLength,
+    avgSyllablesPerWord,
+    readingEase: 206.835 - 1.015 * avgSentenceLength - 84.6 * avgSyllablesPerWord,
+    contractionRate: perWord((text.match(CONTRACTION_PATTERN) || []).length),
+    pronounRate: perWord(lowerWords.filter(word => PRONOUNS.has(word)).length),
+    hedgeRate: perWord(lowerWords.filter(word => HEDGES.has(word)).length),
+    boosterRate: perWord(lowerWords.filter(word => BOOSTERS.has(word)).length),
+    numberRate: perWord(words.filter(word => /\d/.test(word)).length),
+    passiveRate: perSentence(sentences.filter(sentence => PASSIVE_PATTERN.test(sentence)).length),
+    questionRate: perSentence(sentences.filter(sentence => sentence.endsWith('?')).length),
+    exclamationRate: perSentence(sentences.filter(sentence => sentence.endsWith('!')).length)
+  };
+}
+
+/**
+ * Map stylistic signals onto the four core slider dimensions (10-90)
+ */
+export function scoreFeatures(features: ToneFeatures): CoreSliders {
+  const contractions = clamp01(features.contractionRate * 10);
+  const pronouns = clamp01(features.pronounRate * 8);
+  const hedges = clamp01(features.hedgeRate * 15);
+  const boosters = clamp01(features.boosterRate * 20);
+  const longSentences = clamp01((features.avgSentenceLength - 8) / 20);
+  const complexWords = clamp01((features.avgSyllablesPerWord - 1.2) / 0.8);
+  const easyReading = clamp01(features.readingEase / 100);
+  const questions = clamp01(features.questionRate * 3);
+  const exclamations = clamp01(features.exclamationRate * 3);
+
+  return {
+    formality: toSliderValue(
+      0.3 * (1 - contractions) +
+      0.2 * (1 - pronouns) +
+      0.2 * longSentences +
+      0.2 * (1 - easyReading) +
+      0.1 * (1 - exclamations)
+    ),
+    conversational: toSliderValue(
+      0.35 * pronouns +
+      0.3 * contractions +
+      0.15 * questions +
+      0.2 * easyReading
+    ),
+    informativeness: toSliderValue(
+      0.35 * longSentences +
+      0.3 * complexWords +
+      0.2 * clamp01(features.numberRate * 20) +
+      0.15 * (1 - questions)
+    ),
+    authoritativeness: toSliderValue(
+      0.45 * (1 - hedges) +
+      0.2 * boosters +
+      0.2 * (1 - clamp01(features.passiveRate)) +
+      0.15 * (1 - questions)
+    )
+  };
+}
+
+/**
+ * Approximate core slider values for a text
+ */
+export function scoreTone(text: string): CoreSliders {
+  return scoreFeatures(extractToneFeatures(text));
+}
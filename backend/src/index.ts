@@ -1,12 +1,18 @@
 import express from 'express';
+import { Server } from 'http';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import { config } from './config/environment';
 import { logger } from './config/logger';
+import { closePool } from './config/database';
+import { closeRedis } from './config/redis';
+import { runMigrations } from './config/migrations';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
+import { cacheService } from './services/cacheService';
+import { planCatalog } from './services/planCatalog';
 
 // Import routes
 import { rewriteRouter } from './api/rewrite';
@@ -15,6 +21,12 @@ import { slidersRouter } from './api/sliders';
 import { authRouter } from './api/auth';
 import { usageRouter } from './api/usage';
 import { preferencesRouter } from './api/preferences';
+import { analyzeRouter } from './api/analyze';
+import { apiKeysRouter } from './api/apiKeys';
+import { historyRouter } from './api/history';
+import { organizationsRouter } from './api/organizations';
+import { adminRouter } from './api/admin';
+import { webhooksRouter } from './api/webhooks';
 
 const app = express();
 
@@ -38,7 +50,8 @@ app.use(cors({
   origin: config.cors.origins,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
 }));
 
 // Compression and body parsing
@@ -68,6 +81,7 @@ app.get('/health', (req, res) => {
     timestamp: new Date().toISOString(),
     version: process.env.npm_package_version || '0.1.0',
     environment: config.env,
+    cache: cacheService.getStats(),
   });
 });
 
@@ -78,6 +92,12 @@ app.use('/api/sliders', slidersRouter);
 app.use('/api/auth', authRouter);
 app.use('/api/usage', usageRouter);
 app.use('/api/preferences', preferencesRouter);
+app.use('/api/analyze', analyzeRouter);
+app.use('/api/keys', apiKeysRouter);
+app.use('/api/history', historyRouter);
+app.use('/api/organizations', organizationsRouter);
+app.use('/api/admin', adminRouter);
+app.use('/api/webhooks', webhooksRouter);
 
 // API documentation
 app.get('/api', (req, res) => {
@@ -88,11 +108,18 @@ app.get('/api', (req, res) => {
     endpoints: {
       health: 'GET /health',
       rewrite: 'POST /api/rewrite',
-      presets: 'GET|POST /api/presets',
-      sliders: 'GET|POST /api/sliders',
-      auth: 'POST /api/auth/login|register',
-      usage: 'GET /api/usage',
+      rewriteStream: 'POST /api/rewrite/stream (text/event-stream)',
+      presets: 'GET|POST|PUT|DELETE /api/presets',
+      sliders: 'GET /api/sliders, GET|POST|PUT|DELETE /api/sliders/custom',
+      auth: 'POST /api/auth/register|login|refresh|logout, GET /api/auth/me',
+      usage: 'GET /api/usage, GET /api/usage/history',
       preferences: 'GET|PUT|PATCH|DELETE /api/preferences',
+      analyze: 'POST /api/analyze',
+      keys: 'GET|POST|DELETE /api/keys',
+      history: 'GET /api/history, GET|DELETE /api/history/:id',
+      organizations: 'GET|POST /api/organizations, PATCH|DELETE /api/organizations/:id, GET|POST /api/organizations/:id/members, PATCH|DELETE /api/organizations/:id/members/:userId, GET /api/organizations/:id/usage',
+      webhooks: 'GET|POST|DELETE /api/webhooks',
+      admin: 'GET /api/admin/plans, PATCH /api/admin/plans/tiers/:tier, PUT /api/admin/plans/models/:id, GET /api/admin/users, GET|PATCH /api/admin/users/:id, POST /api/admin/users/:id/top-ups, POST /api/admin/users/:id/usage/reset, GET /api/admin/audit',
     },
     documentation: 'https://docs.toneslyder.com/api',
   });
@@ -102,29 +129,50 @@ app.get('/api', (req, res) => {
 app.use(notFoundHandler);
 app.use(errorHandler);
 
-// Start server
+// Start server (applying pending migrations first when backed by PostgreSQL)
 const port = config.port;
-const server = app.listen(port, () => {
-  logger.info(`🎚️ Tone Slyder API server running on port ${port}`);
-  logger.info(`Environment: ${config.env}`);
-  logger.info(`API URL: http://localhost:${port}/api`);
-});
+let server: Server | undefined;
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    logger.info('Process terminated');
-    process.exit(0);
-  });
-});
+async function start() {
+  if (config.database.driver === 'postgres' && config.database.migrateOnStart) {
+    const applied = await runMigrations();
+    logger.info(`Database schema up to date (${applied.length} migration(s) applied)`);
+  }
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  server.close(() => {
-    logger.info('Process terminated');
-    process.exit(0);
+  // Prefer the catalog admins have saved over the file/built-in one
+  await planCatalog.load();
+
+  server = app.listen(port, () => {
+    logger.info(`🎚️ Tone Slyder API server running on port ${port}`);
+    logger.info(`Environment: ${config.env}`);
+    logger.info(`API URL: http://localhost:${port}/api`);
   });
+}
+
+start().catch(error => {
+  logger.error('Failed to start server', { error: error.message });
+  process.exit(1);
 });
 
+// Graceful shutdown
+function shutdown(signal: string) {
+  logger.info(`${signal} received, shutting down gracefully`);
+
+  const exit = () => {
+    Promise.allSettled([closePool(), closeRedis()]).finally(() => {
+      logger.info('Process terminated');
+      process.exit(0);
+    });
+  };
+
+  if (server) {
+    server.close(exit);
+  } else {
+    exit();
+  }
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
 export default app;
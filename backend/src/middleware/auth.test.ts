@@ -0,0 +1,122 @@
+import express from 'express';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKeyScope } from '@tone-slyder/shared/types';
+import { authService } from '../services/authService';
+import { userRepository } from '../repositories/userRepository';
+import { authenticate, authenticateUser, requireAdmin } from './auth';
+
+const app = express();
+const whoami = (req: express.Request, res: express.Response) => res.json({ user: req.user, auth: req.auth });
+
+app.get('/rewrite', authenticate({ scope: 'rewrite' }), whoami);
+app.get('/presets', authenticate({ scope: 'presets:read' }), whoami);
+app.get('/account', authenticateUser, whoami);
+app.get('/keys', authenticate({ sessionOnly: true }), whoami);
+app.get('/admin', authenticateUser, requireAdmin, whoami);
+
+async function createKey(scopes: ApiKeyScope[]) {
+  const session = await authService.register(`${uuidv4()}@example.com`, 'correct horse battery staple');
+  const { key, id } = await authService.createApiKey(session.user.id, 'Test key', scopes);
+
+  return { session, key, id };
+}
+
+describe('authenticate', () => {
+  it('requires credentials', async () => {
+    const response = await request(app).get('/account');
+
+    expect(response.status).toBe(401);
+    expect(response.body.error).toBe('unauthorized');
+  });
+
+  it('accepts a session access token everywhere', async () => {
+    const { session } = await createKey([]);
+
+    for (const path of ['/rewrite', '/presets', '/account', '/keys']) {
+      const response = await request(app).get(path).set('Authorization', `Bearer ${session.accessToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.auth).toEqual({ method: 'session', scopes: [] });
+    }
+  });
+
+  it('refuses an invalid access token', async () => {
+    const response = await request(app).get('/account').set('Authorization', 'Bearer not-a-token');
+
+    expect(response.status).toBe(401);
+    expect(response.body.error).toBe('invalid_token');
+  });
+});
+
+describe('authenticate with API keys', () => {
+  it("lets an unscoped key act with the owner's full access", async () => {
+    const { session, key } = await createKey([]);
+
+    for (const path of ['/rewrite', '/presets', '/account']) {
+      const response = await request(app).get(path).set('X-API-Key', key);
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.id).toBe(session.user.id);
+    }
+  });
+
+  it('accepts a key as a bearer token', async () => {
+    const { key, id } = await createKey(['rewrite']);
+
+    const response = await request(app).get('/rewrite').set('Authorization', `Bearer ${key}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.auth).toEqual({ method: 'api_key', apiKeyId: id, scopes: ['rewrite'] });
+  });
+
+  it('only lets a scoped key into routes naming one of its scopes', async () => {
+    const { key } = await createKey(['rewrite']);
+
+    expect((await request(app).get('/rewrite').set('X-API-Key', key)).status).toBe(200);
+
+    for (const path of ['/presets', '/account']) {
+      const response = await request(app).get(path).set('X-API-Key', key);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('insufficient_scope');
+    }
+  });
+
+  it('never accepts a key on session-only routes', async () => {
+    const { key } = await createKey([]);
+
+    const response = await request(app).get('/keys').set('X-API-Key', key);
+
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('session_required');
+  });
+
+  it('refuses revoked keys and keys of disabled accounts', async () => {
+    const revoked = await createKey([]);
+    await authService.revokeApiKey(revoked.session.user.id, revoked.id);
+    const disabled = await createKey([]);
+    await userRepository.update(disabled.session.user.id, { isActive: false });
+
+    for (const { key } of [revoked, disabled]) {
+      const response = await request(app).get('/account').set('X-API-Key', key);
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('invalid_api_key');
+    }
+  });
+});
+
+describe('requireAdmin', () => {
+  it('only admits accounts with the admin role', async () => {
+    const { session } = await createKey([]);
+
+    const before = await request(app).get('/admin').set('Authorization', `Bearer ${session.accessToken}`);
+    await userRepository.update(session.user.id, { role: 'admin' });
+    const after = await request(app).get('/admin').set('Authorization', `Bearer ${session.accessToken}`);
+
+    expect(before.status).toBe(403);
+    expect(before.body.error).toBe('admin_required');
+    expect(after.status).toBe(200);
+  });
+});
@@ -1,4 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
+import { ApiKeyScope, AuthUser, UserRole } from '@tone-slyder/shared/types';
+import { authService, AuthError, API_KEY_PREFIX } from '../services/authService';
+import { logger } from '../config/logger';
 
 // Extend Request interface to include user
 declare global {
@@ -8,20 +11,94 @@ declare global {
         id: string;
         email: string;
         tier: 'free' | 'premium' | 'enterprise';
+        role: UserRole;
+      };
+      auth?: {
+        method: 'session' | 'api_key';
+        apiKeyId?: string;
+        scopes: ApiKeyScope[];  // Empty = unrestricted
       };
     }
   }
 }
 
-export function authenticateUser(req: Request, res: Response, next: NextFunction) {
-  // For development, create a mock user
-  // In production, this would validate JWT tokens
-  
-  req.user = {
-    id: 'dev-user-123',
-    email: 'dev@toneslyder.com',
-    tier: 'premium'
+interface AuthenticateOptions {
+  scope?: ApiKeyScope;   // Scoped API keys must grant this to pass
+  sessionOnly?: boolean; // Reject API keys entirely, e.g. so a key can't mint more keys
+}
+
+function deny(res: Response, status: number, error: string, message: string) {
+  return res.status(status).json({ success: false, error, message });
+}
+
+/**
+ * Require credentials: a session access token or a personal API key, sent as
+ * `Authorization: Bearer <token|key>` or `X-API-Key: <key>`.
+ * API keys without scopes act with the owner's full access; scoped keys are
+ * only accepted where the route names one of their scopes.
+ */
+export function authenticate(options: AuthenticateOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization;
+    const bearer = header?.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    const apiKeyHeader = req.header('x-api-key')?.trim() || '';
+    const credential = bearer || apiKeyHeader;
+
+    if (!credential) {
+      return deny(res, 401, 'unauthorized', 'Authentication required');
+    }
+
+    try {
+      let user: AuthUser;
+
+      if (apiKeyHeader || credential.startsWith(API_KEY_PREFIX)) {
+        const verified = await authService.verifyApiKey(credential);
+
+        if (options.sessionOnly) {
+          return deny(res, 403, 'session_required', 'This action requires signing in; API keys are not accepted');
+        }
+        if (verified.scopes.length > 0 && !(options.scope && verified.scopes.includes(options.scope))) {
+          return deny(res, 403, 'insufficient_scope', 'This API key is not allowed to access this endpoint');
+        }
+
+        user = verified.user;
+        req.auth = { method: 'api_key', apiKeyId: verified.apiKeyId, scopes: verified.scopes };
+      } else {
+        user = await authService.verifyAccessToken(credential);
+        req.auth = { method: 'session', scopes: [] };
+      }
+
+      req.user = {
+        id: user.id,
+        email: user.email,
+        tier: user.tier,
+        role: user.role
+      };
+
+      next();
+    } catch (error: any) {
+      if (error instanceof AuthError) {
+        return deny(res, 401, error.code, error.message);
+      }
+
+      logger.error('Error authenticating request', { error: error.message });
+
+      deny(res, 500, 'authentication_failed', 'Unable to authenticate request. Please try again.');
+    }
   };
-  
+}
+
+// Sessions and unscoped API keys
+export const authenticateUser = authenticate();
+
+/**
+ * Restrict a route to accounts with the admin role (the first one is granted with
+ * `npm run grant-admin`). Must run after `authenticate`.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.role !== 'admin') {
+    return deny(res, 403, 'admin_required', 'Administrator access required');
+  }
+
   next();
 }
@@ -0,0 +1,76 @@
+import express from 'express';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import { rateLimitStore } from '../services/rateLimitService';
+import { meteringService } from '../services/meteringService';
+import { rateLimitByTier } from './rateLimit';
+
+const FREE_LIMIT = meteringService.getTierLimits('free').rateLimitPerHour;
+
+// Stands in for authenticate; each test signs in as a new free-tier user
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.user = { id: req.header('X-Test-User')!, email: 'user@example.com', tier: 'free', role: 'user' };
+  next();
+});
+app.post('/', rateLimitByTier({ weight: req => req.body.count }), (_req, res) => {
+  res.json({ success: true });
+});
+
+function send(userId: string, count: number = 1) {
+  return request(app).post('/').set('X-Test-User', userId).send({ count });
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('rateLimitByTier', () => {
+  it('reports the limit, what remains and the policy', async () => {
+    const userId = uuidv4();
+
+    await send(userId);
+    const response = await send(userId, 3);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['ratelimit-limit']).toBe(String(FREE_LIMIT));
+    expect(response.headers['ratelimit-remaining']).toBe(String(FREE_LIMIT - 4));
+    expect(Number(response.headers['ratelimit-reset'])).toBeGreaterThan(3590);
+    expect(response.headers['ratelimit-policy']).toBe(`${FREE_LIMIT};w=3600`);
+    expect(response.headers['retry-after']).toBeUndefined();
+  });
+
+  it('refuses requests once the hour is used up, saying when to retry', async () => {
+    const userId = uuidv4();
+    await send(userId, FREE_LIMIT);
+
+    const response = await send(userId);
+
+    expect(response.status).toBe(429);
+    expect(response.body.error).toBe('rate_limit_exceeded');
+    expect(response.headers['ratelimit-remaining']).toBe('0');
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(3590);
+  });
+
+  it('refuses a request heavier than the whole limit without counting it', async () => {
+    const userId = uuidv4();
+
+    const refused = await send(userId, FREE_LIMIT + 1);
+    const next = await send(userId);
+
+    expect(refused.status).toBe(413);
+    expect(refused.body.error).toBe('rate_limit_weight_exceeded');
+    expect(refused.headers['retry-after']).toBeUndefined();
+    expect(next.headers['ratelimit-remaining']).toBe(String(FREE_LIMIT - 1));
+  });
+
+  it('lets requests through without headers when the store is unavailable', async () => {
+    jest.spyOn(rateLimitStore, 'consume').mockRejectedValue(new Error('ECONNREFUSED'));
+
+    const response = await send(uuidv4());
+
+    expect(response.status).toBe(200);
+    expect(response.headers['ratelimit-limit']).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { consumeRateLimit } from '../services/rateLimitService';
+import { meteringService } from '../services/meteringService';
+import { logger } from '../config/logger';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface TierRateLimitOptions {
+  weight?: (req: Request) => number;  // Requests this call counts as, e.g. one per batch item
+}
+
+/**
+ * Enforce the user's tier `rateLimitPerHour` over a sliding hour (their organization's tier
+ * for members). Must run after `authenticate`.
+ * Sends `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and `RateLimit-Policy`,
+ * plus `Retry-After` when the request is rejected. A request weighing more than the whole
+ * limit could never fit, so it is refused with 413 instead of being told to retry.
+ * Requests count before the cache is consulted, so rewrites served from the cache count too:
+ * the limit caps how hard a user can drive the API, not what they spend.
+ */
+export function rateLimitByTier(options: TierRateLimitOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user!;
+    const tier = await meteringService.getEffectiveTier(user.id, user.tier);
+    const limit = meteringService.getTierLimits(tier).rateLimitPerHour;
+    const weight = Math.max(1, options.weight?.(req) || 1);
+
+    if (weight > limit) {
+      return res.status(413).json({
+        success: false,
+        error: 'rate_limit_weight_exceeded',
+        message: `This request counts as ${weight} requests, more than the ${tier} tier's hourly limit of ${limit}. Send it in smaller parts.`
+      });
+    }
+
+    // Keyed on tier too, so an upgrade starts a window with the new allowance
+    const result = await consumeRateLimit(`${user.id}:${tier}`, limit, HOUR_MS, weight);
+    if (!result) {
+      return next();
+    }
+
+    res.setHeader('RateLimit-Limit', result.limit);
+    res.setHeader('RateLimit-Remaining', result.remaining);
+    res.setHeader('RateLimit-Reset', result.resetSeconds);
+    res.setHeader('RateLimit-Policy', `${limit};w=3600`);
+
+    if (!result.allowed) {
+      logger.warn('Hourly rate limit exceeded', { userId: user.id, tier, limit });
+
+      res.setHeader('Retry-After', result.resetSeconds);
+      return res.status(429).json({
+        success: false,
+        error: 'rate_limit_exceeded',
+        message: `Hourly limit of ${limit} requests for the ${tier} tier reached. Try again in ${Math.ceil(result.resetSeconds / 60)} minute(s).`
+      });
+    }
+
+    next();
+  };
+}
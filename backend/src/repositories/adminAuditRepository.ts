@@ -0,0 +1,111 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AdminAction } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query, UUID_PATTERN } from '../config/database';
+
+export interface AuditRecord {
+  id: string;
+  actorId?: string;
+  actorEmail: string;
+  action: AdminAction;
+  targetUserId?: string;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface NewAuditRecord {
+  actorId?: string;     // Unset for changes made from the command line
+  actorEmail: string;
+  action: AdminAction;
+  targetUserId?: string;
+  details: Record<string, unknown>;
+}
+
+export interface AuditFilter {
+  targetUserId?: string;
+  actorId?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface AdminAuditRepository {
+  record(entry: NewAuditRecord): Promise<AuditRecord>;
+  /** Newest first */
+  list(filter: AuditFilter): Promise<AuditRecord[]>;
+}
+
+interface AuditRow {
+  id: string;
+  actor_id: string | null;
+  actor_email: string;
+  action: AdminAction;
+  target_user_id: string | null;
+  details: Record<string, unknown>;
+  created_at: Date;
+}
+
+function fromRow(row: AuditRow): AuditRecord {
+  return {
+    id: row.id,
+    actorId: row.actor_id || undefined,
+    actorEmail: row.actor_email,
+    action: row.action,
+    targetUserId: row.target_user_id || undefined,
+    details: row.details,
+    createdAt: row.created_at
+  };
+}
+
+export class PostgresAdminAuditRepository implements AdminAuditRepository {
+  async record(entry: NewAuditRecord): Promise<AuditRecord> {
+    const rows = await query<AuditRow>(
+      `INSERT INTO admin_audit_log (actor_id, actor_email, action, target_user_id, details)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [entry.actorId ?? null, entry.actorEmail, entry.action, entry.targetUserId ?? null, JSON.stringify(entry.details)]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async list(filter: AuditFilter): Promise<AuditRecord[]> {
+    if ((filter.targetUserId && !UUID_PATTERN.test(filter.targetUserId)) ||
+        (filter.actorId && !UUID_PATTERN.test(filter.actorId))) {
+      return [];
+    }
+
+    const rows = await query<AuditRow>(
+      `SELECT * FROM admin_audit_log
+       WHERE ($1::uuid IS NULL OR target_user_id = $1) AND ($2::uuid IS NULL OR actor_id = $2)
+       ORDER BY created_at DESC LIMIT $3 OFFSET $4`,
+      [filter.targetUserId ?? null, filter.actorId ?? null, filter.limit, filter.offset]
+    );
+    return rows.map(fromRow);
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryAdminAuditRepository implements AdminAuditRepository {
+  private entries: AuditRecord[] = [];
+
+  async record(entry: NewAuditRecord): Promise<AuditRecord> {
+    const record: AuditRecord = { id: uuidv4(), ...entry, createdAt: new Date() };
+    this.entries.unshift(record);
+    return { ...record };
+  }
+
+  async list(filter: AuditFilter): Promise<AuditRecord[]> {
+    return this.entries
+      .filter(entry =>
+        (!filter.targetUserId || entry.targetUserId === filter.targetUserId) &&
+        (!filter.actorId || entry.actorId === filter.actorId)
+      )
+      .slice(filter.offset, filter.offset + filter.limit)
+      .map(entry => ({ ...entry }));
+  }
+}
+
+export const adminAuditRepository: AdminAuditRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresAdminAuditRepository()
+    : new InMemoryAdminAuditRepository();
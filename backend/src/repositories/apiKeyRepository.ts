@@ -0,0 +1,141 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKeyScope } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query, UUID_PATTERN } from '../config/database';
+
+export interface ApiKeyRecord {
+  id: string;
+  userId: string;
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface NewApiKey {
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface ApiKeyRepository {
+  create(userId: string, key: NewApiKey): Promise<ApiKeyRecord>;
+  /** Active (non-revoked) keys, newest first */
+  listByUser(userId: string): Promise<ApiKeyRecord[]>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  /** Returns false when the key doesn't exist, isn't the user's or is already revoked */
+  revoke(userId: string, id: string): Promise<boolean>;
+  touch(id: string): Promise<void>;
+}
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[] | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+function fromRow(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    keyHash: row.key_hash,
+    scopes: row.scopes || [],
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at || undefined,
+    revokedAt: row.revoked_at || undefined
+  };
+}
+
+export class PostgresApiKeyRepository implements ApiKeyRepository {
+  async create(userId: string, key: NewApiKey): Promise<ApiKeyRecord> {
+    const rows = await query<ApiKeyRow>(
+      `INSERT INTO api_keys (user_id, name, key_prefix, key_hash, scopes)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [userId, key.name, key.keyPrefix, key.keyHash, key.scopes]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async listByUser(userId: string): Promise<ApiKeyRecord[]> {
+    const rows = await query<ApiKeyRow>(
+      'SELECT * FROM api_keys WHERE user_id = $1 AND revoked_at IS NULL ORDER BY created_at DESC',
+      [userId]
+    );
+    return rows.map(fromRow);
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const rows = await query<ApiKeyRow>('SELECT * FROM api_keys WHERE key_hash = $1', [keyHash]);
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async revoke(userId: string, id: string): Promise<boolean> {
+    if (!UUID_PATTERN.test(id)) return false;
+
+    const rows = await query<ApiKeyRow>(
+      `UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL RETURNING *`,
+      [id, userId]
+    );
+    return rows.length > 0;
+  }
+
+  async touch(id: string): Promise<void> {
+    await query('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryApiKeyRepository implements ApiKeyRepository {
+  private keys = new Map<string, ApiKeyRecord>();
+
+  async create(userId: string, key: NewApiKey): Promise<ApiKeyRecord> {
+    const record: ApiKeyRecord = { id: uuidv4(), userId, ...key, createdAt: new Date() };
+    this.keys.set(record.id, record);
+    return record;
+  }
+
+  async listByUser(userId: string): Promise<ApiKeyRecord[]> {
+    return Array.from(this.keys.values())
+      .filter(key => key.userId === userId && !key.revokedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    return Array.from(this.keys.values()).find(key => key.keyHash === keyHash) || null;
+  }
+
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const key = this.keys.get(id);
+    if (!key || key.userId !== userId || key.revokedAt) return false;
+
+    key.revokedAt = new Date();
+    return true;
+  }
+
+  async touch(id: string): Promise<void> {
+    const key = this.keys.get(id);
+    if (key) {
+      key.lastUsedAt = new Date();
+    }
+  }
+}
+
+export const apiKeyRepository: ApiKeyRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresApiKeyRepository()
+    : new InMemoryApiKeyRepository();
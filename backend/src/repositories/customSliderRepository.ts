@@ -0,0 +1,174 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CustomSlider, CompositeMapping } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query, UUID_PATTERN } from '../config/database';
+
+export interface CustomSliderInput {
+  label: string;
+  description: string;
+  mappings: CompositeMapping[];
+  tags: string[];
+  public: boolean;
+}
+
+export interface CustomSliderRepository {
+  findById(id: string): Promise<CustomSlider | null>;
+  /** Sliders the user created plus every public slider */
+  listVisibleTo(userId: string): Promise<CustomSlider[]>;
+  create(creatorId: string, input: CustomSliderInput): Promise<CustomSlider>;
+  update(id: string, changes: Partial<CustomSliderInput>): Promise<CustomSlider | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Custom sliders share the core slider scale; the table only stores what varies
+function buildSlider(id: string, creatorId: string, input: CustomSliderInput, rating = 0, usageCount = 0): CustomSlider {
+  return {
+    id,
+    label: input.label,
+    description: input.description,
+    min: 10,
+    max: 90,
+    defaultValue: 50,
+    step: 1,
+    isCore: false,
+    category: 'custom',
+    creator: creatorId,
+    isComposite: input.mappings.length > 0,
+    mappings: input.mappings,
+    tags: input.tags,
+    public: input.public,
+    rating,
+    usage_count: usageCount
+  };
+}
+
+interface CustomSliderRow {
+  id: string;
+  name: string;
+  description: string | null;
+  creator_id: string;
+  is_public: boolean;
+  instruction_mappings: CompositeMapping[];
+  tags: string[] | null;
+  rating_avg: string;
+  usage_count: number;
+}
+
+function fromRow(row: CustomSliderRow): CustomSlider {
+  return buildSlider(
+    row.id,
+    row.creator_id,
+    {
+      label: row.name,
+      description: row.description || '',
+      mappings: row.instruction_mappings || [],
+      tags: row.tags || [],
+      public: row.is_public
+    },
+    parseFloat(row.rating_avg) || 0,
+    row.usage_count
+  );
+}
+
+export class PostgresCustomSliderRepository implements CustomSliderRepository {
+  async findById(id: string): Promise<CustomSlider | null> {
+    // Slider keys in requests are free-form; anything else would be a cast error
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const rows = await query<CustomSliderRow>('SELECT * FROM custom_sliders WHERE id = $1', [id]);
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async listVisibleTo(userId: string): Promise<CustomSlider[]> {
+    const rows = await query<CustomSliderRow>(
+      'SELECT * FROM custom_sliders WHERE creator_id = $1 OR is_public = TRUE ORDER BY usage_count DESC, name',
+      [userId]
+    );
+    return rows.map(fromRow);
+  }
+
+  async create(creatorId: string, input: CustomSliderInput): Promise<CustomSlider> {
+    const rows = await query<CustomSliderRow>(
+      `INSERT INTO custom_sliders (name, description, creator_id, is_public, instruction_mappings, tags)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [input.label, input.description, creatorId, input.public, JSON.stringify(input.mappings), input.tags]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async update(id: string, changes: Partial<CustomSliderInput>): Promise<CustomSlider | null> {
+    const rows = await query<CustomSliderRow>(
+      `UPDATE custom_sliders SET
+         name = COALESCE($2, name),
+         description = COALESCE($3, description),
+         is_public = COALESCE($4, is_public),
+         instruction_mappings = COALESCE($5, instruction_mappings),
+         tags = COALESCE($6, tags)
+       WHERE id = $1 RETURNING *`,
+      [
+        id,
+        changes.label ?? null,
+        changes.description ?? null,
+        changes.public ?? null,
+        changes.mappings ? JSON.stringify(changes.mappings) : null,
+        changes.tags ?? null
+      ]
+    );
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const rows = await query('DELETE FROM custom_sliders WHERE id = $1 RETURNING id', [id]);
+    return rows.length > 0;
+  }
+}
+
+export class InMemoryCustomSliderRepository implements CustomSliderRepository {
+  private sliders = new Map<string, CustomSlider>();
+
+  async findById(id: string): Promise<CustomSlider | null> {
+    return this.sliders.get(id) || null;
+  }
+
+  async listVisibleTo(userId: string): Promise<CustomSlider[]> {
+    return [...this.sliders.values()]
+      .filter(slider => slider.creator === userId || slider.public)
+      .sort((a, b) => (b.usage_count || 0) - (a.usage_count || 0) || a.label.localeCompare(b.label));
+  }
+
+  async create(creatorId: string, input: CustomSliderInput): Promise<CustomSlider> {
+    const slider = buildSlider(uuidv4(), creatorId, input);
+    this.sliders.set(slider.id, slider);
+    return slider;
+  }
+
+  async update(id: string, changes: Partial<CustomSliderInput>): Promise<CustomSlider | null> {
+    const existing = this.sliders.get(id);
+    if (!existing) return null;
+
+    const updated = buildSlider(
+      id,
+      existing.creator,
+      {
+        label: changes.label ?? existing.label,
+        description: changes.description ?? existing.description,
+        mappings: changes.mappings ?? existing.mappings ?? [],
+        tags: changes.tags ?? existing.tags,
+        public: changes.public ?? existing.public
+      },
+      existing.rating,
+      existing.usage_count
+    );
+    this.sliders.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.sliders.delete(id);
+  }
+}
+
+export const customSliderRepository: CustomSliderRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresCustomSliderRepository()
+    : new InMemoryCustomSliderRepository();
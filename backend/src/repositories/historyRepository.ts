@@ -0,0 +1,201 @@
+import { v4 as uuidv4 } from 'uuid';
+import { HistoryEntry, Guardrails } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query, UUID_PATTERN } from '../config/database';
+
+export interface NewHistoryEntry {
+  originalText: string;
+  rewrittenText: string;
+  sliderValues: Record<string, number>;
+  guardrails?: Guardrails;
+  model: string;
+  tokensUsed: number;
+  costUSD: number;
+}
+
+export interface HistoryFilters {
+  limit: number;
+  offset: number;
+  search?: string;
+  model?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface HistoryResult {
+  entries: HistoryEntry[];
+  total: number;
+}
+
+export interface HistoryRepository {
+  create(userId: string, entry: NewHistoryEntry): Promise<HistoryEntry>;
+  /** Newest first */
+  listByUser(userId: string, filters: HistoryFilters): Promise<HistoryResult>;
+  findById(userId: string, id: string): Promise<HistoryEntry | null>;
+  delete(userId: string, id: string): Promise<boolean>;
+}
+
+interface HistoryRow {
+  id: string;
+  original_text: string;
+  rewritten_text: string;
+  slider_values: Record<string, number>;
+  guardrails: Guardrails | null;
+  model_used: string | null;
+  tokens_used: number | null;
+  cost_usd: string | null;
+  created_at: Date;
+  total?: string;
+}
+
+function fromRow(row: HistoryRow): HistoryEntry {
+  return {
+    id: row.id,
+    timestamp: row.created_at,
+    originalText: row.original_text,
+    rewrittenText: row.rewritten_text,
+    sliderValues: row.slider_values,
+    guardrails: row.guardrails || undefined,
+    model: row.model_used || '',
+    tokensUsed: row.tokens_used ?? undefined,
+    costUSD: row.cost_usd !== null ? parseFloat(row.cost_usd) : undefined
+  };
+}
+
+export class PostgresHistoryRepository implements HistoryRepository {
+  async create(userId: string, entry: NewHistoryEntry): Promise<HistoryEntry> {
+    const rows = await query<HistoryRow>(
+      `INSERT INTO rewrite_history
+         (user_id, original_text, rewritten_text, slider_values, guardrails, model_used, tokens_used, cost_usd)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+      [
+        userId,
+        entry.originalText,
+        entry.rewrittenText,
+        JSON.stringify(entry.sliderValues),
+        entry.guardrails ? JSON.stringify(entry.guardrails) : null,
+        entry.model,
+        entry.tokensUsed,
+        entry.costUSD
+      ]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async listByUser(userId: string, filters: HistoryFilters): Promise<HistoryResult> {
+    const conditions = ['user_id = $1'];
+    const params: unknown[] = [userId];
+
+    if (filters.search) {
+      // Escape LIKE wildcards so the search is literal
+      params.push(`%${filters.search.replace(/[\\%_]/g, match => '\\' + match)}%`);
+      conditions.push(`(original_text ILIKE $${params.length} OR rewritten_text ILIKE $${params.length})`);
+    }
+    if (filters.model) {
+      params.push(filters.model);
+      conditions.push(`model_used = $${params.length}`);
+    }
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`created_at >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`created_at <= $${params.length}`);
+    }
+
+    params.push(filters.limit, filters.offset);
+    const rows = await query<HistoryRow>(
+      `SELECT *, COUNT(*) OVER() AS total FROM rewrite_history
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY created_at DESC LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    let total = rows[0] ? parseInt(rows[0].total || '0', 10) : 0;
+    if (rows.length === 0 && filters.offset > 0) {
+      // Paged past the end; the window count isn't available, so count separately
+      const counted = await query<{ total: string }>(
+        `SELECT COUNT(*) AS total FROM rewrite_history WHERE ${conditions.join(' AND ')}`,
+        params.slice(0, -2)
+      );
+      total = parseInt(counted[0].total, 10);
+    }
+
+    return { entries: rows.map(fromRow), total };
+  }
+
+  async findById(userId: string, id: string): Promise<HistoryEntry | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const rows = await query<HistoryRow>(
+      'SELECT * FROM rewrite_history WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    if (!UUID_PATTERN.test(id)) return false;
+
+    const rows = await query<{ id: string }>(
+      'DELETE FROM rewrite_history WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, userId]
+    );
+    return rows.length > 0;
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryHistoryRepository implements HistoryRepository {
+  private entries: (HistoryEntry & { userId: string })[] = [];
+
+  async create(userId: string, entry: NewHistoryEntry): Promise<HistoryEntry> {
+    const stored = { id: uuidv4(), userId, timestamp: new Date(), ...entry };
+    this.entries.unshift(stored);
+    return this.strip(stored);
+  }
+
+  async listByUser(userId: string, filters: HistoryFilters): Promise<HistoryResult> {
+    const search = filters.search?.toLowerCase();
+
+    const matching = this.entries.filter(entry =>
+      entry.userId === userId &&
+      (!search ||
+        entry.originalText.toLowerCase().includes(search) ||
+        entry.rewrittenText.toLowerCase().includes(search)) &&
+      (!filters.model || entry.model === filters.model) &&
+      (!filters.from || entry.timestamp >= filters.from) &&
+      (!filters.to || entry.timestamp <= filters.to)
+    );
+
+    return {
+      entries: matching.slice(filters.offset, filters.offset + filters.limit).map(entry => this.strip(entry)),
+      total: matching.length
+    };
+  }
+
+  async findById(userId: string, id: string): Promise<HistoryEntry | null> {
+    const entry = this.entries.find(stored => stored.id === id && stored.userId === userId);
+    return entry ? this.strip(entry) : null;
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const index = this.entries.findIndex(stored => stored.id === id && stored.userId === userId);
+    if (index === -1) return false;
+
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  private strip({ userId: _owner, ...entry }: HistoryEntry & { userId: string }): HistoryEntry {
+    return entry;
+  }
+}
+
+export const historyRepository: HistoryRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresHistoryRepository()
+    : new InMemoryHistoryRepository();
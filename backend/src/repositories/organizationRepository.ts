@@ -0,0 +1,515 @@
+import { v4 as uuidv4 } from 'uuid';
+import { OrganizationRole } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query, UUID_PATTERN } from '../config/database';
+import { UserTier } from './userRepository';
+import { UsageDelta } from './usageRepository';
+
+export interface OrganizationRecord {
+  id: string;
+  name: string;
+  tier: UserTier;
+  createdAt: Date;
+}
+
+export interface MemberSettings {
+  role: OrganizationRole;
+  monthlyRewriteLimit?: number;  // Sub-limit within the shared pool
+  monthlyBudgetUSD?: number;
+}
+
+export interface MemberRecord extends MemberSettings {
+  organizationId: string;
+  userId: string;
+  joinedAt: Date;
+}
+
+export interface Membership {
+  organization: OrganizationRecord;
+  member: MemberRecord;
+}
+
+export interface InvitationRecord extends MemberSettings {
+  id: string;
+  organizationId: string;
+  email: string;       // Lower-cased
+  invitedBy?: string;  // Unset once the inviting account is deleted
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface NewInvitation extends MemberSettings {
+  email: string;
+  invitedBy: string;
+  expiresAt: Date;
+}
+
+export interface PooledUsage {
+  organizationId: string;
+  monthYear: string;  // "2024-01"
+  rewritesCount: number;
+  tokensUsed: number;
+  costUSD: number;
+}
+
+export interface OrganizationRepository {
+  /** Creates the organization with `ownerId` as its first owner */
+  create(name: string, tier: UserTier, ownerId: string): Promise<Membership>;
+  findById(id: string): Promise<OrganizationRecord | null>;
+  rename(id: string, name: string): Promise<OrganizationRecord | null>;
+  delete(id: string): Promise<boolean>;
+  /** The organization a user belongs to, if any */
+  findMembership(userId: string): Promise<Membership | null>;
+  /** Oldest members first */
+  listMembers(organizationId: string): Promise<MemberRecord[]>;
+  addMember(organizationId: string, userId: string, settings: MemberSettings): Promise<MemberRecord>;
+  /** Replaces role and sub-limits; omitted sub-limits are cleared */
+  updateMember(organizationId: string, userId: string, settings: MemberSettings): Promise<MemberRecord | null>;
+  removeMember(organizationId: string, userId: string): Promise<boolean>;
+  /** Creates the organization's invitation for the email, or replaces the pending one */
+  saveInvitation(organizationId: string, invitation: NewInvitation): Promise<InvitationRecord>;
+  findInvitation(id: string): Promise<InvitationRecord | null>;
+  /** Unexpired invitations to the organization, newest first */
+  listInvitations(organizationId: string): Promise<InvitationRecord[]>;
+  /** Unexpired invitations to the email from any organization, newest first */
+  listInvitationsForEmail(email: string): Promise<InvitationRecord[]>;
+  deleteInvitation(id: string): Promise<boolean>;
+  findUsage(organizationId: string, monthYear: string): Promise<PooledUsage | null>;
+  /** Atomically add to the pool's monthly totals, creating the row if needed */
+  incrementUsage(organizationId: string, monthYear: string, delta: UsageDelta): Promise<PooledUsage>;
+}
+
+interface OrganizationRow {
+  id: string;
+  name: string;
+  tier: UserTier;
+  created_at: Date;
+}
+
+interface MemberRow {
+  organization_id: string;
+  user_id: string;
+  role: OrganizationRole;
+  monthly_rewrite_limit: number | null;
+  monthly_budget_usd: string | null;
+  created_at: Date;
+}
+
+interface InvitationRow {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: OrganizationRole;
+  monthly_rewrite_limit: number | null;
+  monthly_budget_usd: string | null;
+  invited_by: string | null;
+  created_at: Date;
+  expires_at: Date;
+}
+
+interface PooledUsageRow {
+  organization_id: string;
+  month_year: string;
+  rewrites_count: number;
+  tokens_used: number;
+  cost_usd: string;
+}
+
+function organizationFromRow(row: OrganizationRow): OrganizationRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    tier: row.tier,
+    createdAt: row.created_at
+  };
+}
+
+function memberFromRow(row: MemberRow): MemberRecord {
+  return {
+    organizationId: row.organization_id,
+    userId: row.user_id,
+    role: row.role,
+    monthlyRewriteLimit: row.monthly_rewrite_limit ?? undefined,
+    monthlyBudgetUSD: row.monthly_budget_usd === null ? undefined : parseFloat(row.monthly_budget_usd),
+    joinedAt: row.created_at
+  };
+}
+
+function invitationFromRow(row: InvitationRow): InvitationRecord {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    email: row.email,
+    role: row.role,
+    monthlyRewriteLimit: row.monthly_rewrite_limit ?? undefined,
+    monthlyBudgetUSD: row.monthly_budget_usd === null ? undefined : parseFloat(row.monthly_budget_usd),
+    invitedBy: row.invited_by ?? undefined,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at
+  };
+}
+
+function usageFromRow(row: PooledUsageRow): PooledUsage {
+  return {
+    organizationId: row.organization_id,
+    monthYear: row.month_year,
+    rewritesCount: row.rewrites_count,
+    tokensUsed: row.tokens_used,
+    costUSD: parseFloat(row.cost_usd) || 0
+  };
+}
+
+export class PostgresOrganizationRepository implements OrganizationRepository {
+  async create(name: string, tier: UserTier, ownerId: string): Promise<Membership> {
+    // One statement, so an organization never exists without its owner
+    const rows = await query<OrganizationRow & { joined_at: Date }>(
+      `WITH organization AS (
+         INSERT INTO organizations (name, tier) VALUES ($1, $2) RETURNING *
+       ), owner AS (
+         INSERT INTO organization_members (organization_id, user_id, role)
+         SELECT id, $3, 'owner' FROM organization RETURNING created_at
+       )
+       SELECT organization.*, owner.created_at AS joined_at FROM organization, owner`,
+      [name, tier, ownerId]
+    );
+
+    const organization = organizationFromRow(rows[0]);
+    return {
+      organization,
+      member: { organizationId: organization.id, userId: ownerId, role: 'owner', joinedAt: rows[0].joined_at }
+    };
+  }
+
+  async findById(id: string): Promise<OrganizationRecord | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const rows = await query<OrganizationRow>('SELECT * FROM organizations WHERE id = $1', [id]);
+    return rows[0] ? organizationFromRow(rows[0]) : null;
+  }
+
+  async rename(id: string, name: string): Promise<OrganizationRecord | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const rows = await query<OrganizationRow>(
+      'UPDATE organizations SET name = $2 WHERE id = $1 RETURNING *',
+      [id, name]
+    );
+    return rows[0] ? organizationFromRow(rows[0]) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!UUID_PATTERN.test(id)) return false;
+
+    const rows = await query('DELETE FROM organizations WHERE id = $1 RETURNING id', [id]);
+    return rows.length > 0;
+  }
+
+  async findMembership(userId: string): Promise<Membership | null> {
+    const rows = await query<MemberRow & { name: string; tier: UserTier; organization_created_at: Date }>(
+      `SELECT m.*, o.name, o.tier, o.created_at AS organization_created_at
+       FROM organization_members m JOIN organizations o ON o.id = m.organization_id
+       WHERE m.user_id = $1`,
+      [userId]
+    );
+    if (!rows[0]) return null;
+
+    const row = rows[0];
+    return {
+      organization: { id: row.organization_id, name: row.name, tier: row.tier, createdAt: row.organization_created_at },
+      member: memberFromRow(row)
+    };
+  }
+
+  async listMembers(organizationId: string): Promise<MemberRecord[]> {
+    if (!UUID_PATTERN.test(organizationId)) return [];
+
+    const rows = await query<MemberRow>(
+      'SELECT * FROM organization_members WHERE organization_id = $1 ORDER BY created_at',
+      [organizationId]
+    );
+    return rows.map(memberFromRow);
+  }
+
+  async addMember(organizationId: string, userId: string, settings: MemberSettings): Promise<MemberRecord> {
+    const rows = await query<MemberRow>(
+      `INSERT INTO organization_members (organization_id, user_id, role, monthly_rewrite_limit, monthly_budget_usd)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [organizationId, userId, settings.role, settings.monthlyRewriteLimit ?? null, settings.monthlyBudgetUSD ?? null]
+    );
+    return memberFromRow(rows[0]);
+  }
+
+  async updateMember(organizationId: string, userId: string, settings: MemberSettings): Promise<MemberRecord | null> {
+    if (!UUID_PATTERN.test(organizationId) || !UUID_PATTERN.test(userId)) return null;
+
+    const rows = await query<MemberRow>(
+      `UPDATE organization_members SET role = $3, monthly_rewrite_limit = $4, monthly_budget_usd = $5
+       WHERE organization_id = $1 AND user_id = $2 RETURNING *`,
+      [organizationId, userId, settings.role, settings.monthlyRewriteLimit ?? null, settings.monthlyBudgetUSD ?? null]
+    );
+    return rows[0] ? memberFromRow(rows[0]) : null;
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    if (!UUID_PATTERN.test(organizationId) || !UUID_PATTERN.test(userId)) return false;
+
+    const rows = await query(
+      'DELETE FROM organization_members WHERE organization_id = $1 AND user_id = $2 RETURNING user_id',
+      [organizationId, userId]
+    );
+    return rows.length > 0;
+  }
+
+  async saveInvitation(organizationId: string, invitation: NewInvitation): Promise<InvitationRecord> {
+    const rows = await query<InvitationRow>(
+      `INSERT INTO organization_invitations
+         (organization_id, email, role, monthly_rewrite_limit, monthly_budget_usd, invited_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (organization_id, email) DO UPDATE SET
+         role = EXCLUDED.role,
+         monthly_rewrite_limit = EXCLUDED.monthly_rewrite_limit,
+         monthly_budget_usd = EXCLUDED.monthly_budget_usd,
+         invited_by = EXCLUDED.invited_by,
+         created_at = CURRENT_TIMESTAMP,
+         expires_at = EXCLUDED.expires_at
+       RETURNING *`,
+      [
+        organizationId,
+        invitation.email.toLowerCase(),
+        invitation.role,
+        invitation.monthlyRewriteLimit ?? null,
+        invitation.monthlyBudgetUSD ?? null,
+        invitation.invitedBy,
+        invitation.expiresAt
+      ]
+    );
+    return invitationFromRow(rows[0]);
+  }
+
+  async findInvitation(id: string): Promise<InvitationRecord | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const rows = await query<InvitationRow>('SELECT * FROM organization_invitations WHERE id = $1', [id]);
+    return rows[0] ? invitationFromRow(rows[0]) : null;
+  }
+
+  async listInvitations(organizationId: string): Promise<InvitationRecord[]> {
+    if (!UUID_PATTERN.test(organizationId)) return [];
+
+    const rows = await query<InvitationRow>(
+      `SELECT * FROM organization_invitations
+       WHERE organization_id = $1 AND expires_at > NOW() ORDER BY created_at DESC`,
+      [organizationId]
+    );
+    return rows.map(invitationFromRow);
+  }
+
+  async listInvitationsForEmail(email: string): Promise<InvitationRecord[]> {
+    const rows = await query<InvitationRow>(
+      `SELECT * FROM organization_invitations
+       WHERE email = LOWER($1) AND expires_at > NOW() ORDER BY created_at DESC`,
+      [email]
+    );
+    return rows.map(invitationFromRow);
+  }
+
+  async deleteInvitation(id: string): Promise<boolean> {
+    if (!UUID_PATTERN.test(id)) return false;
+
+    const rows = await query('DELETE FROM organization_invitations WHERE id = $1 RETURNING id', [id]);
+    return rows.length > 0;
+  }
+
+  async findUsage(organizationId: string, monthYear: string): Promise<PooledUsage | null> {
+    const rows = await query<PooledUsageRow>(
+      'SELECT * FROM organization_usage WHERE organization_id = $1 AND month_year = $2',
+      [organizationId, monthYear]
+    );
+    return rows[0] ? usageFromRow(rows[0]) : null;
+  }
+
+  async incrementUsage(
+    organizationId: string,
+    monthYear: string,
+    delta: UsageDelta
+  ): Promise<PooledUsage> {
+    const rows = await query<PooledUsageRow>(
+      `INSERT INTO organization_usage (organization_id, month_year, rewrites_count, tokens_used, cost_usd)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (organization_id, month_year) DO UPDATE SET
+         rewrites_count = organization_usage.rewrites_count + EXCLUDED.rewrites_count,
+         tokens_used = organization_usage.tokens_used + EXCLUDED.tokens_used,
+         cost_usd = organization_usage.cost_usd + EXCLUDED.cost_usd
+       RETURNING *`,
+      [organizationId, monthYear, delta.rewrites, delta.tokens, delta.costUSD]
+    );
+    return usageFromRow(rows[0]);
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryOrganizationRepository implements OrganizationRepository {
+  private organizations = new Map<string, OrganizationRecord>();
+  private members = new Map<string, MemberRecord>();  // By user ID; a user has one organization
+  private invitations = new Map<string, InvitationRecord>();
+  private usage = new Map<string, PooledUsage>();
+
+  async create(name: string, tier: UserTier, ownerId: string): Promise<Membership> {
+    const organization: OrganizationRecord = { id: uuidv4(), name, tier, createdAt: new Date() };
+    this.organizations.set(organization.id, organization);
+
+    const member = await this.addMember(organization.id, ownerId, { role: 'owner' });
+    return { organization: { ...organization }, member };
+  }
+
+  async findById(id: string): Promise<OrganizationRecord | null> {
+    const organization = this.organizations.get(id);
+    return organization ? { ...organization } : null;
+  }
+
+  async rename(id: string, name: string): Promise<OrganizationRecord | null> {
+    const organization = this.organizations.get(id);
+    if (!organization) return null;
+
+    organization.name = name;
+    return { ...organization };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.organizations.delete(id)) return false;
+
+    for (const [userId, member] of this.members.entries()) {
+      if (member.organizationId === id) this.members.delete(userId);
+    }
+    for (const [key, usage] of this.usage.entries()) {
+      if (usage.organizationId === id) this.usage.delete(key);
+    }
+    for (const [invitationId, invitation] of this.invitations.entries()) {
+      if (invitation.organizationId === id) this.invitations.delete(invitationId);
+    }
+    return true;
+  }
+
+  async findMembership(userId: string): Promise<Membership | null> {
+    const member = this.members.get(userId);
+    const organization = member && this.organizations.get(member.organizationId);
+    if (!member || !organization) return null;
+
+    return { organization: { ...organization }, member: { ...member } };
+  }
+
+  async listMembers(organizationId: string): Promise<MemberRecord[]> {
+    return Array.from(this.members.values())
+      .filter(member => member.organizationId === organizationId)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())
+      .map(member => ({ ...member }));
+  }
+
+  async addMember(organizationId: string, userId: string, settings: MemberSettings): Promise<MemberRecord> {
+    if (this.members.has(userId)) {
+      throw new Error('User already belongs to an organization');
+    }
+
+    const member: MemberRecord = { organizationId, userId, ...settings, joinedAt: new Date() };
+    this.members.set(userId, member);
+    return { ...member };
+  }
+
+  async updateMember(organizationId: string, userId: string, settings: MemberSettings): Promise<MemberRecord | null> {
+    const member = this.members.get(userId);
+    if (!member || member.organizationId !== organizationId) return null;
+
+    const updated: MemberRecord = {
+      organizationId,
+      userId,
+      role: settings.role,
+      monthlyRewriteLimit: settings.monthlyRewriteLimit,
+      monthlyBudgetUSD: settings.monthlyBudgetUSD,
+      joinedAt: member.joinedAt
+    };
+    this.members.set(userId, updated);
+    return { ...updated };
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    const member = this.members.get(userId);
+    if (!member || member.organizationId !== organizationId) return false;
+
+    return this.members.delete(userId);
+  }
+
+  async saveInvitation(organizationId: string, invitation: NewInvitation): Promise<InvitationRecord> {
+    const email = invitation.email.toLowerCase();
+    const pending = Array.from(this.invitations.values())
+      .find(existing => existing.organizationId === organizationId && existing.email === email);
+
+    const record: InvitationRecord = {
+      id: pending?.id || uuidv4(),
+      organizationId,
+      email,
+      role: invitation.role,
+      monthlyRewriteLimit: invitation.monthlyRewriteLimit,
+      monthlyBudgetUSD: invitation.monthlyBudgetUSD,
+      invitedBy: invitation.invitedBy,
+      createdAt: new Date(),
+      expiresAt: invitation.expiresAt
+    };
+    this.invitations.set(record.id, record);
+    return { ...record };
+  }
+
+  async findInvitation(id: string): Promise<InvitationRecord | null> {
+    const invitation = this.invitations.get(id);
+    return invitation ? { ...invitation } : null;
+  }
+
+  async listInvitations(organizationId: string): Promise<InvitationRecord[]> {
+    return this.listPending(invitation => invitation.organizationId === organizationId);
+  }
+
+  async listInvitationsForEmail(email: string): Promise<InvitationRecord[]> {
+    const normalized = email.toLowerCase();
+    return this.listPending(invitation => invitation.email === normalized);
+  }
+
+  async deleteInvitation(id: string): Promise<boolean> {
+    return this.invitations.delete(id);
+  }
+
+  async findUsage(organizationId: string, monthYear: string): Promise<PooledUsage | null> {
+    const usage = this.usage.get(`${organizationId}-${monthYear}`);
+    return usage ? { ...usage } : null;
+  }
+
+  async incrementUsage(
+    organizationId: string,
+    monthYear: string,
+    delta: UsageDelta
+  ): Promise<PooledUsage> {
+    const key = `${organizationId}-${monthYear}`;
+    const usage = this.usage.get(key) || { organizationId, monthYear, rewritesCount: 0, tokensUsed: 0, costUSD: 0 };
+
+    usage.rewritesCount += delta.rewrites;
+    usage.tokensUsed += delta.tokens;
+    usage.costUSD += delta.costUSD;
+    this.usage.set(key, usage);
+
+    return { ...usage };
+  }
+
+  private listPending(matches: (invitation: InvitationRecord) => boolean): InvitationRecord[] {
+    const now = Date.now();
+
+    return Array.from(this.invitations.values())
+      .filter(invitation => matches(invitation) && invitation.expiresAt.getTime() > now)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(invitation => ({ ...invitation }));
+  }
+}
+
+export const organizationRepository: OrganizationRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresOrganizationRepository()
+    : new InMemoryOrganizationRepository();
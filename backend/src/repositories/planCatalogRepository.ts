@@ -0,0 +1,54 @@
+import { PlanCatalog } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query } from '../config/database';
+
+export interface PlanCatalogRepository {
+  /** The stored catalog, or null until an admin has saved one */
+  get(): Promise<PlanCatalog | null>;
+  /** Stores the catalog and stamps `updatedAt` */
+  save(catalog: PlanCatalog, updatedBy: string): Promise<PlanCatalog>;
+}
+
+export class PostgresPlanCatalogRepository implements PlanCatalogRepository {
+  async get(): Promise<PlanCatalog | null> {
+    const rows = await query<{ catalog: PlanCatalog; updated_at: Date }>(
+      'SELECT catalog, updated_at FROM plan_catalog WHERE id = 1'
+    );
+    return rows[0] ? { ...rows[0].catalog, updatedAt: rows[0].updated_at.toISOString() } : null;
+  }
+
+  async save(catalog: PlanCatalog, updatedBy: string): Promise<PlanCatalog> {
+    const { updatedAt: _previous, ...document } = catalog;
+    const rows = await query<{ updated_at: Date }>(
+      `INSERT INTO plan_catalog (id, catalog, updated_by, updated_at) VALUES (1, $1, $2, CURRENT_TIMESTAMP)
+       ON CONFLICT (id) DO UPDATE SET
+         catalog = EXCLUDED.catalog,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = EXCLUDED.updated_at
+       RETURNING updated_at`,
+      [JSON.stringify(document), updatedBy]
+    );
+    return { ...document, updatedAt: rows[0].updated_at.toISOString() };
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryPlanCatalogRepository implements PlanCatalogRepository {
+  private catalog: PlanCatalog | null = null;
+
+  async get(): Promise<PlanCatalog | null> {
+    return this.catalog;
+  }
+
+  async save(catalog: PlanCatalog, _updatedBy: string): Promise<PlanCatalog> {
+    this.catalog = { ...catalog, updatedAt: new Date().toISOString() };
+    return this.catalog;
+  }
+}
+
+export const planCatalogRepository: PlanCatalogRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresPlanCatalogRepository()
+    : new InMemoryPlanCatalogRepository();
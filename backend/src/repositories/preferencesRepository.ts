@@ -0,0 +1,57 @@
+import { config } from '../config/environment';
+import { query } from '../config/database';
+
+export type UserPreferences = Record<string, any>;
+
+export interface PreferencesRepository {
+  /** Stored preferences, or null when the user has never saved any */
+  get(userId: string): Promise<UserPreferences | null>;
+  save(userId: string, preferences: UserPreferences): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+export class PostgresPreferencesRepository implements PreferencesRepository {
+  async get(userId: string): Promise<UserPreferences | null> {
+    const rows = await query<{ preferences: UserPreferences }>(
+      'SELECT preferences FROM user_preferences WHERE user_id = $1',
+      [userId]
+    );
+    return rows[0] ? rows[0].preferences : null;
+  }
+
+  async save(userId: string, preferences: UserPreferences): Promise<void> {
+    await query(
+      `INSERT INTO user_preferences (user_id, preferences) VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE SET preferences = EXCLUDED.preferences`,
+      [userId, JSON.stringify(preferences)]
+    );
+  }
+
+  async delete(userId: string): Promise<void> {
+    await query('DELETE FROM user_preferences WHERE user_id = $1', [userId]);
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryPreferencesRepository implements PreferencesRepository {
+  private preferences = new Map<string, UserPreferences>();
+
+  async get(userId: string): Promise<UserPreferences | null> {
+    return this.preferences.get(userId) || null;
+  }
+
+  async save(userId: string, preferences: UserPreferences): Promise<void> {
+    this.preferences.set(userId, preferences);
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.preferences.delete(userId);
+  }
+}
+
+export const preferencesRepository: PreferencesRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresPreferencesRepository()
+    : new InMemoryPreferencesRepository();
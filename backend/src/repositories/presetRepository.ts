@@ -0,0 +1,208 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TonePreset, Guardrails } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query, UUID_PATTERN } from '../config/database';
+
+export interface PresetInput {
+  name: string;
+  description: string;
+  sliderValues: Record<string, number>;
+  guardrails?: Guardrails;
+  model?: string;
+  tags: string[];
+  public: boolean;
+}
+
+// Fields left out are unchanged; null clears the guardrails or model default
+export type PresetChanges = Partial<Omit<PresetInput, 'guardrails' | 'model'>> & {
+  guardrails?: Guardrails | null;
+  model?: string | null;
+};
+
+export interface PresetRepository {
+  findById(id: string): Promise<TonePreset | null>;
+  /**
+   * Presets the user created plus every public preset created by a user. Owner-less rows are
+   * the copies of the built-ins seeded by 001, which are served from DEFAULT_PRESETS instead.
+   */
+  listVisibleTo(userId: string): Promise<TonePreset[]>;
+  listByOwner(userId: string): Promise<TonePreset[]>;
+  create(creatorId: string, input: PresetInput): Promise<TonePreset>;
+  update(id: string, changes: PresetChanges): Promise<TonePreset | null>;
+  delete(id: string): Promise<boolean>;
+  incrementUsage(id: string): Promise<void>;
+}
+
+interface PresetRow {
+  id: string;
+  name: string;
+  description: string | null;
+  user_id: string | null;
+  is_public: boolean;
+  slider_values: Record<string, number>;
+  guardrails: Guardrails | null;
+  preferred_model: string | null;
+  tags: string[] | null;
+  usage_count: number;
+}
+
+function fromRow(row: PresetRow): TonePreset {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    sliderValues: row.slider_values,
+    guardrails: row.guardrails || undefined,
+    model: row.preferred_model || undefined,
+    creator: row.user_id || undefined,
+    public: row.is_public,
+    tags: row.tags || [],
+    usage_count: row.usage_count
+  };
+}
+
+export class PostgresPresetRepository implements PresetRepository {
+  async findById(id: string): Promise<TonePreset | null> {
+    // Built-in preset IDs ("business") aren't UUIDs and would be a cast error
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const rows = await query<PresetRow>('SELECT * FROM presets WHERE id = $1', [id]);
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async listVisibleTo(userId: string): Promise<TonePreset[]> {
+    const rows = await query<PresetRow>(
+      `SELECT * FROM presets WHERE user_id = $1 OR (is_public = TRUE AND user_id IS NOT NULL)
+       ORDER BY usage_count DESC, name`,
+      [userId]
+    );
+    return rows.map(fromRow);
+  }
+
+  async listByOwner(userId: string): Promise<TonePreset[]> {
+    const rows = await query<PresetRow>(
+      'SELECT * FROM presets WHERE user_id = $1 ORDER BY name',
+      [userId]
+    );
+    return rows.map(fromRow);
+  }
+
+  async create(creatorId: string, input: PresetInput): Promise<TonePreset> {
+    const rows = await query<PresetRow>(
+      `INSERT INTO presets (name, description, user_id, is_public, slider_values, guardrails, preferred_model, tags)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+      [
+        input.name,
+        input.description,
+        creatorId,
+        input.public,
+        JSON.stringify(input.sliderValues),
+        input.guardrails ? JSON.stringify(input.guardrails) : null,
+        input.model ?? null,
+        input.tags
+      ]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async update(id: string, changes: PresetChanges): Promise<TonePreset | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const columns: Record<keyof PresetChanges, [string, (value: any) => unknown]> = {
+      name: ['name', value => value],
+      description: ['description', value => value],
+      public: ['is_public', value => value],
+      sliderValues: ['slider_values', value => JSON.stringify(value)],
+      tags: ['tags', value => value],
+      guardrails: ['guardrails', value => value === null ? null : JSON.stringify(value)],
+      model: ['preferred_model', value => value]
+    };
+
+    // Only the fields present are written, so an explicit null clears a column
+    const assignments: string[] = [];
+    const params: unknown[] = [id];
+    (Object.keys(columns) as (keyof PresetChanges)[]).forEach(field => {
+      if (changes[field] === undefined) return;
+
+      const [column, toParam] = columns[field];
+      params.push(toParam(changes[field]));
+      assignments.push(`${column} = $${params.length}`);
+    });
+
+    const rows = assignments.length > 0
+      ? await query<PresetRow>(`UPDATE presets SET ${assignments.join(', ')} WHERE id = $1 RETURNING *`, params)
+      : await query<PresetRow>('SELECT * FROM presets WHERE id = $1', params);
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const rows = await query('DELETE FROM presets WHERE id = $1 RETURNING id', [id]);
+    return rows.length > 0;
+  }
+
+  async incrementUsage(id: string): Promise<void> {
+    if (!UUID_PATTERN.test(id)) return;
+    await query('UPDATE presets SET usage_count = usage_count + 1 WHERE id = $1', [id]);
+  }
+}
+
+export class InMemoryPresetRepository implements PresetRepository {
+  private presets = new Map<string, TonePreset>();
+
+  async findById(id: string): Promise<TonePreset | null> {
+    return this.presets.get(id) || null;
+  }
+
+  async listVisibleTo(userId: string): Promise<TonePreset[]> {
+    return [...this.presets.values()]
+      .filter(preset => preset.creator === userId || (preset.public && preset.creator !== undefined))
+      .sort((a, b) => (b.usage_count || 0) - (a.usage_count || 0) || a.name.localeCompare(b.name));
+  }
+
+  async listByOwner(userId: string): Promise<TonePreset[]> {
+    return [...this.presets.values()]
+      .filter(preset => preset.creator === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async create(creatorId: string, input: PresetInput): Promise<TonePreset> {
+    const preset: TonePreset = {
+      id: uuidv4(),
+      ...input,
+      creator: creatorId,
+      usage_count: 0
+    };
+    this.presets.set(preset.id, preset);
+    return preset;
+  }
+
+  async update(id: string, changes: PresetChanges): Promise<TonePreset | null> {
+    const existing = this.presets.get(id);
+    if (!existing) return null;
+
+    const updated: TonePreset = {
+      ...existing,
+      ...changes,
+      guardrails: changes.guardrails === undefined ? existing.guardrails : changes.guardrails ?? undefined,
+      model: changes.model === undefined ? existing.model : changes.model ?? undefined
+    };
+    this.presets.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.presets.delete(id);
+  }
+
+  async incrementUsage(id: string): Promise<void> {
+    const preset = this.presets.get(id);
+    if (preset) {
+      preset.usage_count = (preset.usage_count || 0) + 1;
+    }
+  }
+}
+
+export const presetRepository: PresetRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresPresetRepository()
+    : new InMemoryPresetRepository();
@@ -0,0 +1,57 @@
+import { QuotaMetric } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query } from '../config/database';
+
+export interface QuotaNotificationRepository {
+  /**
+   * Record that `subject` crossed `threshold` this month. Resolves true only for the first
+   * caller, so concurrent requests and replicas notify once.
+   */
+  claim(subject: string, monthYear: string, metric: QuotaMetric, threshold: number): Promise<boolean>;
+  /** Forget the month's claims for `subject`, so its thresholds are announced again */
+  release(subject: string, monthYear: string): Promise<void>;
+}
+
+export class PostgresQuotaNotificationRepository implements QuotaNotificationRepository {
+  async claim(subject: string, monthYear: string, metric: QuotaMetric, threshold: number): Promise<boolean> {
+    const rows = await query(
+      `INSERT INTO quota_notifications (subject, month_year, metric, threshold) VALUES ($1, $2, $3, $4)
+       ON CONFLICT DO NOTHING RETURNING subject`,
+      [subject, monthYear, metric, threshold]
+    );
+    return rows.length > 0;
+  }
+
+  async release(subject: string, monthYear: string): Promise<void> {
+    await query('DELETE FROM quota_notifications WHERE subject = $1 AND month_year = $2', [subject, monthYear]);
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryQuotaNotificationRepository implements QuotaNotificationRepository {
+  private claimed = new Set<string>();
+
+  async claim(subject: string, monthYear: string, metric: QuotaMetric, threshold: number): Promise<boolean> {
+    const key = `${subject}-${monthYear}-${metric}-${threshold}`;
+    if (this.claimed.has(key)) return false;
+
+    this.claimed.add(key);
+    return true;
+  }
+
+  async release(subject: string, monthYear: string): Promise<void> {
+    const prefix = `${subject}-${monthYear}-`;
+    for (const key of this.claimed) {
+      if (key.startsWith(prefix)) {
+        this.claimed.delete(key);
+      }
+    }
+  }
+}
+
+export const quotaNotificationRepository: QuotaNotificationRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresQuotaNotificationRepository()
+    : new InMemoryQuotaNotificationRepository();
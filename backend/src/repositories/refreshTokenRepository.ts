@@ -0,0 +1,110 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/environment';
+import { query } from '../config/database';
+
+export interface RefreshTokenRecord {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+export interface RefreshTokenRepository {
+  create(userId: string, tokenHash: string, expiresAt: Date): Promise<RefreshTokenRecord>;
+  findByHash(tokenHash: string): Promise<RefreshTokenRecord | null>;
+  /**
+   * Revoke a token if it is still live. Resolves true only for the call that revoked it,
+   * so concurrent refreshes with the same token can't both succeed.
+   */
+  revoke(id: string): Promise<boolean>;
+  /** Revoke every outstanding token for the user, e.g. "log out everywhere" */
+  revokeAllForUser(userId: string): Promise<void>;
+}
+
+interface RefreshTokenRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  revoked_at: Date | null;
+}
+
+function fromRow(row: RefreshTokenRow): RefreshTokenRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tokenHash: row.token_hash,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at || undefined
+  };
+}
+
+export class PostgresRefreshTokenRepository implements RefreshTokenRepository {
+  async create(userId: string, tokenHash: string, expiresAt: Date): Promise<RefreshTokenRecord> {
+    const rows = await query<RefreshTokenRow>(
+      `INSERT INTO refresh_tokens (user_id, token_hash, expires_at)
+       VALUES ($1, $2, $3) RETURNING *`,
+      [userId, tokenHash, expiresAt]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const rows = await query<RefreshTokenRow>('SELECT * FROM refresh_tokens WHERE token_hash = $1', [tokenHash]);
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    const rows = await query(
+      'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE id = $1 AND revoked_at IS NULL RETURNING id',
+      [id]
+    );
+    return rows.length > 0;
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    await query(
+      'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL',
+      [userId]
+    );
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryRefreshTokenRepository implements RefreshTokenRepository {
+  private tokens = new Map<string, RefreshTokenRecord>();
+
+  async create(userId: string, tokenHash: string, expiresAt: Date): Promise<RefreshTokenRecord> {
+    const record: RefreshTokenRecord = { id: uuidv4(), userId, tokenHash, expiresAt };
+    this.tokens.set(record.id, record);
+    return record;
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    return Array.from(this.tokens.values()).find(token => token.tokenHash === tokenHash) || null;
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    const token = this.tokens.get(id);
+    if (!token || token.revokedAt) return false;
+
+    token.revokedAt = new Date();
+    return true;
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    this.tokens.forEach(token => {
+      if (token.userId === userId && !token.revokedAt) {
+        token.revokedAt = new Date();
+      }
+    });
+  }
+}
+
+export const refreshTokenRepository: RefreshTokenRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresRefreshTokenRepository()
+    : new InMemoryRefreshTokenRepository();
@@ -0,0 +1,328 @@
+import { v4 as uuidv4 } from 'uuid';
+import { UsageReason, UsageBreakdown, UsageGranularity, UsageTotals } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query } from '../config/database';
+
+export interface UsageEvent {
+  id: string;
+  requestId: string;
+  userId: string;
+  model: string;
+  reason: UsageReason;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  savedUSD: number;
+  presetId?: string;
+  sliderValues?: Record<string, number>;
+  createdAt: Date;
+}
+
+export type NewUsageEvent = Omit<UsageEvent, 'id' | 'createdAt'>;
+
+// Periods and months of usage are cut in this zone, whatever the server's own
+export const USAGE_TIME_ZONE = 'UTC';
+
+export interface UsageAggregateQuery {
+  from: Date;
+  to: Date;  // Exclusive
+  granularity: UsageGranularity;
+  top: number;  // How many slider configurations and requests to rank
+}
+
+export interface UsageAggregates {
+  /** One row per period and model, oldest period first; "2024-01-31" by day, "2024-01" by month */
+  periods: (UsageTotals & { period: string; model: string })[];
+  /** Most costly first */
+  byPreset: (UsageTotals & { presetId: string | null })[];
+  /** The most costly configurations */
+  bySliders: (UsageTotals & { sliderValues: Record<string, number> })[];
+  /** The most costly requests that were charged; a request may span several calls */
+  topRequests: (UsageTotals & { requestId: string; createdAt: Date; model: string; presetId?: string })[];
+  cacheSavings: { hits: number; savedUSD: number };
+}
+
+export interface UsageLedgerRepository {
+  record(event: NewUsageEvent): Promise<UsageEvent>;
+  /** Per-reason totals for events in [from, to) */
+  summarize(userId: string, from: Date, to: Date): Promise<UsageBreakdown>;
+  /** Totals of the events in [from, to), grouped for usage history */
+  aggregate(userId: string, options: UsageAggregateQuery): Promise<UsageAggregates>;
+}
+
+interface UsageEventRow {
+  id: string;
+  request_id: string;
+  user_id: string;
+  model: string;
+  reason: UsageReason;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: string;
+  saved_usd: string;
+  preset_id: string | null;
+  slider_values: Record<string, number> | null;
+  created_at: Date;
+}
+
+function fromRow(row: UsageEventRow): UsageEvent {
+  return {
+    id: row.id,
+    requestId: row.request_id,
+    userId: row.user_id,
+    model: row.model,
+    reason: row.reason,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    costUSD: parseFloat(row.cost_usd) || 0,
+    savedUSD: parseFloat(row.saved_usd) || 0,
+    presetId: row.preset_id || undefined,
+    sliderValues: row.slider_values || undefined,
+    createdAt: row.created_at
+  };
+}
+
+interface TotalsRow {
+  calls: string;
+  input_tokens: string;
+  output_tokens: string;
+  cost_usd: string;
+  saved_usd: string;
+}
+
+const SUM_TOTALS = `COUNT(*) AS calls,
+  SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+  SUM(cost_usd) AS cost_usd, SUM(saved_usd) AS saved_usd`;
+
+function totalsFromRow(row: TotalsRow): UsageTotals {
+  return {
+    calls: parseInt(row.calls, 10),
+    inputTokens: parseInt(row.input_tokens, 10) || 0,
+    outputTokens: parseInt(row.output_tokens, 10) || 0,
+    costUSD: parseFloat(row.cost_usd) || 0,
+    savedUSD: parseFloat(row.saved_usd) || 0
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUSD: 0, savedUSD: 0 };
+}
+
+function addEvent(totals: UsageTotals, event: UsageEvent): void {
+  totals.calls++;
+  totals.inputTokens += event.inputTokens;
+  totals.outputTokens += event.outputTokens;
+  totals.costUSD += event.costUSD;
+  totals.savedUSD += event.savedUSD;
+}
+
+/**
+ * Group events by key, summing their totals; extra fields come from the first event of each group
+ */
+function groupTotals<T extends object>(
+  events: UsageEvent[],
+  keyOf: (event: UsageEvent) => string,
+  describe: (event: UsageEvent) => T
+): (UsageTotals & T)[] {
+  const groups = new Map<string, UsageTotals & T>();
+
+  events.forEach(event => {
+    const key = keyOf(event);
+    let group = groups.get(key);
+    if (!group) {
+      group = { ...describe(event), ...emptyTotals() };
+      groups.set(key, group);
+    }
+    addEvent(group, event);
+  });
+
+  return Array.from(groups.values());
+}
+
+// Same configuration regardless of key order
+function sliderKey(sliderValues?: Record<string, number>): string {
+  if (!sliderValues) return '';
+  return JSON.stringify(Object.keys(sliderValues).sort().map(key => [key, sliderValues[key]]));
+}
+
+const byCost = (a: UsageTotals, b: UsageTotals) => b.costUSD - a.costUSD;
+
+export function emptyBreakdown(): UsageBreakdown {
+  return {
+    primary: emptyTotals(),
+    retry: emptyTotals(),
+    batch: emptyTotals(),
+    cached: emptyTotals(),
+    analysis: emptyTotals()
+  };
+}
+
+export class PostgresUsageLedgerRepository implements UsageLedgerRepository {
+  async record(event: NewUsageEvent): Promise<UsageEvent> {
+    const rows = await query<UsageEventRow>(
+      `INSERT INTO usage_events
+         (request_id, user_id, model, reason, input_tokens, output_tokens, cost_usd, saved_usd, preset_id, slider_values)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+      [
+        event.requestId,
+        event.userId,
+        event.model,
+        event.reason,
+        event.inputTokens,
+        event.outputTokens,
+        event.costUSD,
+        event.savedUSD,
+        event.presetId || null,
+        event.sliderValues ? JSON.stringify(event.sliderValues) : null
+      ]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async summarize(userId: string, from: Date, to: Date): Promise<UsageBreakdown> {
+    const rows = await query<TotalsRow & { reason: UsageReason }>(
+      `SELECT reason, ${SUM_TOTALS}
+       FROM usage_events
+       WHERE user_id = $1 AND created_at >= $2 AND created_at < $3
+       GROUP BY reason`,
+      [userId, from, to]
+    );
+
+    const breakdown = emptyBreakdown();
+    rows.forEach(row => {
+      breakdown[row.reason] = totalsFromRow(row);
+    });
+    return breakdown;
+  }
+
+  async aggregate(userId: string, options: UsageAggregateQuery): Promise<UsageAggregates> {
+    const range = 'user_id = $1 AND created_at >= $2 AND created_at < $3';
+    const params = [userId, options.from, options.to];
+
+    const [periods, byPreset, bySliders, topRequests, cacheSavings] = await Promise.all([
+      query<TotalsRow & { period: string; model: string }>(
+        `SELECT to_char(date_trunc($5, created_at AT TIME ZONE $4), $6) AS period, model, ${SUM_TOTALS}
+         FROM usage_events WHERE ${range}
+         GROUP BY 1, 2 ORDER BY 1, 2`,
+        [...params, USAGE_TIME_ZONE, options.granularity, options.granularity === 'day' ? 'YYYY-MM-DD' : 'YYYY-MM']
+      ),
+      query<TotalsRow & { preset_id: string | null }>(
+        `SELECT preset_id, ${SUM_TOTALS}
+         FROM usage_events WHERE ${range}
+         GROUP BY preset_id ORDER BY SUM(cost_usd) DESC`,
+        params
+      ),
+      // JSONB equality ignores key order, so reordered sliders are one configuration
+      query<TotalsRow & { slider_values: Record<string, number> }>(
+        `SELECT slider_values, ${SUM_TOTALS}
+         FROM usage_events WHERE ${range} AND slider_values IS NOT NULL
+         GROUP BY slider_values ORDER BY SUM(cost_usd) DESC LIMIT $4`,
+        [...params, options.top]
+      ),
+      query<TotalsRow & { request_id: string; created_at: Date; model: string; preset_id: string | null }>(
+        `SELECT request_id, MIN(created_at) AS created_at, MIN(model) AS model, MIN(preset_id) AS preset_id, ${SUM_TOTALS}
+         FROM usage_events WHERE ${range}
+         GROUP BY request_id HAVING SUM(cost_usd) > 0 ORDER BY SUM(cost_usd) DESC LIMIT $4`,
+        [...params, options.top]
+      ),
+      query<{ hits: string; saved_usd: string | null }>(
+        `SELECT COUNT(*) AS hits, SUM(saved_usd) AS saved_usd
+         FROM usage_events WHERE ${range} AND reason = 'cached'`,
+        params
+      )
+    ]);
+
+    return {
+      periods: periods.map(row => ({ period: row.period, model: row.model, ...totalsFromRow(row) })),
+      byPreset: byPreset.map(row => ({ presetId: row.preset_id, ...totalsFromRow(row) })),
+      bySliders: bySliders.map(row => ({ sliderValues: row.slider_values, ...totalsFromRow(row) })),
+      topRequests: topRequests.map(row => ({
+        requestId: row.request_id,
+        createdAt: row.created_at,
+        model: row.model,
+        presetId: row.preset_id || undefined,
+        ...totalsFromRow(row)
+      })),
+      cacheSavings: {
+        hits: parseInt(cacheSavings[0]?.hits || '0', 10),
+        savedUSD: parseFloat(cacheSavings[0]?.saved_usd || '0') || 0
+      }
+    };
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryUsageLedgerRepository implements UsageLedgerRepository {
+  private events: UsageEvent[] = [];
+
+  async record(event: NewUsageEvent): Promise<UsageEvent> {
+    const stored = { id: uuidv4(), createdAt: new Date(), ...event };
+    this.events.push(stored);
+    return { ...stored };
+  }
+
+  async summarize(userId: string, from: Date, to: Date): Promise<UsageBreakdown> {
+    const breakdown = emptyBreakdown();
+
+    this.listByUser(userId, from, to).forEach(event => addEvent(breakdown[event.reason], event));
+
+    return breakdown;
+  }
+
+  async aggregate(userId: string, options: UsageAggregateQuery): Promise<UsageAggregates> {
+    const events = this.listByUser(userId, options.from, options.to);
+    // ISO strings are in UTC, the USAGE_TIME_ZONE
+    const periodLength = options.granularity === 'day' ? 10 : 7;
+    const periodOf = (event: UsageEvent) => event.createdAt.toISOString().slice(0, periodLength);
+
+    const periods = groupTotals(events, event => `${periodOf(event)} ${event.model}`, event => ({
+      period: periodOf(event),
+      model: event.model
+    })).sort((a, b) => a.period.localeCompare(b.period) || a.model.localeCompare(b.model));
+
+    const byPreset = groupTotals(events, event => event.presetId || '', event => ({
+      presetId: event.presetId || null
+    })).sort(byCost);
+
+    const bySliders = groupTotals(
+      events.filter(event => event.sliderValues),
+      event => sliderKey(event.sliderValues),
+      event => ({ sliderValues: event.sliderValues! })
+    ).sort(byCost).slice(0, options.top);
+
+    const topRequests = groupTotals(events, event => event.requestId, event => ({
+      requestId: event.requestId,
+      createdAt: event.createdAt,
+      model: event.model,
+      presetId: event.presetId
+    }))
+      .filter(request => request.costUSD > 0)
+      .sort(byCost)
+      .slice(0, options.top);
+
+    const cacheHits = events.filter(event => event.reason === 'cached');
+
+    return {
+      periods,
+      byPreset,
+      bySliders,
+      topRequests,
+      cacheSavings: {
+        hits: cacheHits.length,
+        savedUSD: cacheHits.reduce((sum, event) => sum + event.savedUSD, 0)
+      }
+    };
+  }
+
+  // Oldest first
+  private listByUser(userId: string, from: Date, to: Date): UsageEvent[] {
+    return this.events.filter(event => event.userId === userId && event.createdAt >= from && event.createdAt < to);
+  }
+}
+
+export const usageLedgerRepository: UsageLedgerRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresUsageLedgerRepository()
+    : new InMemoryUsageLedgerRepository();
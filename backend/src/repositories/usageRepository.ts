@@ -0,0 +1,157 @@
+import { QuotaTopUp } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query } from '../config/database';
+
+export interface UsageRecord {
+  userId: string;
+  monthYear: string;  // "2024-01"
+  rewritesCount: number;
+  tokensUsed: number;
+  costUSD: number;
+  topUp: QuotaTopUp;  // Granted by an admin on top of the tier's limits
+}
+
+export interface UsageDelta {
+  rewrites: number;
+  tokens: number;
+  costUSD: number;
+}
+
+export interface UsageRepository {
+  find(userId: string, monthYear: string): Promise<UsageRecord | null>;
+  /** Atomically add to the month's totals, creating the row if needed */
+  increment(userId: string, monthYear: string, delta: UsageDelta): Promise<UsageRecord>;
+  /** Add to the month's top-up, creating the row if needed */
+  addTopUp(userId: string, monthYear: string, topUp: QuotaTopUp): Promise<UsageRecord>;
+  /** Zero the month's rewrites, tokens and cost; top-ups are kept */
+  reset(userId: string, monthYear: string): Promise<UsageRecord>;
+}
+
+interface UsageRow {
+  user_id: string;
+  month_year: string;
+  rewrites_count: number;
+  tokens_used: number;
+  cost_usd: string;
+  bonus_rewrites: number;
+  bonus_budget_usd: string;
+}
+
+function fromRow(row: UsageRow): UsageRecord {
+  return {
+    userId: row.user_id,
+    monthYear: row.month_year,
+    rewritesCount: row.rewrites_count,
+    tokensUsed: row.tokens_used,
+    costUSD: parseFloat(row.cost_usd) || 0,
+    topUp: {
+      rewrites: row.bonus_rewrites || 0,
+      budgetUSD: parseFloat(row.bonus_budget_usd) || 0
+    }
+  };
+}
+
+export class PostgresUsageRepository implements UsageRepository {
+  async find(userId: string, monthYear: string): Promise<UsageRecord | null> {
+    const rows = await query<UsageRow>(
+      'SELECT * FROM user_usage WHERE user_id = $1 AND month_year = $2',
+      [userId, monthYear]
+    );
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async increment(userId: string, monthYear: string, delta: UsageDelta): Promise<UsageRecord> {
+    const rows = await query<UsageRow>(
+      `INSERT INTO user_usage (user_id, month_year, rewrites_count, tokens_used, cost_usd)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, month_year) DO UPDATE SET
+         rewrites_count = user_usage.rewrites_count + EXCLUDED.rewrites_count,
+         tokens_used = user_usage.tokens_used + EXCLUDED.tokens_used,
+         cost_usd = user_usage.cost_usd + EXCLUDED.cost_usd
+       RETURNING *`,
+      [userId, monthYear, delta.rewrites, delta.tokens, delta.costUSD]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async addTopUp(userId: string, monthYear: string, topUp: QuotaTopUp): Promise<UsageRecord> {
+    const rows = await query<UsageRow>(
+      `INSERT INTO user_usage (user_id, month_year, bonus_rewrites, bonus_budget_usd)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, month_year) DO UPDATE SET
+         bonus_rewrites = user_usage.bonus_rewrites + EXCLUDED.bonus_rewrites,
+         bonus_budget_usd = user_usage.bonus_budget_usd + EXCLUDED.bonus_budget_usd
+       RETURNING *`,
+      [userId, monthYear, topUp.rewrites, topUp.budgetUSD]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async reset(userId: string, monthYear: string): Promise<UsageRecord> {
+    const rows = await query<UsageRow>(
+      `INSERT INTO user_usage (user_id, month_year) VALUES ($1, $2)
+       ON CONFLICT (user_id, month_year) DO UPDATE SET
+         rewrites_count = 0, tokens_used = 0, cost_usd = 0
+       RETURNING *`,
+      [userId, monthYear]
+    );
+    return fromRow(rows[0]);
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryUsageRepository implements UsageRepository {
+  private usage = new Map<string, UsageRecord>();
+
+  async find(userId: string, monthYear: string): Promise<UsageRecord | null> {
+    const record = this.usage.get(`${userId}-${monthYear}`);
+    return record ? { ...record, topUp: { ...record.topUp } } : null;
+  }
+
+  async increment(userId: string, monthYear: string, delta: UsageDelta): Promise<UsageRecord> {
+    const record = this.getOrCreate(userId, monthYear);
+
+    record.rewritesCount += delta.rewrites;
+    record.tokensUsed += delta.tokens;
+    record.costUSD += delta.costUSD;
+
+    return { ...record, topUp: { ...record.topUp } };
+  }
+
+  async addTopUp(userId: string, monthYear: string, topUp: QuotaTopUp): Promise<UsageRecord> {
+    const record = this.getOrCreate(userId, monthYear);
+
+    record.topUp.rewrites += topUp.rewrites;
+    record.topUp.budgetUSD += topUp.budgetUSD;
+
+    return { ...record, topUp: { ...record.topUp } };
+  }
+
+  async reset(userId: string, monthYear: string): Promise<UsageRecord> {
+    const record = this.getOrCreate(userId, monthYear);
+
+    record.rewritesCount = 0;
+    record.tokensUsed = 0;
+    record.costUSD = 0;
+
+    return { ...record, topUp: { ...record.topUp } };
+  }
+
+  private getOrCreate(userId: string, monthYear: string): UsageRecord {
+    const key = `${userId}-${monthYear}`;
+    let record = this.usage.get(key);
+
+    if (!record) {
+      record = { userId, monthYear, rewritesCount: 0, tokensUsed: 0, costUSD: 0, topUp: { rewrites: 0, budgetUSD: 0 } };
+      this.usage.set(key, record);
+    }
+    return record;
+  }
+}
+
+export const usageRepository: UsageRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresUsageRepository()
+    : new InMemoryUsageRepository();
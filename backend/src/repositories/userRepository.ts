@@ -0,0 +1,224 @@
+import { v4 as uuidv4 } from 'uuid';
+import { User, UserRole } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query, UUID_PATTERN } from '../config/database';
+
+export type UserTier = User['tier'];
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  passwordHash: string;
+  displayName?: string;
+  tier: UserTier;
+  role: UserRole;
+  isActive: boolean;
+  createdAt: Date;
+  lastLogin?: Date;
+}
+
+export interface NewUser {
+  email: string;
+  passwordHash: string;
+  displayName?: string;
+  tier?: UserTier;
+}
+
+export interface UserSearch {
+  query?: string;       // Matched against email and display name, case-insensitively
+  tier?: UserTier;
+  role?: UserRole;
+  isActive?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface UserChanges {
+  tier?: UserTier;
+  role?: UserRole;
+  isActive?: boolean;
+}
+
+export interface UserRepository {
+  findById(id: string): Promise<UserRecord | null>;
+  /** Emails are matched case-insensitively */
+  findByEmail(email: string): Promise<UserRecord | null>;
+  create(user: NewUser): Promise<UserRecord>;
+  recordLogin(id: string): Promise<void>;
+  /** Oldest accounts first, with the number of matches before paging */
+  search(search: UserSearch): Promise<{ users: UserRecord[]; total: number }>;
+  /** Resolves null when the user doesn't exist */
+  update(id: string, changes: UserChanges): Promise<UserRecord | null>;
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  display_name: string | null;
+  tier: UserTier;
+  role: UserRole;
+  is_active: boolean;
+  created_at: Date;
+  last_login: Date | null;
+}
+
+function fromRow(row: UserRow): UserRecord {
+  return {
+    id: row.id,
+    email: row.email,
+    passwordHash: row.password_hash,
+    displayName: row.display_name || undefined,
+    tier: row.tier,
+    role: row.role,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    lastLogin: row.last_login || undefined
+  };
+}
+
+export class PostgresUserRepository implements UserRepository {
+  async findById(id: string): Promise<UserRecord | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const rows = await query<UserRow>('SELECT * FROM users WHERE id = $1', [id]);
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const rows = await query<UserRow>('SELECT * FROM users WHERE LOWER(email) = LOWER($1)', [email]);
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async create(user: NewUser): Promise<UserRecord> {
+    const rows = await query<UserRow>(
+      `INSERT INTO users (email, password_hash, display_name, tier)
+       VALUES ($1, $2, $3, $4) RETURNING *`,
+      [user.email.toLowerCase(), user.passwordHash, user.displayName ?? null, user.tier || 'free']
+    );
+    return fromRow(rows[0]);
+  }
+
+  async recordLogin(id: string): Promise<void> {
+    await query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+  }
+
+  async search(search: UserSearch): Promise<{ users: UserRecord[]; total: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (search.query) {
+      params.push(`%${search.query.replace(/[\\%_]/g, '\\$&')}%`);
+      conditions.push(`(email ILIKE $${params.length} OR display_name ILIKE $${params.length})`);
+    }
+    if (search.tier) {
+      params.push(search.tier);
+      conditions.push(`tier = $${params.length}`);
+    }
+    if (search.role) {
+      params.push(search.role);
+      conditions.push(`role = $${params.length}`);
+    }
+    if (search.isActive !== undefined) {
+      params.push(search.isActive);
+      conditions.push(`is_active = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await query<UserRow & { total: string }>(
+      `SELECT *, COUNT(*) OVER () AS total FROM users ${where}
+       ORDER BY created_at, id LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, search.limit, search.offset]
+    );
+
+    if (rows.length === 0 && search.offset > 0) {
+      const counted = await query<{ total: string }>(`SELECT COUNT(*) AS total FROM users ${where}`, params);
+      return { users: [], total: parseInt(counted[0].total, 10) };
+    }
+
+    return { users: rows.map(fromRow), total: rows[0] ? parseInt(rows[0].total, 10) : 0 };
+  }
+
+  async update(id: string, changes: UserChanges): Promise<UserRecord | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const rows = await query<UserRow>(
+      `UPDATE users SET
+         tier = COALESCE($2, tier),
+         role = COALESCE($3, role),
+         is_active = COALESCE($4, is_active),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 RETURNING *`,
+      [id, changes.tier ?? null, changes.role ?? null, changes.isActive ?? null]
+    );
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private users = new Map<string, UserRecord>();
+
+  async findById(id: string): Promise<UserRecord | null> {
+    return this.users.get(id) || null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const normalized = email.toLowerCase();
+    return Array.from(this.users.values()).find(user => user.email === normalized) || null;
+  }
+
+  async create(user: NewUser): Promise<UserRecord> {
+    const record: UserRecord = {
+      id: uuidv4(),
+      email: user.email.toLowerCase(),
+      passwordHash: user.passwordHash,
+      displayName: user.displayName,
+      tier: user.tier || 'free',
+      role: 'user',
+      isActive: true,
+      createdAt: new Date()
+    };
+    this.users.set(record.id, record);
+    return record;
+  }
+
+  async recordLogin(id: string): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      user.lastLogin = new Date();
+    }
+  }
+
+  async search(search: UserSearch): Promise<{ users: UserRecord[]; total: number }> {
+    const needle = search.query?.toLowerCase();
+    const matches = Array.from(this.users.values())
+      .filter(user =>
+        (!needle || user.email.includes(needle) || !!user.displayName?.toLowerCase().includes(needle)) &&
+        (!search.tier || user.tier === search.tier) &&
+        (!search.role || user.role === search.role) &&
+        (search.isActive === undefined || user.isActive === search.isActive)
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    return {
+      users: matches.slice(search.offset, search.offset + search.limit).map(user => ({ ...user })),
+      total: matches.length
+    };
+  }
+
+  async update(id: string, changes: UserChanges): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+
+    Object.assign(user, Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)));
+    return { ...user };
+  }
+}
+
+export const userRepository: UserRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresUserRepository()
+    : new InMemoryUserRepository();
@@ -0,0 +1,140 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NotificationEventType } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { query, UUID_PATTERN } from '../config/database';
+
+export interface WebhookRecord {
+  id: string;
+  userId: string;
+  url: string;
+  secret: string;
+  events: NotificationEventType[];
+  createdAt: Date;
+  lastDeliveryAt?: Date;
+  lastStatus?: 'delivered' | 'failed';
+}
+
+export interface NewWebhook {
+  url: string;
+  secret: string;
+  events: NotificationEventType[];
+}
+
+export interface WebhookRepository {
+  create(userId: string, webhook: NewWebhook): Promise<WebhookRecord>;
+  /** Newest first */
+  listByUser(userId: string): Promise<WebhookRecord[]>;
+  /** The user's webhooks subscribed to `event` */
+  listForEvent(userId: string, event: NotificationEventType): Promise<WebhookRecord[]>;
+  /** Returns false when the webhook doesn't exist or isn't the user's */
+  delete(userId: string, id: string): Promise<boolean>;
+  recordDelivery(id: string, status: 'delivered' | 'failed'): Promise<void>;
+}
+
+interface WebhookRow {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  events: NotificationEventType[];
+  created_at: Date;
+  last_delivery_at: Date | null;
+  last_status: 'delivered' | 'failed' | null;
+}
+
+function fromRow(row: WebhookRow): WebhookRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    url: row.url,
+    secret: row.secret,
+    events: row.events,
+    createdAt: row.created_at,
+    lastDeliveryAt: row.last_delivery_at || undefined,
+    lastStatus: row.last_status || undefined
+  };
+}
+
+export class PostgresWebhookRepository implements WebhookRepository {
+  async create(userId: string, webhook: NewWebhook): Promise<WebhookRecord> {
+    const rows = await query<WebhookRow>(
+      'INSERT INTO webhooks (user_id, url, secret, events) VALUES ($1, $2, $3, $4) RETURNING *',
+      [userId, webhook.url, webhook.secret, webhook.events]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async listByUser(userId: string): Promise<WebhookRecord[]> {
+    const rows = await query<WebhookRow>(
+      'SELECT * FROM webhooks WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return rows.map(fromRow);
+  }
+
+  async listForEvent(userId: string, event: NotificationEventType): Promise<WebhookRecord[]> {
+    const rows = await query<WebhookRow>(
+      'SELECT * FROM webhooks WHERE user_id = $1 AND $2 = ANY(events)',
+      [userId, event]
+    );
+    return rows.map(fromRow);
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    if (!UUID_PATTERN.test(id)) return false;
+
+    const rows = await query('DELETE FROM webhooks WHERE id = $1 AND user_id = $2 RETURNING id', [id, userId]);
+    return rows.length > 0;
+  }
+
+  async recordDelivery(id: string, status: 'delivered' | 'failed'): Promise<void> {
+    await query(
+      'UPDATE webhooks SET last_delivery_at = CURRENT_TIMESTAMP, last_status = $2 WHERE id = $1',
+      [id, status]
+    );
+  }
+}
+
+/**
+ * Process-local store used when no database is configured
+ */
+export class InMemoryWebhookRepository implements WebhookRepository {
+  private webhooks = new Map<string, WebhookRecord>();
+
+  async create(userId: string, webhook: NewWebhook): Promise<WebhookRecord> {
+    const record: WebhookRecord = { id: uuidv4(), userId, ...webhook, createdAt: new Date() };
+    this.webhooks.set(record.id, record);
+    return { ...record };
+  }
+
+  async listByUser(userId: string): Promise<WebhookRecord[]> {
+    return Array.from(this.webhooks.values())
+      .filter(webhook => webhook.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(webhook => ({ ...webhook }));
+  }
+
+  async listForEvent(userId: string, event: NotificationEventType): Promise<WebhookRecord[]> {
+    return (await this.listByUser(userId)).filter(webhook => webhook.events.includes(event));
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook || webhook.userId !== userId) return false;
+
+    return this.webhooks.delete(id);
+  }
+
+  async recordDelivery(id: string, status: 'delivered' | 'failed'): Promise<void> {
+    const webhook = this.webhooks.get(id);
+    if (webhook) {
+      webhook.lastDeliveryAt = new Date();
+      webhook.lastStatus = status;
+    }
+  }
+}
+
+export const webhookRepository: WebhookRepository =
+  config.database.driver === 'postgres'
+    ? new PostgresWebhookRepository()
+    : new InMemoryWebhookRepository();
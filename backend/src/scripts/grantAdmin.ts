@@ -0,0 +1,47 @@
+import os from 'os';
+import { config } from '../config/environment';
+import { closePool } from '../config/database';
+import { logger } from '../config/logger';
+import { userRepository } from '../repositories/userRepository';
+import { adminAuditRepository } from '../repositories/adminAuditRepository';
+
+/**
+ * Give an existing account the admin role: `npm run grant-admin -- <email>`.
+ * This is how the first admin is made; after that, admins promote others through the API.
+ * Sign-up doesn't verify addresses, so check the account is the person you expect first.
+ */
+async function main() {
+  const email = process.argv[2];
+  if (!email) {
+    throw new Error('Usage: npm run grant-admin -- <email>');
+  }
+  if (config.database.driver !== 'postgres') {
+    throw new Error('No database is configured; set DATABASE_URL');
+  }
+
+  const user = await userRepository.findByEmail(email);
+  if (!user) {
+    throw new Error(`No account registered with ${email}`);
+  }
+  if (user.role === 'admin') {
+    logger.info('Account is already an admin', { userId: user.id });
+    return;
+  }
+
+  await userRepository.update(user.id, { role: 'admin' });
+  await adminAuditRepository.record({
+    actorEmail: `cli:${os.userInfo().username}`,
+    action: 'user.update',
+    targetUserId: user.id,
+    details: { changes: { role: { from: user.role, to: 'admin' } }, note: 'Granted with grant-admin' }
+  });
+
+  logger.info('Admin role granted', { userId: user.id });
+}
+
+main()
+  .catch(error => {
+    logger.error('Unable to grant admin role', { error: error.message });
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -0,0 +1,23 @@
+import { runMigrations } from '../config/migrations';
+import { closePool } from '../config/database';
+import { logger } from '../config/logger';
+
+/**
+ * Apply pending database migrations: `npm run migrate`
+ */
+async function main() {
+  const applied = await runMigrations();
+
+  if (applied.length === 0) {
+    logger.info('No pending migrations');
+  } else {
+    logger.info(`Applied ${applied.length} migration(s)`, { versions: applied });
+  }
+}
+
+main()
+  .catch(error => {
+    logger.error('Migration failed', { error: error.message });
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -0,0 +1,189 @@
+import { AdminAction, AdminAuditEntry, AdminUserSummary, QuotaTopUp } from '@tone-slyder/shared/types';
+import { logger } from '../config/logger';
+import { userRepository, UserRecord, UserSearch, UserChanges } from '../repositories/userRepository';
+import { UsageRecord } from '../repositories/usageRepository';
+import { adminAuditRepository, AuditFilter, AuditRecord } from '../repositories/adminAuditRepository';
+import { authService } from './authService';
+import { meteringService } from './meteringService';
+
+/**
+ * Failure that maps directly onto an HTTP response
+ */
+export class AdminError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'AdminError';
+  }
+}
+
+// The signed-in admin making a change
+export interface AdminActor {
+  id: string;
+  email: string;
+}
+
+function toSummary(user: UserRecord): AdminUserSummary {
+  return {
+    id: user.id,
+    email: user.email,
+    displayName: user.displayName,
+    tier: user.tier,
+    role: user.role,
+    isActive: user.isActive,
+    createdAt: user.createdAt.toISOString(),
+    lastLogin: user.lastLogin?.toISOString()
+  };
+}
+
+function toAuditEntry(record: AuditRecord): AdminAuditEntry {
+  return {
+    id: record.id,
+    actorId: record.actorId,
+    actorEmail: record.actorEmail,
+    action: record.action,
+    targetUserId: record.targetUserId,
+    details: record.details,
+    createdAt: record.createdAt.toISOString()
+  };
+}
+
+function toMonthTotals(record: UsageRecord) {
+  return {
+    monthYear: record.monthYear,
+    rewrites: record.rewritesCount,
+    tokens: record.tokensUsed,
+    cost: record.costUSD,
+    topUp: record.topUp
+  };
+}
+
+/**
+ * Admin Service
+ * Support operations on user accounts. Every change is written to the audit log, with the
+ * optional note the admin gave, before it is reported as done.
+ */
+class AdminService {
+  async listUsers(search: UserSearch): Promise<{ users: AdminUserSummary[]; total: number }> {
+    const { users, total } = await userRepository.search(search);
+    return { users: users.map(toSummary), total };
+  }
+
+  /**
+   * The account and its usage this month, as the user sees it at /api/usage
+   */
+  async getUser(userId: string) {
+    const user = await this.findUser(userId);
+    const stats = await meteringService.getUserUsage(user.id, user.tier);
+
+    return {
+      ...toSummary(user),
+      usage: {
+        ...toMonthTotals(stats.usage),
+        effectiveTier: stats.usage.tier,
+        limits: {
+          monthlyRewrites: stats.limits.monthlyRewrites,
+          monthlyBudgetUSD: stats.limits.monthlyBudgetUSD,
+          rateLimitPerHour: stats.limits.rateLimitPerHour
+        },
+        utilization: stats.utilization,
+        organization: stats.organization ? {
+          id: stats.organization.organization.id,
+          name: stats.organization.organization.name,
+          role: stats.organization.member.role
+        } : null
+      }
+    };
+  }
+
+  /**
+   * Change tier, role or whether the account may sign in. Disabling also ends the user's
+   * sessions; their access tokens and API keys stop working immediately.
+   */
+  async updateUser(actor: AdminActor, userId: string, changes: UserChanges, note?: string): Promise<AdminUserSummary> {
+    const user = await this.findUser(userId);
+
+    if (user.id === actor.id && (changes.isActive === false || changes.role === 'user')) {
+      throw new AdminError('cannot_modify_self', 'You cannot disable your own account or remove your own admin role', 409);
+    }
+
+    const previous: Required<UserChanges> = { tier: user.tier, role: user.role, isActive: user.isActive };
+    const updated = await userRepository.update(user.id, changes);
+    if (!updated) {
+      throw new AdminError('user_not_found', 'User not found', 404);
+    }
+
+    if (changes.isActive === false && previous.isActive) {
+      await authService.logout(user.id, undefined, true);
+    }
+
+    const changed = (Object.keys(changes) as (keyof UserChanges)[])
+      .filter(field => changes[field] !== undefined && changes[field] !== previous[field]);
+    await this.audit(actor, 'user.update', user.id, {
+      changes: Object.fromEntries(changed.map(field => [field, { from: previous[field], to: updated[field] }])),
+      note
+    });
+
+    return toSummary(updated);
+  }
+
+  /**
+   * Extra rewrites and/or budget for the current month only
+   */
+  async grantTopUp(actor: AdminActor, userId: string, topUp: QuotaTopUp, note?: string) {
+    if (topUp.rewrites <= 0 && topUp.budgetUSD <= 0) {
+      throw new AdminError('empty_top_up', 'A top-up must add rewrites or budget');
+    }
+
+    const user = await this.findUser(userId);
+    const record = await meteringService.grantTopUp(user.id, topUp);
+
+    await this.audit(actor, 'user.top_up', user.id, { monthYear: record.monthYear, ...topUp, note });
+    return toMonthTotals(record);
+  }
+
+  async resetUsage(actor: AdminActor, userId: string, note?: string) {
+    const user = await this.findUser(userId);
+    const before = await meteringService.getUserUsage(user.id, user.tier);
+    const record = await meteringService.resetUsage(user.id);
+
+    await this.audit(actor, 'user.reset_usage', user.id, {
+      monthYear: record.monthYear,
+      previous: { rewrites: before.usage.rewritesCount, tokens: before.usage.tokensUsed, cost: before.usage.costUSD },
+      note
+    });
+    return toMonthTotals(record);
+  }
+
+  async listAudit(filter: AuditFilter): Promise<AdminAuditEntry[]> {
+    return (await adminAuditRepository.list(filter)).map(toAuditEntry);
+  }
+
+  /**
+   * Record an administrative change. Also used for changes made through other services,
+   * such as plan catalog edits.
+   */
+  async audit(
+    actor: AdminActor,
+    action: AdminAction,
+    targetUserId: string | undefined,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await adminAuditRepository.record({ actorId: actor.id, actorEmail: actor.email, action, targetUserId, details });
+
+    logger.info('Admin action', { actorId: actor.id, action, targetUserId });
+  }
+
+  private async findUser(userId: string): Promise<UserRecord> {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new AdminError('user_not_found', 'User not found', 404);
+    }
+    return user;
+  }
+}
+
+export const adminService = new AdminService();
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { userRepository } from '../repositories/userRepository';
+import { refreshTokenRepository } from '../repositories/refreshTokenRepository';
+import { authService, AuthError } from './authService';
+
+const PASSWORD = 'correct horse battery staple';
+
+function register() {
+  return authService.register(`${uuidv4()}@example.com`, PASSWORD);
+}
+
+async function expectAuthError(promise: Promise<unknown>, code: string): Promise<void> {
+  await expect(promise).rejects.toBeInstanceOf(AuthError);
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe('authService sessions', () => {
+  it('issues an access token that resolves to the new user', async () => {
+    const session = await register();
+
+    const user = await authService.verifyAccessToken(session.accessToken);
+    expect(user).toEqual(session.user);
+    expect(user.tier).toBe('free');
+  });
+
+  it('refuses a second account with the same email', async () => {
+    const session = await register();
+
+    await expectAuthError(authService.register(session.user.email, PASSWORD), 'email_taken');
+  });
+
+  it('gives the same answer for unknown emails and wrong passwords', async () => {
+    const session = await register();
+
+    await expectAuthError(authService.login(session.user.email, 'wrong password'), 'invalid_credentials');
+    await expectAuthError(authService.login(`${uuidv4()}@example.com`, PASSWORD), 'invalid_credentials');
+  });
+
+  it('refuses access tokens of disabled accounts', async () => {
+    const session = await register();
+    await userRepository.update(session.user.id, { isActive: false });
+
+    await expectAuthError(authService.verifyAccessToken(session.accessToken), 'invalid_token');
+  });
+});
+
+describe('authService.refresh', () => {
+  it('rotates the refresh token', async () => {
+    const session = await register();
+
+    const refreshed = await authService.refresh(session.refreshToken);
+
+    expect(refreshed.refreshToken).not.toBe(session.refreshToken);
+    expect(refreshed.user.id).toBe(session.user.id);
+    await expect(authService.refresh(refreshed.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('treats reuse of a rotated token as theft and ends every session', async () => {
+    const session = await register();
+    const other = await authService.login(session.user.email, PASSWORD);
+    const rotated = await authService.refresh(session.refreshToken);
+
+    await expectAuthError(authService.refresh(session.refreshToken), 'invalid_refresh_token');
+
+    await expectAuthError(authService.refresh(rotated.refreshToken), 'invalid_refresh_token');
+    await expectAuthError(authService.refresh(other.refreshToken), 'invalid_refresh_token');
+  });
+
+  it('lets only one of two concurrent refreshes with the same token through', async () => {
+    const session = await register();
+
+    const results = await Promise.allSettled([
+      authService.refresh(session.refreshToken),
+      authService.refresh(session.refreshToken)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+  });
+
+  it('refuses unknown and expired tokens', async () => {
+    const session = await register();
+    const expired = crypto.randomBytes(48).toString('base64url');
+    await refreshTokenRepository.create(
+      session.user.id,
+      crypto.createHash('sha256').update(expired).digest('hex'),
+      new Date(Date.now() - 1000)
+    );
+
+    await expectAuthError(authService.refresh('not-a-token'), 'invalid_refresh_token');
+    await expectAuthError(authService.refresh(expired), 'refresh_token_expired');
+  });
+
+  it('refuses tokens revoked by logout', async () => {
+    const session = await register();
+
+    await authService.logout(session.user.id, session.refreshToken);
+
+    await expectAuthError(authService.refresh(session.refreshToken), 'invalid_refresh_token');
+  });
+
+  it('refuses tokens of disabled accounts', async () => {
+    const session = await register();
+    await userRepository.update(session.user.id, { isActive: false });
+
+    await expectAuthError(authService.refresh(session.refreshToken), 'invalid_refresh_token');
+  });
+});
@@ -0,0 +1,245 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AuthSession, AuthUser, ApiKeyScope, ApiKeySummary, CreatedApiKey } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { logger } from '../config/logger';
+import { userRepository, UserRecord } from '../repositories/userRepository';
+import { refreshTokenRepository } from '../repositories/refreshTokenRepository';
+import { apiKeyRepository, ApiKeyRecord } from '../repositories/apiKeyRepository';
+
+const BCRYPT_ROUNDS = 12;
+
+// Recognisable prefix so keys can be told apart from JWTs and found by secret scanners
+export const API_KEY_PREFIX = 'tsk_';
+
+interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  tier: AuthUser['tier'];
+}
+
+/**
+ * Failure that maps directly onto an HTTP response
+ */
+export class AuthError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status: number = 401
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toAuthUser(user: UserRecord): AuthUser {
+  return {
+    id: user.id,
+    email: user.email,
+    displayName: user.displayName,
+    tier: user.tier,
+    role: user.role
+  };
+}
+
+function toApiKeySummary(key: ApiKeyRecord): ApiKeySummary {
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.keyPrefix,
+    scopes: key.scopes,
+    createdAt: key.createdAt.toISOString(),
+    lastUsedAt: key.lastUsedAt?.toISOString()
+  };
+}
+
+/**
+ * Authentication Service
+ * Password hashing, signed access tokens, rotating refresh tokens and API keys
+ */
+class AuthService {
+  async register(email: string, password: string, displayName?: string): Promise<AuthSession> {
+    const existing = await userRepository.findByEmail(email);
+    if (existing) {
+      throw new AuthError('email_taken', 'An account with this email already exists', 409);
+    }
+
+    const user = await userRepository.create({
+      email,
+      passwordHash: await bcrypt.hash(password, BCRYPT_ROUNDS),
+      displayName
+    });
+
+    logger.info('User registered', { userId: user.id });
+
+    return this.issueSession(user);
+  }
+
+  async login(email: string, password: string): Promise<AuthSession> {
+    const user = await userRepository.findByEmail(email);
+
+    // Same answer for unknown emails and wrong passwords
+    if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+      throw new AuthError('invalid_credentials', 'Invalid email or password');
+    }
+    if (!user.isActive) {
+      throw new AuthError('account_disabled', 'This account has been disabled', 403);
+    }
+
+    await userRepository.recordLogin(user.id);
+    logger.info('User logged in', { userId: user.id });
+
+    return this.issueSession(user);
+  }
+
+  /**
+   * Exchange a refresh token for a new session. Each refresh token is single-use:
+   * presenting a revoked one revokes every session of that user.
+   */
+  async refresh(refreshToken: string): Promise<AuthSession> {
+    const stored = await refreshTokenRepository.findByHash(hashToken(refreshToken));
+
+    if (!stored) {
+      throw new AuthError('invalid_refresh_token', 'Refresh token is invalid');
+    }
+    if (stored.expiresAt.getTime() <= Date.now() && !stored.revokedAt) {
+      throw new AuthError('refresh_token_expired', 'Refresh token has expired');
+    }
+
+    // Revoking is the check: only one of several concurrent refreshes gets the token
+    if (stored.revokedAt || !(await refreshTokenRepository.revoke(stored.id))) {
+      logger.warn('Revoked refresh token reused', { userId: stored.userId });
+      await refreshTokenRepository.revokeAllForUser(stored.userId);
+      throw new AuthError('invalid_refresh_token', 'Refresh token is invalid');
+    }
+
+    const user = await userRepository.findById(stored.userId);
+    if (!user || !user.isActive) {
+      throw new AuthError('invalid_refresh_token', 'Refresh token is invalid');
+    }
+
+    return this.issueSession(user);
+  }
+
+  /**
+   * Revoke a refresh token, or all of the user's tokens when `everywhere` is set
+   */
+  async logout(userId: string, refreshToken?: string, everywhere = false): Promise<void> {
+    if (everywhere) {
+      await refreshTokenRepository.revokeAllForUser(userId);
+    } else if (refreshToken) {
+      const stored = await refreshTokenRepository.findByHash(hashToken(refreshToken));
+      if (stored && stored.userId === userId) {
+        await refreshTokenRepository.revoke(stored.id);
+      }
+    }
+
+    logger.info('User logged out', { userId, everywhere });
+  }
+
+  /**
+   * Resolve an access token to its (still active) user
+   */
+  async verifyAccessToken(token: string): Promise<AuthUser> {
+    let payload: AccessTokenPayload;
+
+    try {
+      payload = jwt.verify(token, config.jwt.secret) as unknown as AccessTokenPayload;
+    } catch (error: any) {
+      if (error.name === 'TokenExpiredError') {
+        throw new AuthError('token_expired', 'Access token has expired');
+      }
+      throw new AuthError('invalid_token', 'Access token is invalid');
+    }
+
+    // Re-read the user so disabled accounts and tier changes apply immediately
+    const user = await userRepository.findById(payload.sub);
+    if (!user || !user.isActive) {
+      throw new AuthError('invalid_token', 'Access token is invalid');
+    }
+
+    return toAuthUser(user);
+  }
+
+  /**
+   * Mint a personal API key. The plain key is only ever returned here.
+   */
+  async createApiKey(userId: string, name: string, scopes: ApiKeyScope[] = []): Promise<CreatedApiKey> {
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const record = await apiKeyRepository.create(userId, {
+      name,
+      keyPrefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: hashToken(key),
+      scopes
+    });
+
+    logger.info('API key created', { userId, apiKeyId: record.id, scopes });
+
+    return { ...toApiKeySummary(record), key };
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeySummary[]> {
+    const keys = await apiKeyRepository.listByUser(userId);
+    return keys.map(toApiKeySummary);
+  }
+
+  async revokeApiKey(userId: string, id: string): Promise<boolean> {
+    const revoked = await apiKeyRepository.revoke(userId, id);
+    if (revoked) {
+      logger.info('API key revoked', { userId, apiKeyId: id });
+    }
+    return revoked;
+  }
+
+  /**
+   * Resolve an API key to its owner and scopes, recording when it was last used
+   */
+  async verifyApiKey(key: string): Promise<{ user: AuthUser; apiKeyId: string; scopes: ApiKeyScope[] }> {
+    const record = await apiKeyRepository.findByHash(hashToken(key));
+    if (!record || record.revokedAt) {
+      throw new AuthError('invalid_api_key', 'API key is invalid or revoked');
+    }
+
+    const user = await userRepository.findById(record.userId);
+    if (!user || !user.isActive) {
+      throw new AuthError('invalid_api_key', 'API key is invalid or revoked');
+    }
+
+    apiKeyRepository.touch(record.id).catch(error => {
+      logger.warn('Failed to record API key use', { apiKeyId: record.id, error: error.message });
+    });
+
+    return { user: toAuthUser(user), apiKeyId: record.id, scopes: record.scopes };
+  }
+
+  async getUser(userId: string): Promise<AuthUser | null> {
+    const user = await userRepository.findById(userId);
+    return user ? toAuthUser(user) : null;
+  }
+
+  private async issueSession(user: UserRecord): Promise<AuthSession> {
+    const payload: AccessTokenPayload = { sub: user.id, email: user.email, tier: user.tier };
+    const accessToken = jwt.sign(payload, config.jwt.secret, {
+      expiresIn: config.jwt.expiresIn
+    } as jwt.SignOptions);
+
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    const expiresAt = new Date(Date.now() + config.jwt.refreshTtlDays * 24 * 60 * 60 * 1000);
+    await refreshTokenRepository.create(user.id, hashToken(refreshToken), expiresAt);
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: config.jwt.expiresIn,
+      user: toAuthUser(user)
+    };
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
@@ -0,0 +1,81 @@
+import Redis from 'ioredis';
+import * as redis from '../config/redis';
+import { CacheService, InMemoryCacheStore, RedisCacheStore } from './cacheService';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('InMemoryCacheStore', () => {
+  it('evicts the least recently used entry once full', async () => {
+    const store = new InMemoryCacheStore(2);
+    await store.set('a', 'first', 60);
+    await store.set('b', 'second', 60);
+
+    await store.get('a');
+    await store.set('c', 'third', 60);
+
+    expect(await store.get('a')).toBe('first');
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('c')).toBe('third');
+  });
+
+  it('counts a rewritten entry as recently used', async () => {
+    const store = new InMemoryCacheStore(2);
+    await store.set('a', 'first', 60);
+    await store.set('b', 'second', 60);
+
+    await store.set('a', 'updated', 60);
+    await store.set('c', 'third', 60);
+
+    expect(await store.get('a')).toBe('updated');
+    expect(await store.get('b')).toBeNull();
+  });
+
+  it('expires entries after their TTL', async () => {
+    const store = new InMemoryCacheStore(10);
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    await store.set('short', 'gone soon', 1);
+    await store.set('long', 'still here', 60);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1001);
+
+    expect(await store.get('short')).toBeNull();
+    expect(await store.get('long')).toBe('still here');
+  });
+});
+
+describe('CacheService', () => {
+  // A Redis client whose every command fails, as when the server is down
+  function unreachableRedis() {
+    const refused = () => Promise.reject(new Error('connect ECONNREFUSED'));
+    jest.spyOn(redis, 'getRedis').mockReturnValue({ get: refused, set: refused } as unknown as Redis);
+  }
+
+  it('treats a failed Redis read as a miss', async () => {
+    unreachableRedis();
+    const cache = new CacheService(new RedisCacheStore(), 'redis');
+
+    expect(await cache.get('key')).toBeNull();
+    expect(cache.getStats()).toEqual({ driver: 'redis', hits: 0, misses: 1, hitRate: 0 });
+  });
+
+  it('carries on when a Redis write fails', async () => {
+    unreachableRedis();
+    const cache = new CacheService(new RedisCacheStore(), 'redis');
+
+    await expect(cache.set('key', { rewrittenText: 'Hello' })).resolves.toBeUndefined();
+  });
+
+  it('tracks the hit rate', async () => {
+    const cache = new CacheService(new InMemoryCacheStore(10), 'memory');
+    await cache.set('key', { rewrittenText: 'Hello' });
+
+    await cache.get('key');
+    await cache.get('key');
+    await cache.get('other');
+
+    expect(cache.getStats()).toEqual({ driver: 'memory', hits: 2, misses: 1, hitRate: 2 / 3 });
+  });
+});
@@ -1,17 +1,41 @@
-// Simple in-memory cache for development
-// In production, this would use Redis
+import { config } from '../config/environment';
+import { getRedis } from '../config/redis';
+import { logger } from '../config/logger';
+
+export interface CacheStore {
+  get(key: string): Promise<any | null>;
+  set(key: string, data: any, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheStats {
+  driver: 'redis' | 'memory';
+  hits: number;
+  misses: number;
+  hitRate: number;  // 0-1, 0 before any lookups
+}
 
 interface CacheEntry {
   data: any;
   expiry: number;
 }
 
-class CacheService {
+/**
+ * Process-local store bounded to `maxEntries`; the least recently used entry is evicted first
+ */
+export class InMemoryCacheStore implements CacheStore {
+  // Map iteration follows insertion order, so re-inserting on read keeps the oldest entry first
   private cache: Map<string, CacheEntry> = new Map();
 
+  constructor(private maxEntries: number) {
+    // Run cleanup every 5 minutes
+    setInterval(() => this.cleanup(), 5 * 60 * 1000).unref();
+  }
+
   async get(key: string): Promise<any | null> {
     const entry = this.cache.get(key);
-    
+
     if (!entry) {
       return null;
     }
@@ -22,16 +46,22 @@ class CacheService {
       return null;
     }
 
+    this.cache.delete(key);
+    this.cache.set(key, entry);
     return entry.data;
   }
 
-  async set(key: string, data: any, ttlSeconds: number = 600): Promise<void> {
-    const expiry = Date.now() + (ttlSeconds * 1000);
-    
+  async set(key: string, data: any, ttlSeconds: number): Promise<void> {
+    this.cache.delete(key);
     this.cache.set(key, {
       data,
-      expiry
+      expiry: Date.now() + (ttlSeconds * 1000)
     });
+
+    while (this.cache.size > this.maxEntries) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
   }
 
   async delete(key: string): Promise<void> {
@@ -51,11 +81,100 @@ class CacheService {
       }
     }
   }
+}
 
-  constructor() {
-    // Run cleanup every 5 minutes
-    setInterval(() => this.cleanup(), 5 * 60 * 1000);
+/**
+ * Store shared by every API replica; Redis handles expiry and eviction
+ */
+export class RedisCacheStore implements CacheStore {
+  private static readonly PREFIX = 'cache:';
+
+  async get(key: string): Promise<any | null> {
+    const value = await getRedis().get(RedisCacheStore.PREFIX + key);
+    return value === null ? null : JSON.parse(value);
+  }
+
+  async set(key: string, data: any, ttlSeconds: number): Promise<void> {
+    await getRedis().set(RedisCacheStore.PREFIX + key, JSON.stringify(data), 'EX', ttlSeconds);
+  }
+
+  async delete(key: string): Promise<void> {
+    await getRedis().del(RedisCacheStore.PREFIX + key);
+  }
+
+  async clear(): Promise<void> {
+    // Only our own keys; the Redis instance may be shared with other data
+    const redis = getRedis();
+    let cursor = '0';
+    do {
+      const [next, keys] = await redis.scan(cursor, 'MATCH', `${RedisCacheStore.PREFIX}*`, 'COUNT', 500);
+      if (keys.length > 0) {
+        await redis.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+}
+
+/**
+ * Response cache. Store failures are logged and treated as misses so a cache
+ * outage slows rewrites down rather than failing them.
+ */
+export class CacheService {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private store: CacheStore, private driver: 'redis' | 'memory') {}
+
+  async get(key: string): Promise<any | null> {
+    let data: any | null = null;
+
+    try {
+      data = await this.store.get(key);
+    } catch (error: any) {
+      logger.warn('Cache read failed', { driver: this.driver, error: error.message });
+    }
+
+    if (data === null) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+    return data;
+  }
+
+  async set(key: string, data: any, ttlSeconds: number = config.cache.ttlSeconds): Promise<void> {
+    try {
+      await this.store.set(key, data, ttlSeconds);
+    } catch (error: any) {
+      logger.warn('Cache write failed', { driver: this.driver, error: error.message });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Hit/miss counters for this process since startup
+   */
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+
+    return {
+      driver: this.driver,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
   }
 }
 
-export const cacheService = new CacheService();
+export const cacheService = new CacheService(
+  config.cache.driver === 'redis' ? new RedisCacheStore() : new InMemoryCacheStore(config.cache.maxEntries),
+  config.cache.driver
+);
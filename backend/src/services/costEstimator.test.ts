@@ -0,0 +1,86 @@
+import { RewriteRequest } from '@tone-slyder/shared/types';
+import { costEstimator } from './costEstimator';
+import { llmService } from './llmService';
+import { meteringService } from './meteringService';
+
+const PROMPT = 'Rewrite the text below so it reads more formally.\n\n"hey, can you send me the numbers by friday?"';
+
+function request(overrides: Partial<RewriteRequest> = {}): RewriteRequest {
+  return {
+    originalText: 'hey, can you send me the numbers by friday?',
+    sliderValues: { formality: 80 },
+    guardrails: { required: [], banned: [] },
+    model: 'gpt-3.5-turbo',
+    ...overrides
+  };
+}
+
+describe('costEstimator.estimateForPrompt', () => {
+  it('measures the prompt and the original text with the model tokenizer', () => {
+    const estimate = costEstimator.estimateForPrompt(request(), PROMPT);
+
+    expect(estimate.model).toBe('gpt-3.5-turbo');
+    expect(estimate.promptTokens).toBe(llmService.countTokens(PROMPT, 'gpt-3.5-turbo'));
+    expect(estimate.textTokens).toBe(llmService.countTokens(request().originalText, 'gpt-3.5-turbo'));
+    expect(estimate.llmCalls).toBe(1);
+  });
+
+  it('orders the projections from min to max and prices them at the model rates', () => {
+    const { min, expected, max } = costEstimator.estimateForPrompt(request(), PROMPT);
+
+    expect(min.costUSD).toBeLessThanOrEqual(expected.costUSD);
+    expect(expected.costUSD).toBeLessThanOrEqual(max.costUSD);
+    expect(expected.costUSD).toBeCloseTo(
+      meteringService.priceTokens('gpt-3.5-turbo', expected.inputTokens, expected.outputTokens)
+    );
+  });
+
+  it('expects longer output as informativeness rises', () => {
+    const terse = costEstimator.estimateForPrompt(request({ sliderValues: { informativeness: 10 } }), PROMPT);
+    const detailed = costEstimator.estimateForPrompt(request({ sliderValues: { informativeness: 90 } }), PROMPT);
+
+    expect(detailed.expected.outputTokens).toBeGreaterThan(terse.expected.outputTokens);
+  });
+
+  it('multiplies the prompt by the number of variants', () => {
+    const estimate = costEstimator.estimateForPrompt(request({ variants: 3 }), PROMPT);
+
+    expect(estimate.llmCalls).toBe(3);
+    expect(estimate.expected.inputTokens).toBe(3 * estimate.promptTokens);
+  });
+
+  it('allows for a guardrail retry in the worst case of a single rewrite', () => {
+    const estimate = costEstimator.estimateForPrompt(
+      request({ guardrails: { required: ['numbers'], banned: [] } }),
+      PROMPT
+    );
+
+    expect(estimate.llmCalls).toBe(1);
+    expect(estimate.expected.inputTokens).toBe(estimate.promptTokens);
+    expect(estimate.max.inputTokens).toBeGreaterThan(2 * estimate.promptTokens);
+  });
+});
+
+describe('costEstimator.estimate', () => {
+  it('projects the cost of the prompt the rewrite engine builds', async () => {
+    const estimate = await costEstimator.estimate(request());
+
+    expect(estimate.promptTokens).toBeGreaterThan(estimate.textTokens);
+    expect(estimate.expected.costUSD).toBeGreaterThan(0);
+  });
+});
+
+describe('costEstimator.estimateAnalysis', () => {
+  it('bounds the answer by the number of dimensions asked about', () => {
+    const core = costEstimator.estimateAnalysis('Thanks for your help.', [], 'gpt-3.5-turbo');
+    const custom = costEstimator.estimateAnalysis(
+      'Thanks for your help.',
+      [{ id: 'warmth', label: 'Warmth', description: 'How friendly the text feels' }],
+      'gpt-3.5-turbo'
+    );
+
+    expect(custom.inputTokens).toBeGreaterThan(core.inputTokens);
+    expect(custom.outputTokens).toBeGreaterThan(core.outputTokens);
+    expect(custom.costUSD).toBeGreaterThan(core.costUSD);
+  });
+});
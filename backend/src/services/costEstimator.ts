@@ -0,0 +1,94 @@
+import { RewriteRequest, RewriteEstimate, CostProjection, SliderConfig } from '@tone-slyder/shared/types';
+import { rewriteEngine, normalizeSliderValue } from '../core/rewriteEngine';
+import { generateAnalysisPrompt, getAnalysisDimensions } from '../core/toneAnalyzer';
+import { llmService } from './llmService';
+import { meteringService } from './meteringService';
+import { config } from '../config/environment';
+
+// Rewrites run from half to one and a half times the original length as informativeness
+// goes from 10 to 90; min/max widen that by the spread we see between runs
+const OUTPUT_RATIO_SPREAD = 0.5;
+const MIN_FACTOR = 0.6;
+const MAX_FACTOR = 1.6;
+
+// Appended to the prompt on a guardrail retry (see POST /api/rewrite)
+const RETRY_PROMPT_OVERHEAD = 40;
+
+// A tone analysis answers `"id": {"value": 50, "confidence": 0.8}` per dimension, plus braces
+const ANALYSIS_TOKENS_PER_DIMENSION = 20;
+const ANALYSIS_OUTPUT_OVERHEAD = 10;
+
+class CostEstimator {
+  /**
+   * Project the cost of a rewrite request by building the prompt it would send
+   */
+  async estimate(request: RewriteRequest): Promise<RewriteEstimate> {
+    const { prompt } = await rewriteEngine.processRequest(request);
+    return this.estimateForPrompt(request, prompt);
+  }
+
+  /**
+   * Project the cost for a prompt the caller already built with processRequest
+   */
+  estimateForPrompt(request: RewriteRequest, prompt: string): RewriteEstimate {
+    const model = request.model || config.models.default;
+    const variants = request.variants || 1;
+
+    const promptTokens = llmService.countTokens(prompt, model);
+    const textTokens = llmService.countTokens(request.originalText, model);
+
+    const informativeness = normalizeSliderValue(request.sliderValues.informativeness ?? 50);
+    const expectedOutput = Math.max(1, Math.round(textTokens * (1 + informativeness * OUTPUT_RATIO_SPREAD)));
+    const cap = config.models.maxTokens;
+
+    // A single rewrite may be retried once with a stricter prompt when guardrails are violated
+    const hasGuardrails = request.guardrails.required.length + request.guardrails.banned.length > 0;
+    const maxCalls = variants === 1 && hasGuardrails ? 2 : variants;
+
+    const project = (calls: number, outputPerCall: number, extraInput = 0): CostProjection => {
+      const inputTokens = calls * promptTokens + extraInput;
+      const outputTokens = calls * Math.min(cap, outputPerCall);
+
+      return {
+        inputTokens,
+        outputTokens,
+        costUSD: meteringService.priceTokens(model, inputTokens, outputTokens)
+      };
+    };
+
+    return {
+      model,
+      promptTokens,
+      textTokens,
+      llmCalls: variants,
+      min: project(variants, Math.round(expectedOutput * MIN_FACTOR)),
+      expected: project(variants, expectedOutput),
+      max: project(maxCalls, Math.ceil(expectedOutput * MAX_FACTOR), maxCalls > variants ? RETRY_PROMPT_OVERHEAD : 0)
+    };
+  }
+
+  /**
+   * Upper bound on the cost of a tone analysis (see POST /api/analyze): one call with
+   * the analysis prompt, answering every dimension
+   */
+  estimateAnalysis(
+    text: string,
+    customSliders: Pick<SliderConfig, 'id' | 'label' | 'description'>[],
+    model: string
+  ): CostProjection {
+    const dimensions = getAnalysisDimensions(customSliders);
+    const inputTokens = llmService.countTokens(generateAnalysisPrompt(text, dimensions), model);
+    const outputTokens = Math.min(
+      config.models.maxTokens,
+      dimensions.length * ANALYSIS_TOKENS_PER_DIMENSION + ANALYSIS_OUTPUT_OVERHEAD
+    );
+
+    return {
+      inputTokens,
+      outputTokens,
+      costUSD: meteringService.priceTokens(model, inputTokens, outputTokens)
+    };
+  }
+}
+
+export const costEstimator = new CostEstimator();
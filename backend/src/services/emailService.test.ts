@@ -0,0 +1,24 @@
+import { EmailService, StubEmailTransport } from './emailService';
+
+describe('EmailService', () => {
+  it('keeps the recipient and subject on one header line each', async () => {
+    const transport = new StubEmailTransport();
+    const service = new EmailService(transport, 'Tone Slyder <no-reply@example.com>');
+
+    await service.send({
+      to: 'user@example.com\r\nBcc: everyone@example.com',
+      subject: "You've used 80% of Acme\r\nBcc: everyone@example.com's shared monthly budget",
+      text: 'Line one\r\nLine two'
+    });
+
+    const [sent] = transport.outbox;
+    expect(sent.to).toBe('user@example.com Bcc: everyone@example.com');
+    expect(sent.subject).not.toMatch(/[\r\n]/);
+    expect(sent.text).toBe('Line one\r\nLine two');
+  });
+
+  it('reports mail as unsent without a transport', async () => {
+    expect(await new EmailService(null, 'no-reply@example.com').send({ to: 'a@example.com', subject: 'Hi', text: '' }))
+      .toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/environment';
+import { logger } from '../config/logger';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface SentEmail extends EmailMessage {
+  from: string;
+  sentAt: Date;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: SentEmail): Promise<void>;
+}
+
+/**
+ * Writes each message to `dir` as an .eml file, which mail clients can open
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private dir: string) {}
+
+  async send(message: SentEmail): Promise<void> {
+    const id = uuidv4();
+    const eml = [
+      `Message-ID: <${id}@tone-slyder.local>`,
+      `Date: ${message.sentAt.toUTCString()}`,
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text
+    ].join('\r\n');
+
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(path.join(this.dir, `${message.sentAt.getTime()}-${id}.eml`), eml, 'utf8');
+  }
+}
+
+/**
+ * Accepts every message like an SMTP server would, but only logs it and keeps the most
+ * recent ones in `outbox` for tests
+ */
+export class StubEmailTransport implements EmailTransport {
+  readonly name = 'stub';
+  readonly outbox: SentEmail[] = [];
+
+  constructor(private maxKept = 100) {}
+
+  async send(message: SentEmail): Promise<void> {
+    this.outbox.push(message);
+    if (this.outbox.length > this.maxKept) {
+      this.outbox.shift();
+    }
+
+    logger.info('Email accepted by stub transport', { to: message.to, subject: message.subject });
+  }
+}
+
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Email Service
+ * Sends plain-text mail through the configured transport; with none configured, mail is dropped
+ */
+export class EmailService {
+  constructor(private transport: EmailTransport | null, private from: string) {}
+
+  getTransport(): EmailTransport | null {
+    return this.transport;
+  }
+
+  /**
+   * Resolves false when no transport is configured. Line breaks in the recipient and subject
+   * become spaces, since either could otherwise add headers of its own.
+   */
+  async send(message: EmailMessage): Promise<boolean> {
+    if (!this.transport) {
+      return false;
+    }
+
+    await this.transport.send({
+      ...message,
+      to: singleLine(message.to),
+      subject: singleLine(message.subject),
+      from: this.from,
+      sentAt: new Date()
+    });
+    return true;
+  }
+}
+
+function createTransport(): EmailTransport | null {
+  switch (config.notifications.email.transport) {
+    case 'file':
+      return new FileEmailTransport(config.notifications.email.dir);
+    case 'stub':
+      return new StubEmailTransport();
+    default:
+      return null;
+  }
+}
+
+export const emailService = new EmailService(createTransport(), config.notifications.email.from);
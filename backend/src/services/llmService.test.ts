@@ -0,0 +1,54 @@
+import { LLMProvider, LLMResponse } from './providers/types';
+import { llmService } from './llmService';
+import { countTokens } from '../core/tokenizer';
+
+// Stands in for the Anthropic adapter, answering with the given response
+function anthropicProvider(response: Partial<LLMResponse> | Error) {
+  const complete = jest.fn(async () => {
+    if (response instanceof Error) throw response;
+    return { text: 'Rewritten.', tokensUsed: 0, inputTokens: 0, outputTokens: 0, ...response };
+  });
+  const provider: LLMProvider = {
+    name: 'anthropic',
+    isConfigured: () => true,
+    complete,
+    stream: jest.fn()
+  };
+
+  llmService.register(provider);
+  return complete;
+}
+
+describe('llmService model routing', () => {
+  it('routes Claude models to the Anthropic provider under their dated names', async () => {
+    const complete = anthropicProvider({ inputTokens: 12, outputTokens: 3, tokensUsed: 15 });
+
+    const response = await llmService.rewrite('Rewrite this.', 'claude-3-haiku', { temperature: 0 });
+
+    expect(complete).toHaveBeenCalledWith('Rewrite this.', 'claude-3-haiku-20240307', expect.objectContaining({ temperature: 0 }));
+    expect(response).toEqual({ text: 'Rewritten.', inputTokens: 12, outputTokens: 3, tokensUsed: 15 });
+  });
+
+  it('counts tokens locally when the provider does not report them', async () => {
+    anthropicProvider({ text: 'A fairly short rewrite.' });
+
+    const response = await llmService.rewrite('Rewrite this, please.', 'claude-3-sonnet');
+
+    expect(response.inputTokens).toBe(countTokens('Rewrite this, please.', 'anthropic'));
+    expect(response.outputTokens).toBe(countTokens('A fairly short rewrite.', 'anthropic'));
+    expect(response.tokensUsed).toBe(response.inputTokens + response.outputTokens);
+  });
+
+  it('names the model when the provider fails', async () => {
+    anthropicProvider(new Error('overloaded'));
+
+    await expect(llmService.rewrite('Rewrite this.', 'claude-3-haiku')).rejects.toThrow(
+      'Failed to get response from claude-3-haiku: overloaded'
+    );
+  });
+
+  it('refuses models it has no route for', () => {
+    expect(() => llmService.resolveModel('gpt-5')).toThrow('Unknown model: gpt-5');
+    expect(llmService.getModelIds()).toEqual(expect.arrayContaining(['gpt-3.5-turbo', 'gpt-4', 'claude-3-haiku']));
+  });
+});
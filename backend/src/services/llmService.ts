@@ -1,63 +1,173 @@
-import OpenAI from 'openai';
+import { ModelProvider } from '@tone-slyder/shared/types';
 import { config } from '../config/environment';
 import { logger } from '../config/logger';
+import { LLMProvider, LLMResponse, CompletionOptions } from './providers/types';
+import { OpenAIProvider } from './providers/openaiProvider';
+import { AnthropicProvider } from './providers/anthropicProvider';
+import { LocalProvider } from './providers/localProvider';
+import { countTokens } from '../core/tokenizer';
 
-interface LLMResponse {
-  text: string;
-  tokensUsed: number;
+export type { LLMResponse } from './providers/types';
+
+export interface ModelRoute {
+  provider: ModelProvider;
+  providerModel: string;  // Identifier sent to the provider API
 }
 
+// Public model IDs accepted by the API, mapped to the backend that serves them
+const MODEL_ROUTES: Record<string, ModelRoute> = {
+  'gpt-3.5-turbo': { provider: 'openai', providerModel: 'gpt-3.5-turbo' },
+  'gpt-4': { provider: 'openai', providerModel: 'gpt-4' },
+  'claude-3-haiku': { provider: 'anthropic', providerModel: 'claude-3-haiku-20240307' },
+  'claude-3-sonnet': { provider: 'anthropic', providerModel: 'claude-3-sonnet-20240229' }
+};
+
 class LLMService {
-  private openai: OpenAI | null = null;
+  private providers: Partial<Record<ModelProvider, LLMProvider>> = {};
+  private routes: Record<string, ModelRoute> = { ...MODEL_ROUTES };
 
   constructor() {
-    // Only use real API key if it's not a placeholder
-    if (config.llm.openai.apiKey && !config.llm.openai.apiKey.includes('your_') && !config.llm.openai.apiKey.includes('here')) {
-      this.openai = new OpenAI({
-        apiKey: config.llm.openai.apiKey,
-      });
+    this.register(new OpenAIProvider());
+    this.register(new AnthropicProvider());
+    this.register(new LocalProvider());
+
+    // Self-hosted models are served under the name the local server knows them by
+    config.llm.local.models.forEach(model => {
+      this.routes[model] = { provider: 'local', providerModel: model };
+    });
+  }
+
+  register(provider: LLMProvider): void {
+    this.providers[provider.name] = provider;
+  }
+
+  /**
+   * All public model IDs that can be requested
+   */
+  getModelIds(): string[] {
+    return Object.keys(this.routes);
+  }
+
+  /**
+   * Model IDs served by the self-hosted backend
+   */
+  getLocalModelIds(): string[] {
+    return Object.keys(this.routes).filter(model => this.routes[model].provider === 'local');
+  }
+
+  /**
+   * Resolve a public model ID to its provider and provider-side model name
+   */
+  resolveModel(model: string): ModelRoute {
+    const route = this.routes[model];
+    if (!route) {
+      throw new Error(`Unknown model: ${model}`);
     }
+    return route;
+  }
+
+  /**
+   * Count tokens locally with the tokenizer of the model's provider
+   */
+  countTokens(text: string, model: string): number {
+    return countTokens(text, this.resolveModel(model).provider);
   }
 
-  async rewrite(prompt: string, model: string = 'gpt-3.5-turbo'): Promise<LLMResponse> {
+  async rewrite(
+    prompt: string,
+    model: string = 'gpt-3.5-turbo',
+    options: Partial<CompletionOptions> = {}
+  ): Promise<LLMResponse> {
+    const route = this.resolveModel(model);
+    const provider = this.providers[route.provider];
+
     // For development without API keys, return a mock response
-    if (!this.openai) {
-      logger.warn('No OpenAI API key configured, returning mock response');
-      
-      return {
-        text: `[MOCK REWRITE] This is a simulated tone-adjusted version of your text. 
-               In production, this would use ${model} to apply the specified tone adjustments. 
-               Configure OPENAI_API_KEY in .env to use real AI models.`,
-        tokensUsed: 50
-      };
+    if (!provider || !provider.isConfigured()) {
+      logger.warn(`No ${route.provider} API key configured, returning mock response`);
+      return this.mockResponse(prompt, model, route.provider);
     }
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: config.models.temperature,
-        max_tokens: config.models.maxTokens,
+      const response = await provider.complete(prompt, route.providerModel, {
+        temperature: options.temperature ?? config.models.temperature,
+        maxTokens: options.maxTokens ?? config.models.maxTokens
       });
+      return this.withTokenCounts(response, prompt, route.provider);
+    } catch (error: any) {
+      logger.error('LLM API error:', { provider: route.provider, model, error: error.message });
+      throw new Error(`Failed to get response from ${model}: ${error.message}`);
+    }
+  }
 
-      const text = response.choices[0]?.message?.content || '';
-      const tokensUsed = response.usage?.total_tokens || 0;
+  /**
+   * Stream a rewrite, calling onDelta for each text fragment.
+   * Aborting the signal stops the upstream request.
+   */
+  async rewriteStream(
+    prompt: string,
+    model: string,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const route = this.resolveModel(model);
+    const provider = this.providers[route.provider];
 
-      return {
-        text,
-        tokensUsed
-      };
+    if (!provider || !provider.isConfigured()) {
+      logger.warn(`No ${route.provider} API key configured, streaming mock response`);
+      const mock = this.mockResponse(prompt, model, route.provider);
+      for (const word of mock.text.split(/(?<=\s)(?=\S)/)) {
+        // Fails like a provider's stream when aborted, leaving the caller to bill what was sent
+        signal?.throwIfAborted();
+        onDelta(word);
+        // One fragment per event loop turn, so a client disconnect can land mid-stream
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      return mock;
+    }
 
+    try {
+      const response = await provider.stream(prompt, route.providerModel, {
+        temperature: config.models.temperature,
+        maxTokens: config.models.maxTokens,
+        onDelta,
+        signal
+      });
+      return this.withTokenCounts(response, prompt, route.provider);
     } catch (error: any) {
-      logger.error('LLM API error:', error);
-      throw new Error(`Failed to get response from ${model}: ${error.message}`);
+      logger.error('LLM streaming error:', { provider: route.provider, model, error: error.message });
+      throw new Error(`Failed to stream response from ${model}: ${error.message}`);
     }
   }
+
+  /**
+   * Fill in counts the provider didn't report (some local servers, streams without usage)
+   * from the local tokenizer; reported counts are what the provider bills, so they win
+   */
+  private withTokenCounts(response: LLMResponse, prompt: string, provider: ModelProvider): LLMResponse {
+    if (response.inputTokens > 0 && response.outputTokens > 0) {
+      return response;
+    }
+
+    const inputTokens = response.inputTokens || countTokens(prompt, provider);
+    const outputTokens = response.outputTokens || countTokens(response.text, provider);
+
+    logger.debug('Provider did not report token usage, counted locally', { provider, inputTokens, outputTokens });
+
+    return {
+      ...response,
+      inputTokens,
+      outputTokens,
+      tokensUsed: inputTokens + outputTokens
+    };
+  }
+
+  private mockResponse(prompt: string, model: string, provider: ModelProvider): LLMResponse {
+    const text = `[MOCK REWRITE] This is a simulated tone-adjusted version of your text.
+               In production, this would use ${model} to apply the specified tone adjustments.
+               Configure an API key for ${provider} in .env to use real AI models.`;
+
+    return this.withTokenCounts({ text, tokensUsed: 0, inputTokens: 0, outputTokens: 0 }, prompt, provider);
+  }
 }
 
 export const llmService = new LLMService();
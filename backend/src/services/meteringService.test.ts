@@ -0,0 +1,339 @@
+import { v4 as uuidv4 } from 'uuid';
+import { usageRepository } from '../repositories/usageRepository';
+import { usageLedgerRepository } from '../repositories/usageLedgerRepository';
+import { organizationRepository, MemberSettings } from '../repositories/organizationRepository';
+import { meteringService } from './meteringService';
+import { notificationService } from './notificationService';
+
+const FREE_REWRITES = meteringService.getTierLimits('free').monthlyRewrites;
+const FREE_BUDGET = meteringService.getTierLimits('free').monthlyBudgetUSD;
+
+function currentMonthYear(): string {
+  const now = new Date();
+  return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+// Usage already on record this month, written before the service first reads (and caches) it
+async function seedUsage(userId: string, rewrites: number, costUSD: number): Promise<void> {
+  await usageRepository.increment(userId, currentMonthYear(), { rewrites, tokens: rewrites * 100, costUSD });
+}
+
+// A premium organization with an owner and one member on the given settings
+async function createOrganization(member: Omit<MemberSettings, 'role'> = {}) {
+  const ownerId = uuidv4();
+  const memberId = uuidv4();
+  const { organization } = await organizationRepository.create('Acme', 'premium', ownerId);
+  await organizationRepository.addMember(organization.id, memberId, { role: 'member', ...member });
+
+  return { organization, ownerId, memberId };
+}
+
+// This month's ledger totals per reason, once the background writes have landed
+async function ledgerBreakdown(userId: string) {
+  await new Promise(resolve => setImmediate(resolve));
+  const now = Date.now();
+  return usageLedgerRepository.summarize(userId, new Date(now - 60 * 60 * 1000), new Date(now + 1000));
+}
+
+let evaluate: jest.SpyInstance;
+
+beforeEach(() => {
+  evaluate = jest.spyOn(notificationService, 'evaluate').mockResolvedValue();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('meteringService.checkQuota', () => {
+  it('admits a user with allowance left', async () => {
+    const result = await meteringService.checkQuota(uuidv4(), 'gpt-3.5-turbo', 'free', 0.01);
+
+    expect(result.canProceed).toBe(true);
+    expect(result.limits?.monthlyRewrites).toBe(FREE_REWRITES);
+  });
+
+  it('refuses models outside the tier', async () => {
+    const result = await meteringService.checkQuota(uuidv4(), 'gpt-4', 'free', 0.01);
+
+    expect(result.canProceed).toBe(false);
+    expect(result.reason).toContain('not available for free tier');
+  });
+
+  it('refuses once the monthly rewrites are used up', async () => {
+    const userId = uuidv4();
+    await seedUsage(userId, FREE_REWRITES, 0.5);
+
+    const result = await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.01);
+
+    expect(result.canProceed).toBe(false);
+    expect(result.reason).toContain('Monthly rewrite limit');
+    expect(evaluate).toHaveBeenCalledWith(
+      [expect.objectContaining({ scope: 'user', metric: 'rewrites', used: FREE_REWRITES, limit: FREE_REWRITES })],
+      currentMonthYear()
+    );
+  });
+
+  it('refuses once the monthly budget is spent', async () => {
+    const userId = uuidv4();
+    await seedUsage(userId, 1, FREE_BUDGET);
+
+    const result = await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.01);
+
+    expect(result.canProceed).toBe(false);
+    expect(result.reason).toContain('Monthly budget limit');
+  });
+
+  it('refuses a request whose projected cost would overrun the budget', async () => {
+    const userId = uuidv4();
+    await seedUsage(userId, 1, FREE_BUDGET - 0.05);
+
+    const result = await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.1);
+
+    expect(result.canProceed).toBe(false);
+    expect(result.reason).toContain('would exceed monthly budget');
+  });
+
+  it('only reports usage so far when refusing on a projection', async () => {
+    const userId = uuidv4();
+    await seedUsage(userId, 1, FREE_BUDGET - 0.05);
+
+    await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.1);
+
+    const [measures] = evaluate.mock.calls[0];
+    expect(measures).toEqual([expect.objectContaining({ metric: 'budget', used: FREE_BUDGET - 0.05, limit: FREE_BUDGET })]);
+  });
+
+  it('admits a request that fits in the remaining budget', async () => {
+    const userId = uuidv4();
+    await seedUsage(userId, 1, FREE_BUDGET - 0.05);
+
+    const result = await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.01);
+
+    expect(result.canProceed).toBe(true);
+  });
+});
+
+describe('meteringService.recordUsage', () => {
+  it('charges the input/output split at the model rates', async () => {
+    const cost = await meteringService.recordUsage(uuidv4(), 'gpt-3.5-turbo', 3000, 2000, 1000);
+
+    expect(cost).toBeCloseTo(2 * 0.0015 + 1 * 0.002);
+  });
+
+  it('counts primary calls as rewrites but not retries or analyses', async () => {
+    const userId = uuidv4();
+
+    await meteringService.recordUsage(userId, 'gpt-3.5-turbo', 300, 200, 100);
+    await meteringService.recordUsage(userId, 'gpt-3.5-turbo', 300, 200, 100, { reason: 'retry' });
+    await meteringService.recordUsage(userId, 'gpt-3.5-turbo', 300, 200, 100, { reason: 'analysis', countsAsRewrite: false });
+
+    const { usage } = await meteringService.getUserUsage(userId);
+    expect(usage.rewritesCount).toBe(1);
+    expect(usage.tokensUsed).toBe(900);
+  });
+
+  it('counts recorded spend against the next quota check', async () => {
+    const userId = uuidv4();
+    await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.01);
+
+    await meteringService.recordUsage(userId, 'gpt-3.5-turbo', 3000, 2000, 1000);
+
+    const result = await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', FREE_BUDGET);
+    expect(result.canProceed).toBe(false);
+    expect(result.usage?.costUSD).toBeGreaterThan(0);
+  });
+});
+
+describe('meteringService usage ledger', () => {
+  it('records each call under its reason with its tokens and cost', async () => {
+    const userId = uuidv4();
+
+    const primary = await meteringService.recordUsage(userId, 'gpt-3.5-turbo', 300, 200, 100);
+    const retry = await meteringService.recordUsage(userId, 'gpt-3.5-turbo', 330, 220, 110, { reason: 'retry' });
+    await meteringService.recordUsage(userId, 'gpt-3.5-turbo', 150, 100, 50, { reason: 'batch' });
+
+    const breakdown = await ledgerBreakdown(userId);
+    expect(breakdown.primary).toEqual({ calls: 1, inputTokens: 200, outputTokens: 100, costUSD: primary, savedUSD: 0 });
+    expect(breakdown.retry).toEqual({ calls: 1, inputTokens: 220, outputTokens: 110, costUSD: retry, savedUSD: 0 });
+    expect(breakdown.batch).toEqual(expect.objectContaining({ calls: 1, inputTokens: 100, outputTokens: 50 }));
+  });
+
+  it('records cache hits at no cost, with what they saved', async () => {
+    const userId = uuidv4();
+
+    meteringService.recordCacheHit(userId, 'gpt-3.5-turbo', { inputTokens: 200, outputTokens: 100, tokensUsed: 300, costUSD: 0.0005 });
+    meteringService.recordCacheHit(userId, 'gpt-3.5-turbo', { inputTokens: 2000, outputTokens: 1000, tokensUsed: 3000 });
+
+    const breakdown = await ledgerBreakdown(userId);
+    expect(breakdown.cached).toEqual(expect.objectContaining({ calls: 2, inputTokens: 2200, outputTokens: 1100, costUSD: 0 }));
+    // The first saved what it cost originally; the second is priced at today's rates
+    expect(breakdown.cached.savedUSD).toBeCloseTo(0.0005 + 2 * 0.0015 + 1 * 0.002);
+    expect((await meteringService.getUserUsage(userId)).usage.rewritesCount).toBe(0);
+  });
+
+  it("keeps the ledger when the month's usage is reset", async () => {
+    const userId = uuidv4();
+    const cost = await meteringService.recordUsage(userId, 'gpt-3.5-turbo', 300, 200, 100);
+
+    await meteringService.resetUsage(userId);
+
+    expect((await ledgerBreakdown(userId)).primary).toEqual(expect.objectContaining({ calls: 1, costUSD: cost }));
+    expect((await meteringService.getUserUsage(userId)).usage.costUSD).toBe(0);
+  });
+});
+
+describe('meteringService organization pools', () => {
+  const PREMIUM = meteringService.getTierLimits('premium');
+
+  it("applies the organization's tier instead of the member's own", async () => {
+    const { memberId } = await createOrganization();
+
+    const result = await meteringService.checkQuota(memberId, 'gpt-4', 'free', 0.01);
+
+    expect(result.canProceed).toBe(true);
+    expect(result.limits?.monthlyRewrites).toBe(PREMIUM.monthlyRewrites);
+  });
+
+  it("adds members' usage to the shared pool", async () => {
+    const { organization, ownerId, memberId } = await createOrganization();
+
+    await meteringService.recordUsage(ownerId, 'gpt-3.5-turbo', 300, 200, 100);
+    await meteringService.recordUsage(memberId, 'gpt-3.5-turbo', 300, 200, 100);
+
+    const pool = await meteringService.getPoolUsage(organization.id);
+    expect(pool.rewritesCount).toBe(2);
+    expect(pool.tokensUsed).toBe(600);
+  });
+
+  it('refuses every member once the pool is used up', async () => {
+    const { organization, ownerId, memberId } = await createOrganization();
+    await organizationRepository.incrementUsage(organization.id, currentMonthYear(), {
+      rewrites: PREMIUM.monthlyRewrites, tokens: 0, costUSD: 1
+    });
+
+    for (const userId of [ownerId, memberId]) {
+      const result = await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.01);
+
+      expect(result.canProceed).toBe(false);
+      expect(result.reason).toContain("Acme's shared monthly rewrite limit");
+    }
+    expect(evaluate).toHaveBeenCalledWith(
+      [expect.objectContaining({ scope: 'organization', organizationId: organization.id, metric: 'rewrites' })],
+      currentMonthYear()
+    );
+  });
+
+  it("refuses a request that would overrun the pool's budget", async () => {
+    const { organization, memberId } = await createOrganization();
+    await organizationRepository.incrementUsage(organization.id, currentMonthYear(), {
+      rewrites: 1, tokens: 0, costUSD: PREMIUM.monthlyBudgetUSD - 0.05
+    });
+
+    const result = await meteringService.checkQuota(memberId, 'gpt-3.5-turbo', 'free', 0.1);
+
+    expect(result.canProceed).toBe(false);
+    expect(result.reason).toContain("would exceed Acme's shared monthly budget");
+  });
+
+  it('holds a member to their rewrite sub-limit while the pool has room', async () => {
+    const { ownerId, memberId } = await createOrganization({ monthlyRewriteLimit: 2 });
+    await seedUsage(memberId, 2, 0.01);
+
+    const member = await meteringService.checkQuota(memberId, 'gpt-3.5-turbo', 'free', 0.01);
+    const owner = await meteringService.checkQuota(ownerId, 'gpt-3.5-turbo', 'free', 0.01);
+
+    expect(member.canProceed).toBe(false);
+    expect(member.reason).toContain('Your monthly rewrite limit in Acme (2)');
+    expect(owner.canProceed).toBe(true);
+  });
+
+  it('holds a member to their budget sub-limit, including the projection', async () => {
+    const { memberId } = await createOrganization({ monthlyBudgetUSD: 1 });
+    await seedUsage(memberId, 1, 0.95);
+
+    const small = await meteringService.checkQuota(memberId, 'gpt-3.5-turbo', 'free', 0.01);
+    const large = await meteringService.checkQuota(memberId, 'gpt-3.5-turbo', 'free', 0.1);
+
+    expect(small.canProceed).toBe(true);
+    expect(large.canProceed).toBe(false);
+    expect(large.reason).toContain('would exceed your monthly budget in Acme');
+  });
+
+  it('reports the tighter of pool and sub-limit utilization', async () => {
+    const { memberId } = await createOrganization({ monthlyRewriteLimit: 10 });
+    await seedUsage(memberId, 5, 0);
+
+    const { utilization, organization } = await meteringService.getUserUsage(memberId, 'free');
+
+    expect(utilization.rewritesPercent).toBe(50);
+    expect(organization?.organization.name).toBe('Acme');
+  });
+});
+
+describe('meteringService top-ups and resets', () => {
+  it("raises the user's limits for the month with a top-up", async () => {
+    const userId = uuidv4();
+    await seedUsage(userId, FREE_REWRITES, 0.5);
+    expect((await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.01)).canProceed).toBe(false);
+
+    await meteringService.grantTopUp(userId, { rewrites: 10, budgetUSD: 2 });
+
+    const result = await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.01);
+    expect(result.canProceed).toBe(true);
+    expect(result.limits?.monthlyRewrites).toBe(FREE_REWRITES + 10);
+    expect(result.limits?.monthlyBudgetUSD).toBe(FREE_BUDGET + 2);
+  });
+
+  it('adds successive top-ups together', async () => {
+    const userId = uuidv4();
+
+    await meteringService.grantTopUp(userId, { rewrites: 10, budgetUSD: 0 });
+    const record = await meteringService.grantTopUp(userId, { rewrites: 5, budgetUSD: 1 });
+
+    expect(record.topUp).toEqual({ rewrites: 15, budgetUSD: 1 });
+  });
+
+  it("raises a member's sub-limit rather than the organization's pool", async () => {
+    const { memberId } = await createOrganization({ monthlyRewriteLimit: 2 });
+    await seedUsage(memberId, 2, 0.01);
+
+    await meteringService.grantTopUp(memberId, { rewrites: 3, budgetUSD: 0 });
+
+    const result = await meteringService.checkQuota(memberId, 'gpt-3.5-turbo', 'free', 0.01);
+    expect(result.canProceed).toBe(true);
+    expect(result.limits?.monthlyRewrites).toBe(meteringService.getTierLimits('premium').monthlyRewrites);
+  });
+
+  it("zeroes the month's usage but keeps top-ups on reset", async () => {
+    const userId = uuidv4();
+    await seedUsage(userId, FREE_REWRITES, FREE_BUDGET);
+    await meteringService.grantTopUp(userId, { rewrites: 10, budgetUSD: 0 });
+
+    const record = await meteringService.resetUsage(userId);
+
+    expect(record).toEqual(expect.objectContaining({ rewritesCount: 0, tokensUsed: 0, costUSD: 0 }));
+    expect(record.topUp.rewrites).toBe(10);
+    expect((await meteringService.checkQuota(userId, 'gpt-3.5-turbo', 'free', 0.01)).canProceed).toBe(true);
+  });
+
+  it('leaves the organization pool untouched on reset', async () => {
+    const { organization, memberId } = await createOrganization();
+    await meteringService.recordUsage(memberId, 'gpt-3.5-turbo', 300, 200, 100);
+
+    await meteringService.resetUsage(memberId);
+
+    expect((await meteringService.getPoolUsage(organization.id)).rewritesCount).toBe(1);
+  });
+
+  it('announces quota thresholds again after a top-up or reset', async () => {
+    const rearm = jest.spyOn(notificationService, 'rearm').mockResolvedValue();
+    const userId = uuidv4();
+
+    await meteringService.grantTopUp(userId, { rewrites: 1, budgetUSD: 0 });
+    await meteringService.resetUsage(userId);
+
+    expect(rearm).toHaveBeenCalledTimes(2);
+    expect(rearm).toHaveBeenCalledWith(userId, currentMonthYear());
+  });
+});
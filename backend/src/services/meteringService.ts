@@ -1,13 +1,15 @@
+import { v4 as uuidv4 } from 'uuid';
+import { UsageReason, UsageBreakdown, TierPlan, QuotaTopUp } from '@tone-slyder/shared/types';
 import { config } from '../config/environment';
 import { logger } from '../config/logger';
+import { usageRepository, UsageRecord } from '../repositories/usageRepository';
+import { usageLedgerRepository, NewUsageEvent } from '../repositories/usageLedgerRepository';
+import { organizationRepository, Membership, PooledUsage } from '../repositories/organizationRepository';
+import { planCatalog } from './planCatalog';
+import { notificationService, QuotaMeasure } from './notificationService';
 
-// User tier limits and pricing
-interface TierLimits {
-  monthlyRewrites: number;
-  monthlyBudgetUSD: number;
-  modelAccess: string[];
-  rateLimitPerHour: number;
-}
+// Limits come from the plan catalog
+type TierLimits = TierPlan;
 
 interface UserUsage {
   userId: string;
@@ -15,70 +17,34 @@ interface UserUsage {
   rewritesCount: number;
   tokensUsed: number;
   costUSD: number;
+  topUp: QuotaTopUp;
   tier: 'free' | 'premium' | 'enterprise';
 }
 
-interface ModelPricing {
-  inputTokenCost: number;   // Cost per 1K input tokens
-  outputTokenCost: number;  // Cost per 1K output tokens
-  tier: 'free' | 'premium' | 'enterprise';
+export interface UsageContext {
+  requestId?: string;         // Groups the LLM calls of one API request; generated when omitted
+  reason?: UsageReason;       // Defaults to 'primary'
+  countsAsRewrite?: boolean;  // Towards the monthly rewrite count; defaults to false only for retries
+  presetId?: string;          // For usage analytics
+  sliderValues?: Record<string, number>;
 }
 
 class MeteringService {
-  // Tier configurations
-  private readonly TIER_LIMITS: Record<string, TierLimits> = {
-    free: {
-      monthlyRewrites: 100,
-      monthlyBudgetUSD: 5,
-      modelAccess: ['gpt-3.5-turbo'],
-      rateLimitPerHour: 30
-    },
-    premium: {
-      monthlyRewrites: 1000,
-      monthlyBudgetUSD: 50,
-      modelAccess: ['gpt-3.5-turbo', 'gpt-4', 'claude-3-haiku', 'claude-3-sonnet'],
-      rateLimitPerHour: 300
-    },
-    enterprise: {
-      monthlyRewrites: 10000,
-      monthlyBudgetUSD: 500,
-      modelAccess: ['gpt-3.5-turbo', 'gpt-4', 'claude-3-haiku', 'claude-3-sonnet', 'gpt-4-turbo'],
-      rateLimitPerHour: 1000
-    }
-  };
-
-  // Model pricing (per 1K tokens)
-  private readonly MODEL_PRICING: Record<string, ModelPricing> = {
-    'gpt-3.5-turbo': {
-      inputTokenCost: 0.0015,
-      outputTokenCost: 0.002,
-      tier: 'free'
-    },
-    'gpt-4': {
-      inputTokenCost: 0.03,
-      outputTokenCost: 0.06,
-      tier: 'premium'
-    },
-    'claude-3-haiku': {
-      inputTokenCost: 0.00025,
-      outputTokenCost: 0.00125,
-      tier: 'premium'
-    },
-    'claude-3-sonnet': {
-      inputTokenCost: 0.003,
-      outputTokenCost: 0.015,
-      tier: 'premium'
-    }
-  };
-
-  // In-memory cache for recent usage (for performance)
+  // In-memory cache for recent usage (for performance). Entries are re-read after
+  // USAGE_CACHE_TTL_MS so usage recorded by other replicas is picked up.
+  private readonly USAGE_CACHE_TTL_MS = 60 * 1000;
   private usageCache: Map<string, UserUsage> = new Map();
+  private usageCachedAt: Map<string, number> = new Map();
+  private membershipCache: Map<string, { membership: Membership | null; cachedAt: number }> = new Map();
   private lastCacheClean = Date.now();
 
   /**
-   * Check if user can make a rewrite request
+   * Check if user can make a rewrite request. Pass the request's projected cost
+   * (see costEstimator) when known; otherwise a 2K-token request is assumed.
+   * Organization members draw on their organization's pool (and tier) instead of their own;
+   * top-ups raise the user's own limits, or their sub-limits in an organization.
    */
-  async checkQuota(userId: string, model: string, userTier?: string): Promise<{
+  async checkQuota(userId: string, model: string, userTier?: string, projectedCostUSD?: number): Promise<{
     canProceed: boolean;
     reason?: string;
     usage?: UserUsage;
@@ -86,11 +52,13 @@ class MeteringService {
   }> {
     try {
       // Get user's current usage
-      const usage = await this.getCurrentUsage(userId, userTier || 'free');
-      const limits = this.TIER_LIMITS[usage.tier];
+      const membership = await this.getMembership(userId);
+      const usage = await this.getCurrentUsage(userId, membership?.organization.tier || userTier || 'free');
+      const tierLimits = this.getTierLimits(usage.tier);
+      const limits = membership ? tierLimits : this.withTopUp(tierLimits, usage.topUp);
 
-      // Check model access
-      if (!limits.modelAccess.includes(model)) {
+      // Check model access (self-hosted models cost us nothing, so every tier may use them)
+      if (!limits.modelAccess.includes(model) && !config.llm.local.models.includes(model)) {
         return {
           canProceed: false,
           reason: `Model ${model} not available for ${usage.tier} tier. Please upgrade your plan.`,
@@ -99,8 +67,28 @@ class MeteringService {
         };
       }
 
+      const estimatedCost = projectedCostUSD ?? this.estimateRequestCost(model, 2000);
+
+      if (membership) {
+        const refusal = await this.checkOrganizationQuota(membership, usage, estimatedCost);
+        if (!refusal) {
+          return { canProceed: true, usage, limits };
+        }
+
+        this.notifyQuota([refusal.measure]);
+        return { canProceed: false, reason: refusal.reason, usage, limits };
+      }
+
+      const rewritesMeasure: QuotaMeasure = {
+        scope: 'user', userId, metric: 'rewrites', used: usage.rewritesCount, limit: limits.monthlyRewrites
+      };
+      const budgetMeasure: QuotaMeasure = {
+        scope: 'user', userId, metric: 'budget', used: usage.costUSD, limit: limits.monthlyBudgetUSD
+      };
+
       // Check monthly rewrite limit
       if (usage.rewritesCount >= limits.monthlyRewrites) {
+        this.notifyQuota([rewritesMeasure]);
         return {
           canProceed: false,
           reason: `Monthly rewrite limit (${limits.monthlyRewrites}) exceeded. Please upgrade or wait for next month.`,
@@ -111,6 +99,7 @@ class MeteringService {
 
       // Check monthly budget limit
       if (usage.costUSD >= limits.monthlyBudgetUSD) {
+        this.notifyQuota([budgetMeasure]);
         return {
           canProceed: false,
           reason: `Monthly budget limit ($${limits.monthlyBudgetUSD}) exceeded. Please upgrade or wait for next month.`,
@@ -120,11 +109,12 @@ class MeteringService {
       }
 
       // Check if estimated cost would exceed budget
-      const estimatedCost = this.estimateRequestCost(model, 2000); // Assume 2K tokens average
+      // Only usage so far is notified about: a large request doesn't mean the budget is spent
       if (usage.costUSD + estimatedCost > limits.monthlyBudgetUSD) {
+        this.notifyQuota([budgetMeasure]);
         return {
           canProceed: false,
-          reason: `Estimated cost would exceed monthly budget. Remaining budget: $${(limits.monthlyBudgetUSD - usage.costUSD).toFixed(2)}`,
+          reason: `Estimated cost ($${estimatedCost.toFixed(4)}) would exceed monthly budget. Remaining budget: $${(limits.monthlyBudgetUSD - usage.costUSD).toFixed(2)}`,
           usage,
           limits
         };
@@ -147,38 +137,50 @@ class MeteringService {
   }
 
   /**
-   * Record usage after successful rewrite
+   * Record one LLM call after a successful rewrite: added to the monthly totals and
+   * written to the usage ledger. Resolves with the cost charged in USD.
    */
   async recordUsage(
     userId: string, 
     model: string, 
     tokensUsed: number,
     inputTokens?: number,
-    outputTokens?: number
-  ): Promise<void> {
+    outputTokens?: number,
+    context: UsageContext = {}
+  ): Promise<number> {
     try {
       const cost = this.calculateCost(model, tokensUsed, inputTokens, outputTokens);
       const monthYear = this.getCurrentMonthYear();
+      const reason = context.reason || 'primary';
+      const countsAsRewrite = context.countsAsRewrite ?? reason !== 'retry';
       
-      // Update in-memory cache
+      // Increment in the database, then refresh the cache with the new totals
       const cacheKey = `${userId}-${monthYear}`;
-      let usage = this.usageCache.get(cacheKey);
-      
-      if (!usage) {
-        // Load from database if not in cache
-        usage = await this.loadUsageFromDB(userId, monthYear);
-      }
+      const delta = { rewrites: countsAsRewrite ? 1 : 0, tokens: tokensUsed, costUSD: cost };
+      const record = await usageRepository.increment(userId, monthYear, delta);
 
-      usage.rewritesCount += 1;
-      usage.tokensUsed += tokensUsed;
-      usage.costUSD += cost;
-      
-      this.usageCache.set(cacheKey, usage);
-      
-      // Async update to database (don't wait)
-      this.updateUsageInDB(usage).catch(error => {
-        logger.error('Failed to update usage in database', { userId, error });
+      const membership = await this.getMembership(userId);
+      const pool = membership
+        ? await organizationRepository.incrementUsage(membership.organization.id, monthYear, delta)
+        : null;
+
+      this.recordLedgerEvent({
+        requestId: context.requestId || uuidv4(),
+        userId,
+        model,
+        reason,
+        inputTokens: inputTokens ?? Math.round(tokensUsed * 0.6),
+        outputTokens: outputTokens ?? tokensUsed - Math.round(tokensUsed * 0.6),
+        costUSD: cost,
+        savedUSD: 0,
+        presetId: context.presetId,
+        sliderValues: context.sliderValues
       });
+      const usage: UserUsage = { ...record, tier: this.usageCache.get(cacheKey)?.tier || 'free' };
+
+      this.usageCache.set(cacheKey, usage);
+      this.usageCachedAt.set(cacheKey, Date.now());
+      this.notifyQuota(this.quotaMeasures(userId, usage, membership, pool));
       
       logger.info('Usage recorded', {
         userId,
@@ -187,15 +189,56 @@ class MeteringService {
         cost: cost.toFixed(4),
         monthlyTotal: usage.rewritesCount
       });
+
+      return cost;
       
     } catch (error) {
       logger.error('Error recording usage', { userId, model, tokensUsed, error });
       // Don't throw - usage recording failures shouldn't break user requests
+      return 0;
     }
   }
 
   /**
-   * Get user's current usage statistics
+   * Note a request served from cache. Nothing is charged; the ledger keeps what it saved.
+   */
+  recordCacheHit(
+    userId: string,
+    model: string,
+    cached: { inputTokens?: number; outputTokens?: number; costUSD?: number; tokensUsed: number },
+    context: UsageContext = {}
+  ): void {
+    const inputTokens = cached.inputTokens ?? Math.round(cached.tokensUsed * 0.6);
+    const outputTokens = cached.outputTokens ?? cached.tokensUsed - inputTokens;
+
+    this.recordLedgerEvent({
+      requestId: context.requestId || uuidv4(),
+      userId,
+      model,
+      reason: 'cached',
+      inputTokens,
+      outputTokens,
+      costUSD: 0,
+      savedUSD: cached.costUSD ?? this.priceTokens(model, inputTokens, outputTokens),
+      presetId: context.presetId,
+      sliderValues: context.sliderValues
+    });
+  }
+
+  /**
+   * This month's calls, tokens, spend and cache savings per usage reason
+   */
+  async getUsageBreakdown(userId: string): Promise<UsageBreakdown> {
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const nextMonthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    return usageLedgerRepository.summarize(userId, monthStart, nextMonthStart);
+  }
+
+  /**
+   * Get user's current usage statistics. For organization members, utilization is
+   * the tighter of the shared pool and their own sub-limits.
    */
   async getUserUsage(userId: string, userTier: string = 'free'): Promise<{
     usage: UserUsage;
@@ -205,30 +248,123 @@ class MeteringService {
       budgetPercent: number;
       daysLeftInMonth: number;
     };
+    organization?: Membership & { pool: PooledUsage };
   }> {
-    const usage = await this.getCurrentUsage(userId, userTier);
-    const limits = this.TIER_LIMITS[usage.tier];
+    const membership = await this.getMembership(userId);
+    const usage = await this.getCurrentUsage(userId, membership?.organization.tier || userTier);
+    const tierLimits = this.getTierLimits(usage.tier);
+    const limits = membership ? tierLimits : this.withTopUp(tierLimits, usage.topUp);
     
     const now = new Date();
-    const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
-    const daysLeftInMonth = daysInMonth - now.getDate();
-    
+    const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+    const daysLeftInMonth = daysInMonth - now.getUTCDate();
+    const percent = (used: number, limit: number) => Math.round((used / limit) * 100);
+
+    if (!membership) {
+      return {
+        usage,
+        limits,
+        utilization: {
+          rewritesPercent: percent(usage.rewritesCount, limits.monthlyRewrites),
+          budgetPercent: percent(usage.costUSD, limits.monthlyBudgetUSD),
+          daysLeftInMonth
+        }
+      };
+    }
+
+    const { member } = membership;
+    const pool = await this.getPoolUsage(membership.organization.id);
+
     return {
       usage,
       limits,
       utilization: {
-        rewritesPercent: Math.round((usage.rewritesCount / limits.monthlyRewrites) * 100),
-        budgetPercent: Math.round((usage.costUSD / limits.monthlyBudgetUSD) * 100),
+        rewritesPercent: Math.max(
+          percent(pool.rewritesCount, limits.monthlyRewrites),
+          member.monthlyRewriteLimit ? percent(usage.rewritesCount, member.monthlyRewriteLimit + usage.topUp.rewrites) : 0
+        ),
+        budgetPercent: Math.max(
+          percent(pool.costUSD, limits.monthlyBudgetUSD),
+          member.monthlyBudgetUSD ? percent(usage.costUSD, member.monthlyBudgetUSD + usage.topUp.budgetUSD) : 0
+        ),
         daysLeftInMonth
-      }
+      },
+      organization: { ...membership, pool }
     };
   }
 
+  /**
+   * This month's pooled totals for an organization
+   */
+  async getPoolUsage(organizationId: string): Promise<PooledUsage> {
+    const monthYear = this.getCurrentMonthYear();
+    const record = await organizationRepository.findUsage(organizationId, monthYear);
+
+    return record || { organizationId, monthYear, rewritesCount: 0, tokensUsed: 0, costUSD: 0 };
+  }
+
+  /**
+   * The tier whose limits apply to a user: their organization's, if they belong to one
+   */
+  async getEffectiveTier(userId: string, userTier: string): Promise<string> {
+    try {
+      const membership = await this.getMembership(userId);
+      return membership?.organization.tier || userTier;
+    } catch (error: any) {
+      logger.warn('Unable to resolve organization tier', { userId, error: error.message });
+      return userTier;
+    }
+  }
+
+  /**
+   * Forget a cached membership after it changes, so quotas switch pools immediately
+   */
+  invalidateMembership(userId: string): void {
+    this.membershipCache.delete(userId);
+  }
+
+  /**
+   * Add to a user's allowance for the current month. Other replicas see it once their
+   * cached usage expires.
+   */
+  async grantTopUp(userId: string, topUp: QuotaTopUp): Promise<UsageRecord> {
+    const monthYear = this.getCurrentMonthYear();
+    const record = await usageRepository.addTopUp(userId, monthYear, topUp);
+
+    this.forgetUsage(userId, monthYear);
+    await notificationService.rearm(userId, monthYear);
+
+    logger.info('Quota top-up granted', { userId, monthYear, ...topUp });
+    return record;
+  }
+
+  /**
+   * Start the user's current month over. Their organization's pool keeps what they used,
+   * and the usage ledger keeps every call for history.
+   */
+  async resetUsage(userId: string): Promise<UsageRecord> {
+    const monthYear = this.getCurrentMonthYear();
+    const record = await usageRepository.reset(userId, monthYear);
+
+    this.forgetUsage(userId, monthYear);
+    await notificationService.rearm(userId, monthYear);
+
+    logger.info('Monthly usage reset', { userId, monthYear });
+    return record;
+  }
+
+  /**
+   * Limits for a tier; unknown tiers get the free tier's limits
+   */
+  getTierLimits(tier: string): TierLimits {
+    return planCatalog.getTier(tier);
+  }
+
   /**
    * Estimate cost for a request
    */
   estimateRequestCost(model: string, estimatedTokens: number): number {
-    const pricing = this.MODEL_PRICING[model];
+    const pricing = planCatalog.getModel(model);
     if (!pricing) return 0;
     
     // Rough estimate: 60% input, 40% output tokens
@@ -236,11 +372,18 @@ class MeteringService {
     const outputTokens = Math.round(estimatedTokens * 0.4);
     
     return (
-      (inputTokens / 1000) * pricing.inputTokenCost +
-      (outputTokens / 1000) * pricing.outputTokenCost
+      (inputTokens / 1000) * pricing.inputPer1k +
+      (outputTokens / 1000) * pricing.outputPer1k
     );
   }
 
+  /**
+   * Price an exact prompt/completion split
+   */
+  priceTokens(model: string, inputTokens: number, outputTokens: number): number {
+    return this.calculateCost(model, inputTokens + outputTokens, inputTokens, outputTokens);
+  }
+
   /**
    * Calculate actual cost based on token usage
    */
@@ -250,26 +393,161 @@ class MeteringService {
     inputTokens?: number, 
     outputTokens?: number
   ): number {
-    const pricing = this.MODEL_PRICING[model];
+    const pricing = planCatalog.getModel(model);
     if (!pricing) return 0;
 
-    if (inputTokens && outputTokens) {
+    if (inputTokens !== undefined && outputTokens !== undefined) {
       // Exact calculation if we have input/output breakdown
       return (
-        (inputTokens / 1000) * pricing.inputTokenCost +
-        (outputTokens / 1000) * pricing.outputTokenCost
+        (inputTokens / 1000) * pricing.inputPer1k +
+        (outputTokens / 1000) * pricing.outputPer1k
       );
     } else {
       // Estimate based on total tokens (assume 60/40 split)
       const estimatedInput = Math.round(totalTokens * 0.6);
       const estimatedOutput = Math.round(totalTokens * 0.4);
       return (
-        (estimatedInput / 1000) * pricing.inputTokenCost +
-        (estimatedOutput / 1000) * pricing.outputTokenCost
+        (estimatedInput / 1000) * pricing.inputPer1k +
+        (estimatedOutput / 1000) * pricing.outputPer1k
       );
     }
   }
 
+  /**
+   * Shared pool first, then the member's own sub-limits. Resolves with why the request
+   * is refused and the limit it hit, or null when it may proceed.
+   */
+  private async checkOrganizationQuota(
+    membership: Membership,
+    usage: UserUsage,
+    estimatedCost: number
+  ): Promise<{ reason: string; measure: QuotaMeasure } | null> {
+    const { organization } = membership;
+    const pool = await this.getPoolUsage(organization.id);
+    const [poolRewrites, poolBudget, ...memberMeasures] = this.quotaMeasures(usage.userId, usage, membership, pool);
+    const memberRewrites = memberMeasures.find(measure => measure.metric === 'rewrites');
+    const memberBudget = memberMeasures.find(measure => measure.metric === 'budget');
+
+    if (poolRewrites.used >= poolRewrites.limit) {
+      return {
+        reason: `${organization.name}'s shared monthly rewrite limit (${poolRewrites.limit}) reached. Please upgrade or wait for next month.`,
+        measure: poolRewrites
+      };
+    }
+
+    if (poolBudget.used + estimatedCost > poolBudget.limit) {
+      return {
+        reason: `Estimated cost ($${estimatedCost.toFixed(4)}) would exceed ${organization.name}'s shared monthly budget. Remaining budget: $${Math.max(0, poolBudget.limit - poolBudget.used).toFixed(2)}`,
+        measure: poolBudget
+      };
+    }
+
+    if (memberRewrites && memberRewrites.used >= memberRewrites.limit) {
+      return {
+        reason: `Your monthly rewrite limit in ${organization.name} (${memberRewrites.limit}) reached. Ask an organization admin to raise it.`,
+        measure: memberRewrites
+      };
+    }
+
+    if (memberBudget && memberBudget.used + estimatedCost > memberBudget.limit) {
+      return {
+        reason: `Estimated cost ($${estimatedCost.toFixed(4)}) would exceed your monthly budget in ${organization.name}. Remaining budget: $${Math.max(0, memberBudget.limit - memberBudget.used).toFixed(2)}`,
+        measure: memberBudget
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * The limits a user's usage counts against: their tier's, or their organization's pool
+   * (rewrites, then budget) followed by any sub-limits they have as a member
+   */
+  private quotaMeasures(
+    userId: string,
+    usage: UserUsage,
+    membership: Membership | null,
+    pool: PooledUsage | null
+  ): QuotaMeasure[] {
+    if (!membership || !pool) {
+      const limits = this.withTopUp(this.getTierLimits(usage.tier), usage.topUp);
+      return [
+        { scope: 'user', userId, metric: 'rewrites', used: usage.rewritesCount, limit: limits.monthlyRewrites },
+        { scope: 'user', userId, metric: 'budget', used: usage.costUSD, limit: limits.monthlyBudgetUSD }
+      ];
+    }
+
+    const { organization, member } = membership;
+    const limits = this.getTierLimits(organization.tier);
+    const shared = { userId, organizationId: organization.id, organizationName: organization.name };
+
+    const measures: QuotaMeasure[] = [
+      { ...shared, scope: 'organization', metric: 'rewrites', used: pool.rewritesCount, limit: limits.monthlyRewrites },
+      { ...shared, scope: 'organization', metric: 'budget', used: pool.costUSD, limit: limits.monthlyBudgetUSD }
+    ];
+    if (member.monthlyRewriteLimit !== undefined) {
+      measures.push({
+        ...shared, scope: 'member', metric: 'rewrites', used: usage.rewritesCount, limit: member.monthlyRewriteLimit + usage.topUp.rewrites
+      });
+    }
+    if (member.monthlyBudgetUSD !== undefined) {
+      measures.push({
+        ...shared, scope: 'member', metric: 'budget', used: usage.costUSD, limit: member.monthlyBudgetUSD + usage.topUp.budgetUSD
+      });
+    }
+    return measures;
+  }
+
+  private withTopUp(limits: TierLimits, topUp: QuotaTopUp): TierLimits {
+    return {
+      ...limits,
+      monthlyRewrites: limits.monthlyRewrites + topUp.rewrites,
+      monthlyBudgetUSD: limits.monthlyBudgetUSD + topUp.budgetUSD
+    };
+  }
+
+  private forgetUsage(userId: string, monthYear: string): void {
+    this.usageCache.delete(`${userId}-${monthYear}`);
+    this.usageCachedAt.delete(`${userId}-${monthYear}`);
+  }
+
+  /**
+   * Warnings and exceeded notices go out in the background and never affect the request
+   */
+  private notifyQuota(measures: QuotaMeasure[]): void {
+    notificationService.evaluate(measures, this.getCurrentMonthYear()).catch(error => {
+      logger.error('Failed to send quota notifications', { userId: measures[0]?.userId, error: error.message });
+    });
+  }
+
+  /**
+   * The user's organization and role, cached like usage totals
+   */
+  private async getMembership(userId: string): Promise<Membership | null> {
+    const cached = this.membershipCache.get(userId);
+    if (cached && Date.now() - cached.cachedAt <= this.USAGE_CACHE_TTL_MS) {
+      return cached.membership;
+    }
+
+    const membership = await organizationRepository.findMembership(userId);
+    this.membershipCache.set(userId, { membership, cachedAt: Date.now() });
+    return membership;
+  }
+
+  /**
+   * Ledger writes never hold up or fail the request; the monthly totals stay authoritative for quotas
+   */
+  private recordLedgerEvent(event: NewUsageEvent): void {
+    usageLedgerRepository.record(event).catch(error => {
+      logger.error('Failed to record usage ledger event', {
+        userId: event.userId,
+        requestId: event.requestId,
+        reason: event.reason,
+        error: error.message
+      });
+    });
+  }
+
   /**
    * Get current usage from cache or database
    */
@@ -283,49 +561,43 @@ class MeteringService {
     }
     
     let usage = this.usageCache.get(cacheKey);
-    if (!usage) {
+    const cachedAt = this.usageCachedAt.get(cacheKey) || 0;
+
+    if (!usage || Date.now() - cachedAt > this.USAGE_CACHE_TTL_MS) {
       usage = await this.loadUsageFromDB(userId, monthYear);
-      usage.tier = userTier as 'free' | 'premium' | 'enterprise';
       this.usageCache.set(cacheKey, usage);
+      this.usageCachedAt.set(cacheKey, Date.now());
     }
-    
+
+    // The tier comes from the authenticated user, so it may have changed since caching
+    usage.tier = userTier as 'free' | 'premium' | 'enterprise';
+
     return usage;
   }
 
   /**
-   * Load usage from database (placeholder - in production, use actual DB)
+   * Load the month's usage totals from the usage repository
    */
   private async loadUsageFromDB(userId: string, monthYear: string): Promise<UserUsage> {
-    // TODO: Implement actual database query
-    // SELECT * FROM user_usage WHERE user_id = $1 AND month_year = $2
-    
+    const record = await usageRepository.find(userId, monthYear);
+
     return {
       userId,
       monthYear,
-      rewritesCount: 0,
-      tokensUsed: 0,
-      costUSD: 0,
+      rewritesCount: record?.rewritesCount || 0,
+      tokensUsed: record?.tokensUsed || 0,
+      costUSD: record?.costUSD || 0,
+      topUp: record?.topUp || { rewrites: 0, budgetUSD: 0 },
       tier: 'free'
     };
   }
 
   /**
-   * Update usage in database (placeholder - in production, use actual DB)
-   */
-  private async updateUsageInDB(usage: UserUsage): Promise<void> {
-    // TODO: Implement actual database update
-    // INSERT INTO user_usage (...) VALUES (...) 
-    // ON CONFLICT (user_id, month_year) DO UPDATE SET ...
-    
-    logger.debug('Usage would be saved to DB', usage);
-  }
-
-  /**
-   * Get current month-year string
+   * Get current month-year string. Months are cut in USAGE_TIME_ZONE (UTC), like usage history.
    */
   private getCurrentMonthYear(): string {
     const now = new Date();
-    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
   }
 
   /**
@@ -337,6 +609,13 @@ class MeteringService {
     for (const [key, usage] of this.usageCache.entries()) {
       if (usage.monthYear !== currentMonthYear) {
         this.usageCache.delete(key);
+        this.usageCachedAt.delete(key);
+      }
+    }
+
+    for (const [userId, { cachedAt }] of this.membershipCache.entries()) {
+      if (Date.now() - cachedAt > this.USAGE_CACHE_TTL_MS) {
+        this.membershipCache.delete(userId);
       }
     }
     
@@ -0,0 +1,156 @@
+import { v4 as uuidv4 } from 'uuid';
+import { QuotaEvent, QuotaMetric, QuotaScope } from '@tone-slyder/shared/types';
+import { logger } from '../config/logger';
+import { userRepository } from '../repositories/userRepository';
+import { preferencesRepository } from '../repositories/preferencesRepository';
+import { organizationRepository } from '../repositories/organizationRepository';
+import { quotaNotificationRepository } from '../repositories/quotaNotificationRepository';
+import { emailService } from './emailService';
+import { webhookService } from './webhookService';
+
+// Percent of a limit at which users hear about it; 100 is sent as quota.exceeded
+const THRESHOLDS = [80, 95, 100];
+
+export interface QuotaMeasure {
+  scope: QuotaScope;
+  userId: string;             // Whose usage was measured
+  organizationId?: string;
+  organizationName?: string;
+  metric: QuotaMetric;
+  used: number;
+  limit: number;
+}
+
+function describeAmount(metric: QuotaMetric, amount: number): string {
+  return metric === 'budget' ? `$${amount.toFixed(2)}` : `${amount} rewrites`;
+}
+
+function describeQuota(measure: QuotaMeasure): string {
+  const what = measure.metric === 'budget' ? 'monthly budget' : 'monthly rewrites';
+
+  switch (measure.scope) {
+    case 'organization':
+      return `${measure.organizationName}'s shared ${what}`;
+    case 'member':
+      return `your ${what} in ${measure.organizationName}`;
+    default:
+      return `your ${what}`;
+  }
+}
+
+/**
+ * Notification Service
+ * Turns usage measurements into quota events, each threshold at most once per subject and month,
+ * and delivers them by email (unless the recipient turned quota warnings off) and webhook.
+ */
+class NotificationService {
+  /**
+   * Notify about thresholds newly crossed. When several are crossed at once, only the
+   * highest is sent; the lower ones are marked so they don't follow later.
+   */
+  async evaluate(measures: QuotaMeasure[], monthYear: string): Promise<void> {
+    for (const measure of measures) {
+      if (measure.limit <= 0) continue;
+
+      const percent = (measure.used / measure.limit) * 100;
+      let highest: number | undefined;
+
+      for (const threshold of THRESHOLDS.filter(threshold => percent >= threshold)) {
+        if (await quotaNotificationRepository.claim(this.subject(measure), monthYear, measure.metric, threshold)) {
+          highest = threshold;
+        }
+      }
+
+      if (highest !== undefined) {
+        await this.notify(measure, highest, monthYear);
+      }
+    }
+  }
+
+  /**
+   * Announce a user's own thresholds again this month, e.g. after their usage is reset
+   * or topped up. Organization pools are unaffected.
+   */
+  async rearm(userId: string, monthYear: string): Promise<void> {
+    await Promise.all([
+      quotaNotificationRepository.release(`user:${userId}`, monthYear),
+      quotaNotificationRepository.release(`member:${userId}`, monthYear)
+    ]);
+  }
+
+  private subject(measure: QuotaMeasure): string {
+    return measure.scope === 'organization'
+      ? `organization:${measure.organizationId}`
+      : `${measure.scope}:${measure.userId}`;
+  }
+
+  // A shared pool concerns whoever manages the organization
+  private async recipients(measure: QuotaMeasure): Promise<string[]> {
+    if (measure.scope !== 'organization' || !measure.organizationId) {
+      return [measure.userId];
+    }
+
+    const members = await organizationRepository.listMembers(measure.organizationId);
+    return members.filter(member => member.role !== 'member').map(member => member.userId);
+  }
+
+  private async notify(measure: QuotaMeasure, threshold: number, monthYear: string): Promise<void> {
+    const recipients = await this.recipients(measure);
+
+    await Promise.all(recipients.map(async userId => {
+      const event: QuotaEvent = {
+        id: uuidv4(),
+        type: threshold >= 100 ? 'quota.exceeded' : 'quota.warning',
+        createdAt: new Date().toISOString(),
+        data: {
+          userId,
+          scope: measure.scope,
+          organizationId: measure.organizationId,
+          metric: measure.metric,
+          threshold,
+          used: measure.used,
+          limit: measure.limit,
+          monthYear
+        }
+      };
+
+      logger.info('Quota notification', { userId, type: event.type, scope: measure.scope, metric: measure.metric, threshold });
+
+      const results = await Promise.allSettled([
+        this.email(userId, event, measure),
+        webhookService.dispatch(userId, event)
+      ]);
+      results.forEach(result => {
+        if (result.status === 'rejected') {
+          logger.error('Failed to deliver quota notification', { userId, eventId: event.id, error: result.reason?.message });
+        }
+      });
+    }));
+  }
+
+  private async email(userId: string, event: QuotaEvent, measure: QuotaMeasure): Promise<void> {
+    const preferences = await preferencesRepository.get(userId);
+    if (preferences?.notificationSettings?.quotaWarnings === false) return;
+
+    const user = await userRepository.findById(userId);
+    if (!user) return;
+
+    const quota = describeQuota(measure);
+    const usage = `${describeAmount(measure.metric, measure.used)} of ${describeAmount(measure.metric, measure.limit)} used`;
+
+    const message = event.type === 'quota.exceeded'
+      ? {
+          subject: `You've reached ${quota}`,
+          text: `You've reached ${quota} for ${event.data.monthYear} (${usage}). ` +
+            'Further requests will be refused until next month unless the limit is raised.'
+        }
+      : {
+          subject: `You've used ${event.data.threshold}% of ${quota}`,
+          text: `You've used ${event.data.threshold}% of ${quota} for ${event.data.monthYear} (${usage}).`
+        };
+
+    await emailService.send({ to: user.email, ...message });
+  }
+}
+
+export const notificationService = new NotificationService();
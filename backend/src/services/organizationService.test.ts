@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AuthSession } from '@tone-slyder/shared/types';
+import { authService } from './authService';
+import { organizationService } from './organizationService';
+import { meteringService } from './meteringService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function register(): Promise<AuthSession> {
+  return authService.register(`${uuidv4()}@example.com`, 'correct horse battery staple');
+}
+
+// An organization owned by a new account
+async function createOrganization() {
+  const owner = await register();
+  const organization = await organizationService.create(owner.user.id, 'Acme');
+
+  return { owner, organization };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('organization invitations', () => {
+  it('answers the same whether or not the email has an account', async () => {
+    const { owner, organization } = await createOrganization();
+    const registered = await register();
+
+    const toExisting = await organizationService.invite(owner.user.id, organization.id, {
+      email: registered.user.email,
+      role: 'member'
+    });
+    const toUnknown = await organizationService.invite(owner.user.id, organization.id, {
+      email: `${uuidv4()}@example.com`,
+      role: 'member'
+    });
+
+    const shape = ({ id, email, invitedAt, expiresAt, ...rest }: typeof toExisting) => rest;
+    expect(shape(toExisting)).toEqual(shape(toUnknown));
+    expect(Object.keys(toExisting).sort()).toEqual(Object.keys(toUnknown).sort());
+  });
+
+  it('leaves the invited user out of the organization until they accept', async () => {
+    const { owner, organization } = await createOrganization();
+    const invited = await register();
+
+    await organizationService.invite(owner.user.id, organization.id, { email: invited.user.email, role: 'member' });
+
+    expect(await organizationService.getForUser(invited.user.id)).toBeNull();
+    const members = await organizationService.listMembers(owner.user.id, organization.id);
+    expect(members.map(member => member.userId)).not.toContain(invited.user.id);
+  });
+
+  it('joins the user on the invitation terms when they accept', async () => {
+    const { owner, organization } = await createOrganization();
+    const invited = await register();
+    await organizationService.invite(owner.user.id, organization.id, {
+      email: invited.user.email.toUpperCase(),
+      role: 'admin',
+      monthlyRewriteLimit: 5
+    });
+
+    const [invitation] = await organizationService.listInvitationsForUser(invited.user.id);
+    const joined = await organizationService.acceptInvitation(invited.user.id, invitation.id);
+
+    expect(invitation.organizationName).toBe('Acme');
+    expect(joined).toEqual(expect.objectContaining({ id: organization.id, role: 'admin' }));
+    const members = await organizationService.listMembers(owner.user.id, organization.id);
+    expect(members.find(member => member.userId === invited.user.id)?.monthlyRewriteLimit).toBe(5);
+    expect(await organizationService.listInvitationsForUser(invited.user.id)).toEqual([]);
+  });
+
+  it("applies the organization's limits only from acceptance", async () => {
+    const { owner, organization } = await createOrganization();
+    const invited = await register();
+    const invalidate = jest.spyOn(meteringService, 'invalidateMembership');
+    const invitation = await organizationService.invite(owner.user.id, organization.id, {
+      email: invited.user.email,
+      role: 'member'
+    });
+
+    expect(invalidate).not.toHaveBeenCalledWith(invited.user.id);
+
+    await organizationService.acceptInvitation(invited.user.id, invitation.id);
+
+    expect(invalidate).toHaveBeenCalledWith(invited.user.id);
+  });
+
+  it('only lets the invited user accept or decline', async () => {
+    const { owner, organization } = await createOrganization();
+    const invited = await register();
+    const someoneElse = await register();
+    const invitation = await organizationService.invite(owner.user.id, organization.id, {
+      email: invited.user.email,
+      role: 'member'
+    });
+
+    await expect(organizationService.acceptInvitation(someoneElse.user.id, invitation.id)).rejects.toMatchObject({
+      code: 'invitation_not_found',
+      status: 404
+    });
+    await expect(organizationService.declineInvitation(someoneElse.user.id, invitation.id)).rejects.toMatchObject({
+      code: 'invitation_not_found'
+    });
+    expect(await organizationService.listInvitationsForUser(someoneElse.user.id)).toEqual([]);
+  });
+
+  it('refuses an invitation once it has expired', async () => {
+    const { owner, organization } = await createOrganization();
+    const invited = await register();
+    const invitation = await organizationService.invite(owner.user.id, organization.id, {
+      email: invited.user.email,
+      role: 'member'
+    });
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 15 * DAY_MS);
+
+    expect(await organizationService.listInvitationsForUser(invited.user.id)).toEqual([]);
+    await expect(organizationService.acceptInvitation(invited.user.id, invitation.id)).rejects.toMatchObject({
+      code: 'invitation_not_found'
+    });
+  });
+
+  it('refuses to join a second organization', async () => {
+    const first = await createOrganization();
+    const second = await createOrganization();
+    const invited = await register();
+    const invitation = await organizationService.invite(first.owner.user.id, first.organization.id, {
+      email: invited.user.email,
+      role: 'member'
+    });
+    await organizationService.acceptInvitation(invited.user.id, invitation.id);
+    const another = await organizationService.invite(second.owner.user.id, second.organization.id, {
+      email: invited.user.email,
+      role: 'member'
+    });
+
+    await expect(organizationService.acceptInvitation(invited.user.id, another.id)).rejects.toMatchObject({
+      code: 'already_in_organization',
+      status: 409
+    });
+  });
+
+  it('replaces a pending invitation when the same email is invited again', async () => {
+    const { owner, organization } = await createOrganization();
+    const email = `${uuidv4()}@example.com`;
+
+    const first = await organizationService.invite(owner.user.id, organization.id, { email, role: 'member' });
+    const second = await organizationService.invite(owner.user.id, organization.id, {
+      email,
+      role: 'member',
+      monthlyBudgetUSD: 2
+    });
+
+    const pending = await organizationService.listInvitations(owner.user.id, organization.id);
+    expect(second.id).toBe(first.id);
+    expect(pending).toEqual([expect.objectContaining({ id: first.id, monthlyBudgetUSD: 2 })]);
+  });
+
+  it('lets the user decline and admins withdraw invitations', async () => {
+    const { owner, organization } = await createOrganization();
+    const invited = await register();
+    const declined = await organizationService.invite(owner.user.id, organization.id, {
+      email: invited.user.email,
+      role: 'member'
+    });
+    const withdrawn = await organizationService.invite(owner.user.id, organization.id, {
+      email: `${uuidv4()}@example.com`,
+      role: 'member'
+    });
+
+    await organizationService.declineInvitation(invited.user.id, declined.id);
+    await organizationService.revokeInvitation(owner.user.id, organization.id, withdrawn.id);
+
+    expect(await organizationService.listInvitations(owner.user.id, organization.id)).toEqual([]);
+    await expect(organizationService.acceptInvitation(invited.user.id, declined.id)).rejects.toMatchObject({
+      code: 'invitation_not_found'
+    });
+  });
+
+  it('keeps invitations to admins and above for owners, and the list for admins', async () => {
+    const { owner, organization } = await createOrganization();
+    const admin = await register();
+    const member = await register();
+    for (const [session, role] of [[admin, 'admin'], [member, 'member']] as const) {
+      const invitation = await organizationService.invite(owner.user.id, organization.id, { email: session.user.email, role });
+      await organizationService.acceptInvitation(session.user.id, invitation.id);
+    }
+
+    await expect(organizationService.invite(admin.user.id, organization.id, {
+      email: `${uuidv4()}@example.com`,
+      role: 'admin'
+    })).rejects.toMatchObject({ code: 'insufficient_role', status: 403 });
+    await expect(organizationService.listInvitations(member.user.id, organization.id)).rejects.toMatchObject({
+      code: 'insufficient_role'
+    });
+  });
+});
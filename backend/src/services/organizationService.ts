@@ -0,0 +1,408 @@
+import {
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationRole,
+  OrganizationUsage
+} from '@tone-slyder/shared/types';
+import { logger } from '../config/logger';
+import { userRepository, UserRecord } from '../repositories/userRepository';
+import { usageRepository } from '../repositories/usageRepository';
+import {
+  organizationRepository,
+  OrganizationRecord,
+  MemberRecord,
+  Membership,
+  InvitationRecord
+} from '../repositories/organizationRepository';
+import { meteringService } from './meteringService';
+
+/**
+ * Failure that maps directly onto an HTTP response
+ */
+export class OrganizationError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'OrganizationError';
+  }
+}
+
+export interface NewMember {
+  email: string;
+  role: OrganizationRole;
+  monthlyRewriteLimit?: number;
+  monthlyBudgetUSD?: number;
+}
+
+// null clears a sub-limit
+export interface MemberChanges {
+  role?: OrganizationRole;
+  monthlyRewriteLimit?: number | null;
+  monthlyBudgetUSD?: number | null;
+}
+
+const ROLE_RANK: Record<OrganizationRole, number> = { member: 0, admin: 1, owner: 2 };
+
+const INVITATION_TTL_DAYS = 14;
+
+function toOrganization(organization: OrganizationRecord, role: OrganizationRole): Organization {
+  const limits = meteringService.getTierLimits(organization.tier);
+
+  return {
+    id: organization.id,
+    name: organization.name,
+    tier: organization.tier,
+    role,
+    limits: { monthlyRewrites: limits.monthlyRewrites, monthlyBudgetUSD: limits.monthlyBudgetUSD },
+    createdAt: organization.createdAt.toISOString()
+  };
+}
+
+function toInvitation(invitation: InvitationRecord, organization: OrganizationRecord): OrganizationInvitation {
+  return {
+    id: invitation.id,
+    organizationId: organization.id,
+    organizationName: organization.name,
+    email: invitation.email,
+    role: invitation.role,
+    monthlyRewriteLimit: invitation.monthlyRewriteLimit,
+    monthlyBudgetUSD: invitation.monthlyBudgetUSD,
+    invitedAt: invitation.createdAt.toISOString(),
+    expiresAt: invitation.expiresAt.toISOString()
+  };
+}
+
+function currentMonthYear(): string {
+  const now = new Date();
+  return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Organization Service
+ * Teams that share one monthly rewrite pool and budget. Owners manage everything, admins
+ * manage plain members, and every member may leave. Users join only by accepting an
+ * invitation, since membership replaces their own tier and quota with the organization's
+ * and shows their usage to its admins. A member's sub-limits are checked against their
+ * own monthly totals, so usage from before they joined still counts.
+ */
+class OrganizationService {
+  async getForUser(userId: string): Promise<Organization | null> {
+    const membership = await organizationRepository.findMembership(userId);
+    return membership ? toOrganization(membership.organization, membership.member.role) : null;
+  }
+
+  /**
+   * Start an organization on the creator's tier, with the creator as owner
+   */
+  async create(userId: string, name: string): Promise<Organization> {
+    const user = await this.findUser(userId);
+
+    if (await organizationRepository.findMembership(userId)) {
+      throw new OrganizationError('already_in_organization', 'Leave your current organization before creating another', 409);
+    }
+
+    const { organization } = await organizationRepository.create(name, user.tier, userId);
+    meteringService.invalidateMembership(userId);
+
+    logger.info('Organization created', { organizationId: organization.id, ownerId: userId, tier: organization.tier });
+
+    return toOrganization(organization, 'owner');
+  }
+
+  async rename(actorId: string, organizationId: string, name: string): Promise<Organization> {
+    const actor = await this.requireRole(actorId, organizationId, 'admin');
+    const organization = await organizationRepository.rename(organizationId, name);
+    if (!organization) {
+      throw new OrganizationError('organization_not_found', 'Organization not found', 404);
+    }
+
+    return toOrganization(organization, actor.member.role);
+  }
+
+  async delete(actorId: string, organizationId: string): Promise<void> {
+    await this.requireRole(actorId, organizationId, 'owner');
+    const members = await organizationRepository.listMembers(organizationId);
+
+    await organizationRepository.delete(organizationId);
+    members.forEach(member => meteringService.invalidateMembership(member.userId));
+
+    logger.info('Organization deleted', { organizationId, actorId, members: members.length });
+  }
+
+  async listMembers(actorId: string, organizationId: string): Promise<OrganizationMember[]> {
+    await this.requireRole(actorId, organizationId, 'member');
+    const members = await organizationRepository.listMembers(organizationId);
+    return Promise.all(members.map(member => this.describeMember(member)));
+  }
+
+  /**
+   * Invite an email address to join. The response is the same whether or not the address has
+   * an account, so invitations can't be used to find out who is registered; inviting the same
+   * address again replaces the pending invitation.
+   */
+  async invite(actorId: string, organizationId: string, newMember: NewMember): Promise<OrganizationInvitation> {
+    const actor = await this.requireRole(actorId, organizationId, 'admin');
+    this.assertCanAssign(actor.member, newMember.role);
+
+    const invitation = await organizationRepository.saveInvitation(organizationId, {
+      email: newMember.email,
+      role: newMember.role,
+      monthlyRewriteLimit: newMember.monthlyRewriteLimit,
+      monthlyBudgetUSD: newMember.monthlyBudgetUSD,
+      invitedBy: actorId,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+    });
+
+    logger.info('Organization invitation sent', { organizationId, actorId, invitationId: invitation.id, role: invitation.role });
+
+    return toInvitation(invitation, actor.organization);
+  }
+
+  async listInvitations(actorId: string, organizationId: string): Promise<OrganizationInvitation[]> {
+    const actor = await this.requireRole(actorId, organizationId, 'admin');
+    const invitations = await organizationRepository.listInvitations(organizationId);
+    return invitations.map(invitation => toInvitation(invitation, actor.organization));
+  }
+
+  async revokeInvitation(actorId: string, organizationId: string, invitationId: string): Promise<void> {
+    await this.requireRole(actorId, organizationId, 'admin');
+    const invitation = await organizationRepository.findInvitation(invitationId);
+
+    if (!invitation || invitation.organizationId !== organizationId) {
+      throw new OrganizationError('invitation_not_found', 'Invitation not found', 404);
+    }
+
+    await organizationRepository.deleteInvitation(invitation.id);
+  }
+
+  /**
+   * Pending invitations to the user's email address
+   */
+  async listInvitationsForUser(userId: string): Promise<OrganizationInvitation[]> {
+    const user = await this.findUser(userId);
+    const invitations = await organizationRepository.listInvitationsForEmail(user.email);
+
+    const described = await Promise.all(invitations.map(async invitation => {
+      const organization = await organizationRepository.findById(invitation.organizationId);
+      return organization && toInvitation(invitation, organization);
+    }));
+    return described.filter((invitation): invitation is OrganizationInvitation => !!invitation);
+  }
+
+  /**
+   * Join the organization on the terms of the invitation
+   */
+  async acceptInvitation(userId: string, invitationId: string): Promise<Organization> {
+    const user = await this.findUser(userId);
+    const invitation = await this.findInvitationFor(user, invitationId);
+    const organization = await organizationRepository.findById(invitation.organizationId);
+    if (!organization) {
+      throw new OrganizationError('invitation_not_found', 'Invitation not found', 404);
+    }
+
+    if (await organizationRepository.findMembership(user.id)) {
+      throw new OrganizationError('already_in_organization', 'Leave your current organization before joining another', 409);
+    }
+
+    const member = await organizationRepository.addMember(organization.id, user.id, {
+      role: invitation.role,
+      monthlyRewriteLimit: invitation.monthlyRewriteLimit,
+      monthlyBudgetUSD: invitation.monthlyBudgetUSD
+    });
+    await organizationRepository.deleteInvitation(invitation.id);
+    meteringService.invalidateMembership(user.id);
+
+    logger.info('Organization invitation accepted', { organizationId: organization.id, userId: user.id, role: member.role });
+
+    return toOrganization(organization, member.role);
+  }
+
+  async declineInvitation(userId: string, invitationId: string): Promise<void> {
+    const user = await this.findUser(userId);
+    const invitation = await this.findInvitationFor(user, invitationId);
+
+    await organizationRepository.deleteInvitation(invitation.id);
+  }
+
+  async updateMember(
+    actorId: string,
+    organizationId: string,
+    userId: string,
+    changes: MemberChanges
+  ): Promise<OrganizationMember> {
+    const actor = await this.requireRole(actorId, organizationId, 'admin');
+    const target = await this.findMember(organizationId, userId);
+    this.assertCanManage(actor.member, target);
+
+    const role = changes.role || target.role;
+    if (role !== target.role) {
+      this.assertCanAssign(actor.member, role);
+      if (target.role === 'owner') {
+        await this.assertNotLastOwner(organizationId);
+      }
+    }
+
+    const updated = await organizationRepository.updateMember(organizationId, userId, {
+      role,
+      monthlyRewriteLimit: changes.monthlyRewriteLimit === null
+        ? undefined
+        : changes.monthlyRewriteLimit ?? target.monthlyRewriteLimit,
+      monthlyBudgetUSD: changes.monthlyBudgetUSD === null
+        ? undefined
+        : changes.monthlyBudgetUSD ?? target.monthlyBudgetUSD
+    });
+    if (!updated) {
+      throw new OrganizationError('member_not_found', 'Member not found', 404);
+    }
+    meteringService.invalidateMembership(userId);
+
+    return this.describeMember(updated);
+  }
+
+  /**
+   * Remove a member, or leave when `userId` is the actor
+   */
+  async removeMember(actorId: string, organizationId: string, userId: string): Promise<void> {
+    const leaving = actorId === userId;
+    const actor = await this.requireRole(actorId, organizationId, leaving ? 'member' : 'admin');
+    const target = leaving ? actor.member : await this.findMember(organizationId, userId);
+
+    if (!leaving) {
+      this.assertCanManage(actor.member, target);
+    }
+    if (target.role === 'owner') {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await organizationRepository.removeMember(organizationId, userId);
+    meteringService.invalidateMembership(userId);
+
+    logger.info('Organization member removed', { organizationId, actorId, userId });
+  }
+
+  /**
+   * This month's pooled usage with each member's share. Admins and owners only.
+   */
+  async getUsage(actorId: string, organizationId: string): Promise<OrganizationUsage> {
+    const actor = await this.requireRole(actorId, organizationId, 'admin');
+    const monthYear = currentMonthYear();
+    const { limits } = toOrganization(actor.organization, actor.member.role);
+
+    const [pool, members] = await Promise.all([
+      meteringService.getPoolUsage(organizationId),
+      organizationRepository.listMembers(organizationId)
+    ]);
+
+    const memberUsage = await Promise.all(members.map(async member => {
+      const [described, usage] = await Promise.all([
+        this.describeMember(member),
+        usageRepository.find(member.userId, monthYear)
+      ]);
+
+      return {
+        ...described,
+        rewrites: usage?.rewritesCount || 0,
+        tokens: usage?.tokensUsed || 0,
+        costUSD: usage?.costUSD || 0
+      };
+    }));
+
+    return {
+      monthYear,
+      pool: { rewrites: pool.rewritesCount, tokens: pool.tokensUsed, costUSD: pool.costUSD },
+      limits,
+      utilization: {
+        rewritesPercent: Math.round((pool.rewritesCount / limits.monthlyRewrites) * 100),
+        budgetPercent: Math.round((pool.costUSD / limits.monthlyBudgetUSD) * 100)
+      },
+      members: memberUsage.sort((a, b) => b.costUSD - a.costUSD)
+    };
+  }
+
+  /**
+   * The actor's membership, provided it is in this organization with at least `minimum` role.
+   * Non-members get a 404 so organization IDs can't be probed.
+   */
+  private async requireRole(userId: string, organizationId: string, minimum: OrganizationRole): Promise<Membership> {
+    const membership = await organizationRepository.findMembership(userId);
+
+    if (!membership || membership.organization.id !== organizationId) {
+      throw new OrganizationError('organization_not_found', 'Organization not found', 404);
+    }
+    if (ROLE_RANK[membership.member.role] < ROLE_RANK[minimum]) {
+      throw new OrganizationError('insufficient_role', `This action requires the ${minimum} role`, 403);
+    }
+
+    return membership;
+  }
+
+  private async findUser(userId: string): Promise<UserRecord> {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new OrganizationError('user_not_found', 'User not found', 404);
+    }
+    return user;
+  }
+
+  /**
+   * An unexpired invitation addressed to the user. Anyone else's gets a 404, like a missing one.
+   */
+  private async findInvitationFor(user: UserRecord, invitationId: string): Promise<InvitationRecord> {
+    const invitation = await organizationRepository.findInvitation(invitationId);
+
+    if (!invitation || invitation.email !== user.email.toLowerCase() || invitation.expiresAt.getTime() <= Date.now()) {
+      throw new OrganizationError('invitation_not_found', 'Invitation not found', 404);
+    }
+    return invitation;
+  }
+
+  private async findMember(organizationId: string, userId: string): Promise<MemberRecord> {
+    const membership = await organizationRepository.findMembership(userId);
+
+    if (!membership || membership.organization.id !== organizationId) {
+      throw new OrganizationError('member_not_found', 'Member not found', 404);
+    }
+    return membership.member;
+  }
+
+  // Admins manage plain members only; owners manage everyone
+  private assertCanManage(actor: MemberRecord, target: MemberRecord): void {
+    if (actor.role !== 'owner' && target.role !== 'member') {
+      throw new OrganizationError('insufficient_role', 'Only owners can manage admins and owners', 403);
+    }
+  }
+
+  private assertCanAssign(actor: MemberRecord, role: OrganizationRole): void {
+    if (actor.role !== 'owner' && role !== 'member') {
+      throw new OrganizationError('insufficient_role', 'Only owners can grant the admin or owner role', 403);
+    }
+  }
+
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    const members = await organizationRepository.listMembers(organizationId);
+
+    if (members.filter(member => member.role === 'owner').length <= 1) {
+      throw new OrganizationError('last_owner', 'An organization needs an owner. Make someone else an owner first, or delete the organization.', 409);
+    }
+  }
+
+  private async describeMember(member: MemberRecord): Promise<OrganizationMember> {
+    const user = await userRepository.findById(member.userId);
+
+    return {
+      userId: member.userId,
+      email: user?.email || '',
+      displayName: user?.displayName,
+      role: member.role,
+      monthlyRewriteLimit: member.monthlyRewriteLimit,
+      monthlyBudgetUSD: member.monthlyBudgetUSD,
+      joinedAt: member.joinedAt.toISOString()
+    };
+  }
+}
+
+export const organizationService = new OrganizationService();
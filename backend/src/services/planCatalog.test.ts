@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PlanCatalog } from '@tone-slyder/shared/types';
+import { DEFAULT_PLAN_CATALOG } from '../config/plans';
+import { planCatalog, PlanCatalogError } from './planCatalog';
+import { meteringService } from './meteringService';
+
+const ADMIN_ID = '00000000-0000-4000-8000-000000000001';
+
+// A fresh catalog service (and config) reading PLANS_FILE from the given catalog
+function loadWithFile(catalog: unknown): typeof planCatalog {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'plans-')), 'plans.json');
+  fs.writeFileSync(file, JSON.stringify(catalog));
+  process.env.PLANS_FILE = file;
+
+  try {
+    let service!: typeof planCatalog;
+    jest.isolateModules(() => {
+      service = require('./planCatalog').planCatalog;
+    });
+    return service;
+  } finally {
+    delete process.env.PLANS_FILE;
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  }
+}
+
+describe('planCatalog defaults', () => {
+  it('starts from the built-in catalog', () => {
+    expect(planCatalog.getSource()).toBe('default');
+    expect(planCatalog.getTier('premium')).toEqual(DEFAULT_PLAN_CATALOG.tiers.premium);
+    expect(planCatalog.getModel('gpt-4')?.inputPer1k).toBe(0.03);
+  });
+
+  it("gives unknown tiers the free tier's limits", () => {
+    expect(planCatalog.getTier('platinum')).toEqual(planCatalog.getTier('free'));
+  });
+
+  it('lists each model with the lowest tier that includes it', () => {
+    const tiers = Object.fromEntries(planCatalog.listModels().map(model => [model.id, model.tier]));
+
+    expect(tiers).toEqual(expect.objectContaining({ 'gpt-3.5-turbo': 'free', 'gpt-4': 'premium' }));
+  });
+});
+
+describe('planCatalog files', () => {
+  it('reads the catalog from PLANS_FILE', () => {
+    const catalog: PlanCatalog = {
+      ...DEFAULT_PLAN_CATALOG,
+      tiers: { ...DEFAULT_PLAN_CATALOG.tiers, free: { ...DEFAULT_PLAN_CATALOG.tiers.free, monthlyRewrites: 7 } }
+    };
+
+    const service = loadWithFile(catalog);
+
+    expect(service.getSource()).toBe('file');
+    expect(service.getTier('free').monthlyRewrites).toBe(7);
+  });
+
+  it('fails at startup on an invalid catalog file', () => {
+    const catalog = { ...DEFAULT_PLAN_CATALOG, tiers: { free: DEFAULT_PLAN_CATALOG.tiers.free } };
+
+    expect(() => loadWithFile(catalog)).toThrow(/Invalid plan catalog/);
+  });
+});
+
+describe('planCatalog edits', () => {
+  it("changes a tier's limits for metering", async () => {
+    await planCatalog.updateTier('free', { monthlyRewrites: 250 }, ADMIN_ID);
+
+    expect(planCatalog.getSource()).toBe('database');
+    expect(meteringService.getTierLimits('free')).toEqual({ ...DEFAULT_PLAN_CATALOG.tiers.free, monthlyRewrites: 250 });
+  });
+
+  it('refuses tier access to models the API cannot route', async () => {
+    const attempt = planCatalog.updateTier('premium', { modelAccess: ['gpt-3.5-turbo', 'gpt-5'] }, ADMIN_ID);
+
+    await expect(attempt).rejects.toBeInstanceOf(PlanCatalogError);
+    await expect(attempt).rejects.toMatchObject({ code: 'unknown_model' });
+    expect(planCatalog.getTier('premium').modelAccess).not.toContain('gpt-5');
+  });
+
+  it('reprices a model for metering', async () => {
+    const { id, provider, ...plan } = planCatalog.getModel('gpt-3.5-turbo')!;
+
+    await planCatalog.upsertModel(id, { ...plan, inputPer1k: 0.01, outputPer1k: 0.02 }, ADMIN_ID);
+
+    expect(planCatalog.getModel(id)).toMatchObject({ provider, inputPer1k: 0.01, outputPer1k: 0.02 });
+    expect(meteringService.priceTokens(id, 1000, 1000)).toBeCloseTo(0.03);
+  });
+
+  it('refuses to price models the API cannot route', async () => {
+    const plan = planCatalog.getModel('gpt-4')!;
+
+    await expect(planCatalog.upsertModel('gpt-5', plan, ADMIN_ID)).rejects.toMatchObject({
+      code: 'unknown_model',
+      status: 404
+    });
+  });
+
+  it('drops models no tier may use from the listing', async () => {
+    for (const tier of ['premium', 'enterprise'] as const) {
+      const modelAccess = planCatalog.getTier(tier).modelAccess.filter(model => model !== 'gpt-4');
+      await planCatalog.updateTier(tier, { modelAccess }, ADMIN_ID);
+    }
+
+    expect(planCatalog.listModels().map(model => model.id)).not.toContain('gpt-4');
+  });
+});
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import Joi from 'joi';
+import { PlanCatalog, PlanTier, TierPlan, ModelPlan } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { logger } from '../config/logger';
+import { DEFAULT_PLAN_CATALOG } from '../config/plans';
+import { planCatalogRepository } from '../repositories/planCatalogRepository';
+import { llmService } from './llmService';
+
+// Other replicas pick up admin edits within this long
+const REFRESH_MS = 60 * 1000;
+
+const TIERS: PlanTier[] = ['free', 'premium', 'enterprise'];
+
+export const tierPlanSchema = Joi.object({
+  monthlyRewrites: Joi.number().integer().min(0).required(),
+  monthlyBudgetUSD: Joi.number().min(0).required(),
+  rateLimitPerHour: Joi.number().integer().min(1).required(),
+  modelAccess: Joi.array().items(Joi.string().max(100)).unique().required()
+});
+
+// The provider comes from the model's route, not from the catalog author
+export const modelPlanSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  inputPer1k: Joi.number().min(0).required(),
+  outputPer1k: Joi.number().min(0).required(),
+  maxTokens: Joi.number().integer().min(1).required(),
+  description: Joi.string().max(500).allow('').default(''),
+  features: Joi.array().items(Joi.string().max(100)).max(10).default([])
+});
+
+const planCatalogSchema = Joi.object({
+  tiers: Joi.object(Object.fromEntries(TIERS.map(tier => [tier, tierPlanSchema.required()]))).required(),
+  models: Joi.array().items(modelPlanSchema.keys({
+    id: Joi.string().max(100).required(),
+    provider: Joi.string().valid('openai', 'anthropic', 'local').required()
+  })).unique('id').required(),
+  updatedAt: Joi.string().optional()
+});
+
+export type PlanSource = 'default' | 'file' | 'database';
+
+export type ListedModel = ModelPlan & { tier: PlanTier };
+
+/**
+ * Failure that maps directly onto an HTTP response
+ */
+export class PlanCatalogError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'PlanCatalogError';
+  }
+}
+
+function readCatalogFile(file: string): PlanCatalog {
+  const { error, value } = planCatalogSchema.validate(JSON.parse(fs.readFileSync(file, 'utf8')));
+  if (error) {
+    throw new Error(`Invalid plan catalog in ${file}: ${error.details[0].message}`);
+  }
+  return value;
+}
+
+/**
+ * Plan Catalog
+ * Tier limits and model prices. Starts from PLANS_FILE (or the built-in catalog) and switches
+ * to the stored catalog once an admin has edited it. Metering, the model listings and the
+ * admin API all read from here.
+ */
+class PlanCatalogService {
+  private catalog: PlanCatalog;
+  private source: PlanSource;
+  private loadedAt = 0;
+  private refreshing?: Promise<void>;
+
+  constructor() {
+    // An unreadable catalog file is a deployment error, so fail at startup
+    this.catalog = config.plans.file ? readCatalogFile(config.plans.file) : DEFAULT_PLAN_CATALOG;
+    this.source = config.plans.file ? 'file' : 'default';
+  }
+
+  /**
+   * Switch to the stored catalog, if an admin has saved one
+   */
+  async load(): Promise<void> {
+    const stored = await planCatalogRepository.get();
+    this.loadedAt = Date.now();
+
+    if (stored) {
+      this.catalog = stored;
+      this.source = 'database';
+    }
+  }
+
+  get(): PlanCatalog {
+    if (Date.now() - this.loadedAt > REFRESH_MS && !this.refreshing) {
+      this.refreshing = this.load()
+        .catch(error => {
+          logger.warn('Unable to refresh plan catalog', { error: error.message });
+        })
+        .finally(() => { this.refreshing = undefined; });
+    }
+    return this.catalog;
+  }
+
+  getSource(): PlanSource {
+    return this.source;
+  }
+
+  /**
+   * Limits for a tier; unknown tiers get the free tier's limits
+   */
+  getTier(tier: string): TierPlan {
+    const { tiers } = this.get();
+    return tiers[tier as PlanTier] || tiers.free;
+  }
+
+  getModel(id: string): ModelPlan | undefined {
+    return this.get().models.find(model => model.id === id);
+  }
+
+  /**
+   * Priced models that some tier may use, with the lowest tier that includes them,
+   * followed by self-hosted models (free, open to every tier)
+   */
+  listModels(): ListedModel[] {
+    const { tiers, models } = this.get();
+
+    const hosted = models.flatMap(model => {
+      const tier = TIERS.find(candidate => tiers[candidate].modelAccess.includes(model.id));
+      return tier ? [{ ...model, tier }] : [];
+    });
+
+    const local = llmService.getLocalModelIds().map(id => ({
+      id,
+      name: `${id} (self-hosted)`,
+      provider: 'local' as const,
+      inputPer1k: 0,
+      outputPer1k: 0,
+      maxTokens: config.models.maxTokens,
+      description: 'Self-hosted model; text never leaves your infrastructure',
+      features: ['Private', 'No usage cost'],
+      tier: 'free' as const
+    }));
+
+    return [...hosted, ...local];
+  }
+
+  async updateTier(tier: PlanTier, changes: Partial<TierPlan>, actorId: string): Promise<PlanCatalog> {
+    const hosted = llmService.getModelIds().filter(id => !llmService.getLocalModelIds().includes(id));
+    const unknown = (changes.modelAccess || []).filter(id => !hosted.includes(id));
+    if (unknown.length > 0) {
+      throw new PlanCatalogError('unknown_model', `Unknown hosted model(s): ${unknown.join(', ')}`);
+    }
+
+    const catalog = this.get();
+    return this.save({
+      ...catalog,
+      tiers: { ...catalog.tiers, [tier]: { ...catalog.tiers[tier], ...changes } }
+    }, actorId, { tier, changes });
+  }
+
+  /**
+   * Price or describe a hosted model the API can route
+   */
+  async upsertModel(
+    id: string,
+    plan: Omit<ModelPlan, 'id' | 'provider'>,
+    actorId: string
+  ): Promise<PlanCatalog> {
+    if (!llmService.getModelIds().includes(id) || llmService.getLocalModelIds().includes(id)) {
+      throw new PlanCatalogError('unknown_model', `Unknown hosted model: ${id}`, 404);
+    }
+
+    const model: ModelPlan = { id, provider: llmService.resolveModel(id).provider, ...plan };
+    const catalog = this.get();
+    const exists = catalog.models.some(existing => existing.id === id);
+
+    return this.save({
+      ...catalog,
+      models: exists
+        ? catalog.models.map(existing => existing.id === id ? model : existing)
+        : [...catalog.models, model]
+    }, actorId, { model: id, plan });
+  }
+
+  private async save(catalog: PlanCatalog, actorId: string, change: Record<string, unknown>): Promise<PlanCatalog> {
+    const saved = await planCatalogRepository.save(catalog, actorId);
+
+    this.catalog = saved;
+    this.source = 'database';
+    this.loadedAt = Date.now();
+
+    logger.info('Plan catalog updated', { actorId, ...change });
+
+    return saved;
+  }
+}
+
+export const planCatalog = new PlanCatalogService();
@@ -0,0 +1,100 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '../../config/environment';
+import { LLMProvider, LLMResponse, CompletionOptions, StreamOptions, isUsableApiKey } from './types';
+
+/**
+ * Anthropic Messages API adapter.
+ * Point ANTHROPIC_BASE_URL at a local stub to exercise it without network access.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic | null = null;
+
+  constructor() {
+    if (isUsableApiKey(config.llm.anthropic.apiKey)) {
+      this.client = new Anthropic({
+        apiKey: config.llm.anthropic.apiKey,
+        baseURL: config.llm.anthropic.baseUrl || undefined
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async complete(prompt: string, model: string, options: CompletionOptions): Promise<LLMResponse> {
+    const response = await this.getClient().messages.create({
+      model,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ]
+    });
+
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+    const inputTokens = response.usage?.input_tokens || 0;
+    const outputTokens = response.usage?.output_tokens || 0;
+
+    return {
+      text,
+      tokensUsed: inputTokens + outputTokens,
+      inputTokens,
+      outputTokens
+    };
+  }
+
+  async stream(prompt: string, model: string, options: StreamOptions): Promise<LLMResponse> {
+    const stream = await this.getClient().messages.create(
+      {
+        model,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        messages: [
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        stream: true
+      },
+      { signal: options.signal }
+    );
+
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        text += event.delta.text;
+        options.onDelta(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        // Output usage is cumulative on each message_delta
+        outputTokens = event.usage.output_tokens;
+      }
+    }
+
+    return {
+      text,
+      tokensUsed: inputTokens + outputTokens,
+      inputTokens,
+      outputTokens
+    };
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      throw new Error('Anthropic provider is not configured');
+    }
+    return this.client;
+  }
+}
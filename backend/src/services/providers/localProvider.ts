@@ -0,0 +1,42 @@
+import OpenAI from 'openai';
+import { config } from '../../config/environment';
+import { LLMProvider, LLMResponse, CompletionOptions, StreamOptions } from './types';
+import { completeChat, streamChat } from './openaiCompatible';
+
+/**
+ * Self-hosted OpenAI-compatible server (llama.cpp, vLLM, Ollama).
+ * Text never leaves the configured LOCAL_LLM_BASE_URL.
+ */
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local' as const;
+  private client: OpenAI | null = null;
+
+  constructor() {
+    if (config.llm.local.baseUrl) {
+      this.client = new OpenAI({
+        // Most local servers ignore the key, but the SDK requires one
+        apiKey: config.llm.local.apiKey || 'not-needed',
+        baseURL: config.llm.local.baseUrl
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async complete(prompt: string, model: string, options: CompletionOptions): Promise<LLMResponse> {
+    return completeChat(this.getClient(), prompt, model, options);
+  }
+
+  async stream(prompt: string, model: string, options: StreamOptions): Promise<LLMResponse> {
+    return streamChat(this.getClient(), prompt, model, options);
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      throw new Error('Local provider is not configured');
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,82 @@
+import OpenAI from 'openai';
+import { LLMResponse, CompletionOptions, StreamOptions } from './types';
+
+/**
+ * Chat-completions calls shared by OpenAI and OpenAI-compatible self-hosted servers
+ */
+export async function completeChat(
+  client: OpenAI,
+  prompt: string,
+  model: string,
+  options: CompletionOptions
+): Promise<LLMResponse> {
+  const response = await client.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    temperature: options.temperature,
+    max_tokens: options.maxTokens,
+  });
+
+  const inputTokens = response.usage?.prompt_tokens || 0;
+  const outputTokens = response.usage?.completion_tokens || 0;
+
+  return {
+    text: response.choices[0]?.message?.content || '',
+    tokensUsed: response.usage?.total_tokens || inputTokens + outputTokens,
+    inputTokens,
+    outputTokens
+  };
+}
+
+export async function streamChat(
+  client: OpenAI,
+  prompt: string,
+  model: string,
+  options: StreamOptions
+): Promise<LLMResponse> {
+  const stream = await client.chat.completions.create(
+    {
+      model,
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true }
+    },
+    { signal: options.signal }
+  );
+
+  let text = '';
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      options.onDelta(delta);
+    }
+    // Usage arrives on the final chunk when include_usage is honoured
+    if (chunk.usage) {
+      inputTokens = chunk.usage.prompt_tokens;
+      outputTokens = chunk.usage.completion_tokens;
+    }
+  }
+
+  return {
+    text,
+    tokensUsed: inputTokens + outputTokens,
+    inputTokens,
+    outputTokens
+  };
+}
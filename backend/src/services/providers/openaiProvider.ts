@@ -0,0 +1,37 @@
+import OpenAI from 'openai';
+import { config } from '../../config/environment';
+import { LLMProvider, LLMResponse, CompletionOptions, StreamOptions, isUsableApiKey } from './types';
+import { completeChat, streamChat } from './openaiCompatible';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+
+  constructor() {
+    if (isUsableApiKey(config.llm.openai.apiKey)) {
+      this.client = new OpenAI({
+        apiKey: config.llm.openai.apiKey,
+        baseURL: config.llm.openai.baseUrl || undefined
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async complete(prompt: string, model: string, options: CompletionOptions): Promise<LLMResponse> {
+    return completeChat(this.getClient(), prompt, model, options);
+  }
+
+  async stream(prompt: string, model: string, options: StreamOptions): Promise<LLMResponse> {
+    return streamChat(this.getClient(), prompt, model, options);
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      throw new Error('OpenAI provider is not configured');
+    }
+    return this.client;
+  }
+}
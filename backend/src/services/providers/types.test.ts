@@ -0,0 +1,15 @@
+import { isUsableApiKey } from './types';
+
+describe('isUsableApiKey', () => {
+  it('treats missing keys and the .env.example placeholders as unusable', () => {
+    expect(isUsableApiKey('')).toBe(false);
+    expect(isUsableApiKey('your_openai_api_key_here')).toBe(false);
+    expect(isUsableApiKey(' your_anthropic_api_key_here ')).toBe(false);
+  });
+
+  it('accepts real keys whatever they contain', () => {
+    expect(isUsableApiKey('sk-proj-abc123')).toBe(true);
+    expect(isUsableApiKey('sk-ant-api03-herewego')).toBe(true);
+    expect(isUsableApiKey('sk-your_team-key')).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { ModelProvider } from '@tone-slyder/shared/types';
+
+export interface LLMResponse {
+  text: string;
+  tokensUsed: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionOptions {
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface StreamOptions extends CompletionOptions {
+  onDelta: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Adapter for a single model backend.
+ * `model` is always the provider's own model identifier, not our public ID.
+ */
+export interface LLMProvider {
+  readonly name: ModelProvider;
+  isConfigured(): boolean;
+  complete(prompt: string, model: string, options: CompletionOptions): Promise<LLMResponse>;
+  /**
+   * Emit text deltas as they arrive and resolve with the full response once the stream ends
+   */
+  stream(prompt: string, model: string, options: StreamOptions): Promise<LLMResponse>;
+}
+
+// The values .env.example ships with
+const PLACEHOLDER_API_KEYS = new Set(['your_openai_api_key_here', 'your_anthropic_api_key_here']);
+
+/**
+ * Placeholder keys copied from .env.example count as missing
+ */
+export function isUsableApiKey(apiKey: string): boolean {
+  return !!apiKey && !PLACEHOLDER_API_KEYS.has(apiKey.trim());
+}
@@ -0,0 +1,106 @@
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import * as redis from '../config/redis';
+import {
+  InMemoryRateLimitStore,
+  RateLimitStore,
+  RedisRateLimitStore,
+  rateLimitStore,
+  consumeRateLimit
+} from './rateLimitService';
+
+const MINUTE_MS = 60 * 1000;
+
+// The same sliding-window behaviour, whichever store keeps the log
+function describeSlidingWindow(createStore: () => RateLimitStore) {
+  let store: RateLimitStore;
+  let now: number;
+
+  beforeEach(() => {
+    store = createStore();
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('allows requests up to the limit and counts their weight', async () => {
+    const key = uuidv4();
+
+    const first = await store.consume(key, 5, MINUTE_MS, 3);
+    const second = await store.consume(key, 5, MINUTE_MS, 2);
+
+    expect(first).toEqual({ allowed: true, limit: 5, remaining: 2, resetSeconds: 60 });
+    expect(second).toEqual({ allowed: true, limit: 5, remaining: 0, resetSeconds: 60 });
+  });
+
+  it('refuses requests that would not fit, without counting them', async () => {
+    const key = uuidv4();
+    await store.consume(key, 5, MINUTE_MS, 4);
+
+    const refused = await store.consume(key, 5, MINUTE_MS, 2);
+    const fits = await store.consume(key, 5, MINUTE_MS, 1);
+
+    expect(refused).toEqual(expect.objectContaining({ allowed: false, remaining: 1 }));
+    expect(fits).toEqual(expect.objectContaining({ allowed: true, remaining: 0 }));
+  });
+
+  it('frees each request as it leaves the window', async () => {
+    const key = uuidv4();
+    await store.consume(key, 2, MINUTE_MS, 1);
+    now += 20 * 1000;
+    await store.consume(key, 2, MINUTE_MS, 1);
+
+    const full = await store.consume(key, 2, MINUTE_MS, 1);
+    now += 40 * 1000 + 1;
+    const afterOldestLeft = await store.consume(key, 2, MINUTE_MS, 1);
+
+    expect(full).toEqual(expect.objectContaining({ allowed: false, resetSeconds: 40 }));
+    expect(afterOldestLeft).toEqual(expect.objectContaining({ allowed: true, remaining: 0, resetSeconds: 20 }));
+  });
+
+  it('keeps keys apart', async () => {
+    await store.consume(uuidv4(), 1, MINUTE_MS, 1);
+
+    expect((await store.consume(uuidv4(), 1, MINUTE_MS, 1)).allowed).toBe(true);
+  });
+}
+
+describe('InMemoryRateLimitStore', () => {
+  describeSlidingWindow(() => new InMemoryRateLimitStore());
+});
+
+// Runs the Lua script against a real server; set REDIS_TEST_URL to a disposable Redis to include it
+const redisTestUrl = process.env.REDIS_TEST_URL;
+
+(redisTestUrl ? describe : describe.skip)('RedisRateLimitStore', () => {
+  let client: Redis;
+
+  beforeAll(() => {
+    client = new Redis(redisTestUrl!);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(redis, 'getRedis').mockReturnValue(client);
+  });
+
+  afterAll(async () => {
+    await client.quit();
+  });
+
+  describeSlidingWindow(() => new RedisRateLimitStore());
+});
+
+describe('consumeRateLimit', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('allows the request when the store is unreachable', async () => {
+    jest.spyOn(rateLimitStore, 'consume').mockRejectedValue(new Error('ECONNREFUSED'));
+
+    expect(await consumeRateLimit(uuidv4(), 1, MINUTE_MS)).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { randomUUID } from 'crypto';
+import { config } from '../config/environment';
+import { getRedis } from '../config/redis';
+import { logger } from '../config/logger';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;  // Until the oldest counted request leaves the window
+}
+
+export interface RateLimitStore {
+  /**
+   * Count `weight` requests against `key` if they fit in the sliding window.
+   * Rejected requests are not counted.
+   */
+  consume(key: string, limit: number, windowMs: number, weight: number): Promise<RateLimitResult>;
+}
+
+/**
+ * Process-local sliding-window log
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private requests = new Map<string, number[]>();
+
+  constructor() {
+    // Drop keys with no requests left in any window every 10 minutes
+    setInterval(() => this.cleanup(), 10 * 60 * 1000).unref();
+  }
+
+  async consume(key: string, limit: number, windowMs: number, weight: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const timestamps = (this.requests.get(key) || []).filter(timestamp => timestamp > now - windowMs);
+
+    const allowed = timestamps.length + weight <= limit;
+    if (allowed) {
+      for (let i = 0; i < weight; i++) timestamps.push(now);
+    }
+    this.requests.set(key, timestamps);
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - timestamps.length),
+      resetSeconds: timestamps.length > 0 ? Math.ceil((timestamps[0] + windowMs - now) / 1000) : 0
+    };
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, timestamps] of this.requests.entries()) {
+      // Longest window in use is an hour
+      if (timestamps.length === 0 || timestamps[timestamps.length - 1] < now - 60 * 60 * 1000) {
+        this.requests.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Sliding-window log in a Redis sorted set, shared by every API replica.
+ * The check and the insert run in one script so concurrent requests can't both squeeze in.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private static readonly PREFIX = 'ratelimit:';
+
+  // KEYS[1] = set; ARGV = now, windowMs, limit, weight, member prefix
+  private static readonly SCRIPT = `
+    local now = tonumber(ARGV[1])
+    local window = tonumber(ARGV[2])
+    local limit = tonumber(ARGV[3])
+    local weight = tonumber(ARGV[4])
+    redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+    local count = redis.call('ZCARD', KEYS[1])
+    local allowed = 0
+    if count + weight <= limit then
+      for i = 1, weight do
+        redis.call('ZADD', KEYS[1], now, ARGV[5] .. ':' .. i)
+      end
+      count = count + weight
+      allowed = 1
+    end
+    redis.call('PEXPIRE', KEYS[1], window)
+    local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+    local oldestScore = now
+    if oldest[2] then oldestScore = tonumber(oldest[2]) end
+    return { allowed, count, oldestScore }
+  `;
+
+  async consume(key: string, limit: number, windowMs: number, weight: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const [allowed, count, oldest] = await getRedis().eval(
+      RedisRateLimitStore.SCRIPT,
+      1,
+      RedisRateLimitStore.PREFIX + key,
+      now,
+      windowMs,
+      limit,
+      weight,
+      randomUUID()
+    ) as [number, number, number];
+
+    return {
+      allowed: allowed === 1,
+      limit,
+      remaining: Math.max(0, limit - count),
+      resetSeconds: count > 0 ? Math.ceil((oldest + windowMs - now) / 1000) : 0
+    };
+  }
+}
+
+export const rateLimitStore: RateLimitStore =
+  config.rateLimiting.store === 'redis'
+    ? new RedisRateLimitStore()
+    : new InMemoryRateLimitStore();
+
+/**
+ * Consume from the store, allowing the request when the store is unreachable
+ */
+export async function consumeRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number,
+  weight: number = 1
+): Promise<RateLimitResult | null> {
+  try {
+    return await rateLimitStore.consume(key, limit, windowMs, weight);
+  } catch (error: any) {
+    logger.warn('Rate limit store unavailable, allowing request', { key, error: error.message });
+    return null;
+  }
+}
@@ -0,0 +1,142 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_PRESETS } from '@tone-slyder/shared/types';
+import { usageLedgerRepository, NewUsageEvent } from '../repositories/usageLedgerRepository';
+import { presetRepository } from '../repositories/presetRepository';
+import { usageAnalytics, UsageHistoryQuery } from './usageAnalytics';
+import { meteringService } from './meteringService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function lastWeek(): UsageHistoryQuery {
+  return { from: new Date(Date.now() - 7 * DAY_MS), to: new Date(Date.now() + DAY_MS), granularity: 'day', top: 5 };
+}
+
+function recordEvent(userId: string, event: Partial<NewUsageEvent> = {}) {
+  return usageLedgerRepository.record({
+    requestId: uuidv4(),
+    userId,
+    model: 'gpt-3.5-turbo',
+    reason: 'primary',
+    inputTokens: 200,
+    outputTokens: 100,
+    costUSD: 0.0005,
+    savedUSD: 0,
+    ...event
+  });
+}
+
+// Record an event as if it happened at the given time
+async function recordEventAt(time: string, userId: string, event: Partial<NewUsageEvent> = {}) {
+  jest.useFakeTimers({ now: new Date(time) });
+  try {
+    return await recordEvent(userId, event);
+  } finally {
+    jest.useRealTimers();
+  }
+}
+
+function createPreset(creatorId: string, isPublic: boolean) {
+  return presetRepository.create(creatorId, {
+    name: `Preset ${uuidv4().slice(0, 8)}`,
+    description: '',
+    sliderValues: { formality: 70 },
+    tags: [],
+    public: isPublic
+  });
+}
+
+describe('usageAnalytics.getHistory', () => {
+  it('names built-in, own and public presets', async () => {
+    const userId = uuidv4();
+    const own = await createPreset(userId, false);
+    const shared = await createPreset(uuidv4(), true);
+    for (const presetId of [DEFAULT_PRESETS[0].id, own.id, shared.id]) {
+      await recordEvent(userId, { presetId });
+    }
+
+    const { byPreset } = await usageAnalytics.getHistory(userId, lastWeek());
+
+    const names = Object.fromEntries(byPreset.map(group => [group.presetId, group.presetName]));
+    expect(names).toEqual({
+      [DEFAULT_PRESETS[0].id]: DEFAULT_PRESETS[0].name,
+      [own.id]: own.name,
+      [shared.id]: shared.name
+    });
+  });
+
+  it("never reveals the name of another user's private preset", async () => {
+    const userId = uuidv4();
+    const hidden = await createPreset(uuidv4(), false);
+    await recordEvent(userId, { presetId: hidden.id });
+
+    const { byPreset } = await usageAnalytics.getHistory(userId, lastWeek());
+
+    expect(byPreset).toEqual([expect.objectContaining({ presetId: hidden.id, presetName: undefined })]);
+  });
+});
+
+describe('usage periods', () => {
+  const originalTimeZone = process.env.TZ;
+
+  afterEach(() => {
+    process.env.TZ = originalTimeZone;
+    jest.useRealTimers();
+  });
+
+  it('groups calls by UTC day and model, oldest first', async () => {
+    const userId = uuidv4();
+    await recordEventAt('2026-03-02T01:00:00Z', userId, { model: 'gpt-4' });
+    await recordEventAt('2026-03-01T23:30:00Z', userId);
+    await recordEventAt('2026-03-01T08:00:00Z', userId);
+
+    const history = await usageAnalytics.getHistory(userId, {
+      from: new Date('2026-03-01T00:00:00Z'),
+      to: new Date('2026-03-03T00:00:00Z'),
+      granularity: 'day',
+      top: 5
+    });
+
+    expect(history.periods).toEqual([
+      expect.objectContaining({ period: '2026-03-01', calls: 2, byModel: { 'gpt-3.5-turbo': expect.objectContaining({ calls: 2 }) } }),
+      expect.objectContaining({ period: '2026-03-02', calls: 1, byModel: { 'gpt-4': expect.objectContaining({ calls: 1 }) } })
+    ]);
+    expect(history.totals.calls).toBe(3);
+    expect(history.byModel.map(group => [group.model, group.calls])).toEqual(
+      expect.arrayContaining([['gpt-3.5-turbo', 2], ['gpt-4', 1]])
+    );
+  });
+
+  it('ranks requests by cost across their calls and totals cache savings', async () => {
+    const userId = uuidv4();
+    const requestId = uuidv4();
+    await recordEvent(userId, { requestId, costUSD: 0.001 });
+    await recordEvent(userId, { requestId, reason: 'retry', costUSD: 0.002 });
+    await recordEvent(userId, { costUSD: 0.0005 });
+    await recordEvent(userId, { reason: 'cached', costUSD: 0, savedUSD: 0.004 });
+
+    const history = await usageAnalytics.getHistory(userId, { ...lastWeek(), top: 1 });
+
+    expect(history.topRequests).toEqual([expect.objectContaining({ requestId, calls: 2, tokens: 600 })]);
+    expect(history.topRequests[0].costUSD).toBeCloseTo(0.003);
+    expect(history.cacheSavings).toEqual({ hits: 1, savedUSD: 0.004 });
+  });
+
+  it('cuts the monthly breakdown at the same UTC month as the history', async () => {
+    process.env.TZ = 'America/Los_Angeles';
+    const userId = uuidv4();
+    await recordEventAt('2026-03-31T23:30:00Z', userId);
+
+    const history = await usageAnalytics.getHistory(userId, {
+      from: new Date('2026-03-01T00:00:00Z'),
+      to: new Date('2026-05-01T00:00:00Z'),
+      granularity: 'month',
+      top: 5
+    });
+    // Still March 31st in Los Angeles, but April in UTC
+    jest.useFakeTimers({ now: new Date('2026-04-01T00:30:00Z') });
+    const breakdown = await meteringService.getUsageBreakdown(userId);
+
+    expect(history.periods.map(period => period.period)).toEqual(['2026-03']);
+    expect(breakdown.primary.calls).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { UsageHistory, UsagePeriod, UsageTotals } from '@tone-slyder/shared/types';
+import { usageLedgerRepository, UsageAggregateQuery } from '../repositories/usageLedgerRepository';
+import { findVisiblePreset } from '../api/presets';
+import { logger } from '../config/logger';
+
+export type UsageHistoryQuery = UsageAggregateQuery;
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUSD: 0, savedUSD: 0 };
+}
+
+function addTotals(totals: UsageTotals, more: UsageTotals): void {
+  totals.calls += more.calls;
+  totals.inputTokens += more.inputTokens;
+  totals.outputTokens += more.outputTokens;
+  totals.costUSD += more.costUSD;
+  totals.savedUSD += more.savedUSD;
+}
+
+const byCost = (a: UsageTotals, b: UsageTotals) => b.costUSD - a.costUSD;
+
+class UsageAnalyticsService {
+  /**
+   * Trends and breakdowns of a user's recorded usage between two dates. The ledger does the
+   * grouping; only the per-model rows of each period are combined here.
+   */
+  async getHistory(userId: string, options: UsageHistoryQuery): Promise<UsageHistory> {
+    const aggregates = await usageLedgerRepository.aggregate(userId, options);
+
+    const totals = emptyTotals();
+    const periods: UsagePeriod[] = [];
+    const byModel = new Map<string, UsageTotals & { model: string }>();
+
+    // Rows are oldest period first, so periods come out in order
+    aggregates.periods.forEach(({ period, model, ...rowTotals }) => {
+      let current = periods[periods.length - 1];
+      if (current?.period !== period) {
+        current = { period, ...emptyTotals(), byModel: {} };
+        periods.push(current);
+      }
+      addTotals(current, rowTotals);
+      current.byModel[model] = { ...rowTotals };
+
+      if (!byModel.has(model)) byModel.set(model, { model, ...emptyTotals() });
+      addTotals(byModel.get(model)!, rowTotals);
+      addTotals(totals, rowTotals);
+    });
+
+    const byPreset = aggregates.byPreset.map(group => ({ ...group, presetName: undefined as string | undefined }));
+    await this.attachPresetNames(userId, byPreset);
+
+    return {
+      from: options.from.toISOString(),
+      to: options.to.toISOString(),
+      granularity: options.granularity,
+      totals,
+      periods,
+      byModel: Array.from(byModel.values()).sort(byCost),
+      byPreset,
+      bySliders: aggregates.bySliders,
+      topRequests: aggregates.topRequests.map(request => ({
+        requestId: request.requestId,
+        createdAt: request.createdAt.toISOString(),
+        model: request.model,
+        presetId: request.presetId,
+        calls: request.calls,
+        tokens: request.inputTokens + request.outputTokens,
+        costUSD: request.costUSD
+      })),
+      cacheSavings: aggregates.cacheSavings
+    };
+  }
+
+  /**
+   * One row per period and model, for spreadsheet export
+   */
+  toCsv(history: UsageHistory): string {
+    const header = 'period,model,calls,input_tokens,output_tokens,cost_usd,saved_usd';
+    const rows = history.periods.flatMap(period =>
+      Object.entries(period.byModel).map(([model, totals]) => [
+        period.period,
+        // Model IDs are configurable (local models), so quote them
+        `"${model.replace(/"/g, '""')}"`,
+        totals.calls,
+        totals.inputTokens,
+        totals.outputTokens,
+        totals.costUSD.toFixed(6),
+        totals.savedUSD.toFixed(6)
+      ].join(','))
+    );
+
+    return [header, ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Names of the presets the user can still see. Deleted presets, and any the user never had
+   * access to (the ledger records whatever preset ID a request named), keep their ID only.
+   */
+  private async attachPresetNames(
+    userId: string,
+    groups: { presetId: string | null; presetName?: string }[]
+  ): Promise<void> {
+    await Promise.all(groups.map(async group => {
+      if (!group.presetId) return;
+
+      try {
+        group.presetName = (await findVisiblePreset(group.presetId, userId))?.name;
+      } catch (error: any) {
+        logger.warn('Could not resolve preset for usage history', { presetId: group.presetId, error: error.message });
+      }
+    }));
+  }
+}
+
+export const usageAnalytics = new UsageAnalyticsService();
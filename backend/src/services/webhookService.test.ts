@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import dns from 'dns/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import undici, { Response, RequestInit } from 'undici';
+import { v4 as uuidv4 } from 'uuid';
+import { QuotaEvent } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { webhookRepository } from '../repositories/webhookRepository';
+import {
+  webhookService,
+  signPayload,
+  isPublicAddress,
+  assertDeliverableUrl,
+  SIGNATURE_HEADER
+} from './webhookService';
+
+function quotaEvent(userId: string): QuotaEvent {
+  return {
+    id: uuidv4(),
+    type: 'quota.warning',
+    createdAt: new Date().toISOString(),
+    data: { userId, scope: 'user', metric: 'budget', threshold: 80, used: 4, limit: 5, monthYear: '2024-01' }
+  };
+}
+
+// Deliveries run in the background; wait for them to settle
+async function flushDeliveries(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('signPayload', () => {
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const body = JSON.stringify({ hello: 'world' });
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+
+    expect(signPayload('whsec_test', body, 1700000000)).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  it('changes with the secret, the body and the timestamp', () => {
+    const signature = signPayload('whsec_a', '{}', 1700000000);
+
+    expect(signPayload('whsec_b', '{}', 1700000000)).not.toBe(signature);
+    expect(signPayload('whsec_a', '{"a":1}', 1700000000)).not.toBe(signature);
+    expect(signPayload('whsec_a', '{}', 1700000001)).not.toBe(signature);
+  });
+});
+
+describe('isPublicAddress', () => {
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'])('allows %s', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.5.4', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1', 'localhost'
+  ])('blocks %s', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe('assertDeliverableUrl', () => {
+  it('accepts hosts that resolve to public addresses only', async () => {
+    jest.spyOn(dns, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as any);
+
+    await expect(assertDeliverableUrl('https://hooks.example.com/quota')).resolves.toBeUndefined();
+  });
+
+  it('rejects hosts with any internal address', async () => {
+    jest.spyOn(dns, 'lookup').mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.5', family: 4 }
+    ] as any);
+
+    await expect(assertDeliverableUrl('https://hooks.example.com/quota')).rejects.toMatchObject({
+      code: 'webhook_url_not_allowed'
+    });
+  });
+
+  it('rejects internal IP literals without a lookup', async () => {
+    const lookup = jest.spyOn(dns, 'lookup');
+
+    await expect(assertDeliverableUrl('http://169.254.169.254/latest/meta-data')).rejects.toMatchObject({
+      code: 'webhook_url_not_allowed'
+    });
+    await expect(assertDeliverableUrl('http://[::1]:3001/')).rejects.toMatchObject({ code: 'webhook_url_not_allowed' });
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('rejects hosts that do not resolve', async () => {
+    jest.spyOn(dns, 'lookup').mockRejectedValue(new Error('ENOTFOUND'));
+
+    await expect(assertDeliverableUrl('https://nowhere.invalid/')).rejects.toMatchObject({
+      code: 'webhook_host_unresolvable'
+    });
+  });
+});
+
+describe('webhookService', () => {
+  it('refuses to register internal URLs', async () => {
+    await expect(webhookService.create(uuidv4(), 'http://127.0.0.1:6379/', ['quota.warning'])).rejects.toMatchObject({
+      code: 'webhook_url_not_allowed'
+    });
+  });
+
+  it('shows the signing secret only when registering', async () => {
+    const userId = uuidv4();
+    const created = await webhookService.create(userId, 'https://93.184.216.34/hook', ['quota.warning']);
+
+    expect(created.secret).toMatch(/^whsec_/);
+    expect((await webhookService.list(userId))[0]).not.toHaveProperty('secret');
+  });
+
+  it('delivers events signed with the webhook secret, without following redirects', async () => {
+    const userId = uuidv4();
+    const { secret } = await webhookService.create(userId, 'https://93.184.216.34/hook', ['quota.warning']);
+    const fetchMock = jest.spyOn(undici, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+    const event = quotaEvent(userId);
+
+    await webhookService.dispatch(userId, event);
+    await flushDeliveries();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const timestamp = Number(/^t=(\d+),/.exec(headers[SIGNATURE_HEADER])?.[1]);
+
+    expect(url).toBe('https://93.184.216.34/hook');
+    expect(init.redirect).toBe('manual');
+    expect(init.body).toBe(JSON.stringify(event));
+    expect(headers['X-Tone-Slyder-Delivery']).toBe(event.id);
+    expect(headers[SIGNATURE_HEADER]).toBe(signPayload(secret, JSON.stringify(event), timestamp));
+  });
+
+  it('only delivers to webhooks subscribed to the event', async () => {
+    const userId = uuidv4();
+    await webhookService.create(userId, 'https://93.184.216.34/hook', ['quota.exceeded']);
+    const fetchMock = jest.spyOn(undici, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+
+    await webhookService.dispatch(userId, quotaEvent(userId));
+    await flushDeliveries();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  describe('delivering to a host that now resolves inside the network', () => {
+    let server: http.Server;
+    let received: number;
+    let recordDelivery: jest.SpyInstance;
+
+    beforeEach(async () => {
+      received = 0;
+      server = http.createServer((req, res) => {
+        received++;
+        res.writeHead(204).end();
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      jest.spyOn(dns, 'lookup').mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as any);
+      recordDelivery = jest.spyOn(webhookRepository, 'recordDelivery');
+    });
+
+    afterEach(async () => {
+      config.notifications.webhooks.allowPrivateTargets = false;
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    // Registered while the host resolved to a public address
+    function registerWebhook(userId: string) {
+      return webhookRepository.create(userId, {
+        url: `http://hooks.example.com:${(server.address() as AddressInfo).port}/quota`,
+        secret: 'whsec_test',
+        events: ['quota.warning']
+      });
+    }
+
+    // Real deliveries take a few event loop turns longer than flushDeliveries allows
+    async function waitForDelivery(): Promise<void> {
+      for (let i = 0; i < 50 && !recordDelivery.mock.calls.length; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    }
+
+    it('gives up without connecting or retrying', async () => {
+      const userId = uuidv4();
+      const webhook = await registerWebhook(userId);
+
+      await webhookService.dispatch(userId, quotaEvent(userId));
+      await waitForDelivery();
+
+      expect(received).toBe(0);
+      expect(recordDelivery).toHaveBeenCalledWith(webhook.id, 'failed');
+      expect(dns.lookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('connects to the address it resolved when private targets are allowed', async () => {
+      config.notifications.webhooks.allowPrivateTargets = true;
+      const userId = uuidv4();
+      const webhook = await registerWebhook(userId);
+
+      await webhookService.dispatch(userId, quotaEvent(userId));
+      await waitForDelivery();
+
+      expect(received).toBe(1);
+      expect(recordDelivery).toHaveBeenCalledWith(webhook.id, 'delivered');
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import dns from 'dns/promises';
+import { LookupAddress } from 'dns';
+import net from 'net';
+import { Agent, fetch } from 'undici';
+import { CreatedWebhook, NotificationEventType, QuotaEvent, WebhookSummary } from '@tone-slyder/shared/types';
+import { config } from '../config/environment';
+import { logger } from '../config/logger';
+import { webhookRepository, WebhookRecord } from '../repositories/webhookRepository';
+
+// Recognisable prefix, like API keys, so leaked secrets are easy to spot
+const SECRET_PREFIX = 'whsec_';
+
+export const SIGNATURE_HEADER = 'X-Tone-Slyder-Signature';
+
+/**
+ * Failure that maps directly onto an HTTP response
+ */
+export class WebhookError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+// Addresses inside our own network: loopback, private, link-local (cloud metadata),
+// carrier-grade NAT, multicast and reserved ranges. Webhooks may not reach them.
+const BLOCKED_ADDRESSES = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const).forEach(([prefix, bits]) => BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4'));
+([
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const).forEach(([prefix, bits]) => BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6'));
+
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Addresses of a host, all of which must be public unless private targets are allowed
+ */
+async function resolveDeliverable(host: string): Promise<LookupAddress[]> {
+  let addresses: LookupAddress[];
+
+  try {
+    addresses = net.isIP(host) ? [{ address: host, family: net.isIP(host) }] : await dns.lookup(host, { all: true });
+  } catch {
+    throw new WebhookError('webhook_host_unresolvable', `Unable to resolve ${host}`);
+  }
+
+  if (config.notifications.webhooks.allowPrivateTargets) return addresses;
+
+  if (addresses.length === 0 || !addresses.every(entry => isPublicAddress(entry.address))) {
+    throw new WebhookError('webhook_url_not_allowed', 'Webhook URLs must point to a public internet host');
+  }
+  return addresses;
+}
+
+/**
+ * Reject URLs whose host is, or resolves to, an internal address. Checked when a webhook is
+ * registered; deliveries check each connection instead (see deliveryAgent).
+ */
+export async function assertDeliverableUrl(url: string): Promise<void> {
+  if (config.notifications.webhooks.allowPrivateTargets) return;
+
+  await resolveDeliverable(new URL(url).hostname.replace(/^\[|\]$/g, ''));
+}
+
+// Deliveries connect only to the addresses that were just checked. Checking the host and then
+// letting fetch resolve it again would let DNS answer differently in between (DNS rebinding).
+// IP literals skip the lookup, but those were checked at registration and can't change.
+const deliveryAgent = new Agent({
+  connect: {
+    lookup: (hostname, options, callback) => {
+      resolveDeliverable(hostname)
+        .then(resolved => {
+          const addresses = options.family
+            ? resolved.filter(entry => entry.family === options.family)
+            : resolved;
+          if (addresses.length === 0) {
+            throw new WebhookError('webhook_host_unresolvable', `Unable to resolve ${hostname}`);
+          }
+
+          if (options.all) {
+            callback(null, addresses);
+          } else {
+            callback(null, addresses[0].address, addresses[0].family);
+          }
+        })
+        .catch(error => callback(error, '', 0));
+    }
+  }
+});
+
+function toSummary(webhook: WebhookRecord): WebhookSummary {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: webhook.events,
+    createdAt: webhook.createdAt.toISOString(),
+    lastDeliveryAt: webhook.lastDeliveryAt?.toISOString(),
+    lastStatus: webhook.lastStatus
+  };
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers recompute the HMAC with
+ * their secret and should reject old timestamps to stop replays.
+ */
+export function signPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Webhook Service
+ * Registers endpoints and delivers signed events to them. Failed deliveries are retried in
+ * the background with exponential backoff; the event ID is sent with every attempt so
+ * receivers can drop duplicates. Retries are best-effort: they are held in memory, so any
+ * still pending when the process stops are lost.
+ */
+class WebhookService {
+  async create(userId: string, url: string, events: NotificationEventType[]): Promise<CreatedWebhook> {
+    await assertDeliverableUrl(url);
+
+    const secret = SECRET_PREFIX + crypto.randomBytes(24).toString('base64url');
+    const webhook = await webhookRepository.create(userId, { url, secret, events });
+
+    logger.info('Webhook registered', { userId, webhookId: webhook.id, events });
+
+    return { ...toSummary(webhook), secret };
+  }
+
+  async list(userId: string): Promise<WebhookSummary[]> {
+    return (await webhookRepository.listByUser(userId)).map(toSummary);
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    return webhookRepository.delete(userId, id);
+  }
+
+  /**
+   * Start delivering an event to each of the user's subscribed webhooks; resolves once queued
+   */
+  async dispatch(userId: string, event: QuotaEvent): Promise<void> {
+    const webhooks = await webhookRepository.listForEvent(userId, event.type);
+    const body = JSON.stringify(event);
+
+    webhooks.forEach(webhook => {
+      this.deliver(webhook, event, body, 1);
+    });
+  }
+
+  private deliver(webhook: WebhookRecord, event: QuotaEvent, body: string, attempt: number): void {
+    const { maxAttempts, retryBaseMs, timeoutMs } = config.notifications.webhooks;
+
+    fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Tone-Slyder-Webhooks/1.0',
+        'X-Tone-Slyder-Event': event.type,
+        'X-Tone-Slyder-Delivery': event.id,
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, body)
+      },
+      body,
+      // A redirect could point anywhere, including inside our network
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+      dispatcher: deliveryAgent
+    })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Endpoint responded ${response.status}`);
+        }
+        return this.recordDelivery(webhook, 'delivered');
+      })
+      .catch(error => {
+        // A host that now resolves inside our network won't improve by retrying. fetch
+        // reports the lookup's error as the cause of its own.
+        if (attempt < maxAttempts && !(error.cause instanceof WebhookError)) {
+          const delay = retryBaseMs * 2 ** (attempt - 1);
+          logger.warn('Webhook delivery failed, retrying', {
+            webhookId: webhook.id,
+            eventId: event.id,
+            attempt,
+            retryInMs: delay,
+            error: error.message
+          });
+
+          setTimeout(() => this.deliver(webhook, event, body, attempt + 1), delay).unref();
+          return;
+        }
+
+        logger.error('Webhook delivery abandoned', {
+          webhookId: webhook.id,
+          eventId: event.id,
+          attempts: attempt,
+          error: error.message
+        });
+        return this.recordDelivery(webhook, 'failed');
+      });
+  }
+
+  private async recordDelivery(webhook: WebhookRecord, status: 'delivered' | 'failed'): Promise<void> {
+    try {
+      await webhookRepository.recordDelivery(webhook.id, status);
+    } catch (error: any) {
+      logger.warn('Failed to record webhook delivery', { webhookId: webhook.id, error: error.message });
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,7 @@
+// Settings the config module requires at import; tests run without a .env file and keep
+// everything in memory, whatever the developer's environment points at
+process.env.PORT = process.env.PORT || '3001';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
+process.env.DATABASE_DRIVER = 'memory';
+process.env.CACHE_DRIVER = 'memory';
+process.env.RATE_LIMIT_STORE = 'memory';
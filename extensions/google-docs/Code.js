@@ -6,6 +6,7 @@
 // Configuration
 const CONFIG = {
   API_BASE_URL: 'https://api.toneslyder.com', // Will be your deployed backend
+  API_KEY_PROPERTY: 'toneSlyderApiKey',         // User property holding the personal API key
   VERSION: '1.0.0'
 };
 
@@ -64,11 +65,73 @@ function createHomepageCard() {
     // Selected text info
     .addSection(CardService.newCardSection()
       .addWidget(CardService.newTextParagraph()
-        .setText('<i>Select text in your document to begin</i>')));
+        .setText('<i>Select text in your document to begin</i>')))
+    
+    // Settings
+    .addSection(CardService.newCardSection()
+      .addWidget(CardService.newTextButton()
+        .setText(getApiKey() ? 'API Key ✓' : 'Set API Key')
+        .setOnClickAction(CardService.newAction()
+          .setFunctionName('showSettings'))));
 
   return card.build();
 }
 
+/**
+ * Show the API key settings card
+ */
+function showSettings(e) {
+  return CardService.newCardBuilder()
+    .setHeader(CardService.newCardHeader()
+      .setTitle('Settings'))
+    .addSection(CardService.newCardSection()
+      .addWidget(CardService.newTextParagraph()
+        .setText('Create a personal API key in Tone Slyder (scopes: <b>rewrite</b> and <b>presets:read</b>) and paste it below.'))
+      .addWidget(CardService.newTextInput()
+        .setFieldName('apiKey')
+        .setTitle('API Key')
+        .setHint(getApiKey() ? 'A key is saved; enter a new one to replace it' : 'tsk_...'))
+      .addWidget(CardService.newTextButton()
+        .setText('Save')
+        .setOnClickAction(CardService.newAction()
+          .setFunctionName('saveApiKey'))))
+    .addSection(CardService.newCardSection()
+      .addWidget(CardService.newTextButton()
+        .setText('← Back to Presets')
+        .setOnClickAction(CardService.newAction()
+          .setFunctionName('onDocsHomepage'))))
+    .build();
+}
+
+/**
+ * Store the API key for the current user
+ */
+function saveApiKey(e) {
+  const apiKey = (e.formInput.apiKey || '').trim();
+  
+  if (!apiKey) {
+    return showError('Please enter an API key');
+  }
+  
+  PropertiesService.getUserProperties().setProperty(CONFIG.API_KEY_PROPERTY, apiKey);
+  return createHomepageCard();
+}
+
+/**
+ * Get the current user's API key, if one has been saved
+ */
+function getApiKey() {
+  return PropertiesService.getUserProperties().getProperty(CONFIG.API_KEY_PROPERTY);
+}
+
+/**
+ * Credentials header for API calls
+ */
+function getAuthHeaders() {
+  const apiKey = getApiKey();
+  return apiKey ? { 'X-API-Key': apiKey } : {};
+}
+
 /**
  * Create a preset button
  */
@@ -90,13 +153,23 @@ function applyPreset(e) {
   if (!selectedText) {
     return showError('Please select some text first');
   }
+  if (!getApiKey()) {
+    return showSettings(e);
+  }
   
   // Show loading state
   const loadingCard = createLoadingCard('Applying ' + preset + ' tone...');
   
   try {
-    // Call Tone Slyder API
-    const result = callToneSliderAPI(selectedText, getPresetSettings(preset));
+    // Use the server-side preset so its guardrails and model come along
+    const presetData = fetchPreset(preset);
+    const result = presetData
+      ? callToneSliderAPI(selectedText, presetData.sliderValues, {
+          guardrails: presetData.guardrails,
+          model: presetData.model,
+          presetId: presetData.id
+        })
+      : callToneSliderAPI(selectedText, getPresetSettings(preset));
     
     if (result && result.rewrittenText) {
       // Replace selected text
@@ -179,6 +252,9 @@ function applyCustomTone(e) {
   if (!selectedText) {
     return showError('Please select some text first');
   }
+  if (!getApiKey()) {
+    return showSettings(e);
+  }
   
   const sliderValues = {
     formality: parseInt(formData.formality) || 50,
@@ -275,22 +351,32 @@ function replaceSelectedText(newText) {
 /**
  * Call Tone Slyder API
  */
-function callToneSliderAPI(originalText, sliderValues) {
+function callToneSliderAPI(originalText, sliderValues, extras) {
+  extras = extras || {};
+
   try {
     const payload = {
       originalText: originalText,
       sliderValues: sliderValues,
-      guardrails: {
+      guardrails: extras.guardrails || {
         required: [],
         banned: []
       }
     };
+
+    if (extras.model) {
+      payload.model = extras.model;
+    }
+    if (extras.presetId) {
+      payload.presetId = extras.presetId;
+    }
+    
+    const headers = getAuthHeaders();
+    headers['Content-Type'] = 'application/json';
     
     const options = {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
+      headers: headers,
       payload: JSON.stringify(payload)
     };
     
@@ -308,6 +394,25 @@ function callToneSliderAPI(originalText, sliderValues) {
   }
 }
 
+/**
+ * Fetch a preset (sliders, guardrails, model) from the API.
+ * Returns null when the API is unreachable so callers can use getPresetSettings.
+ */
+function fetchPreset(presetId) {
+  try {
+    const response = UrlFetchApp.fetch(
+      CONFIG.API_BASE_URL + '/api/presets/' + encodeURIComponent(presetId),
+      { method: 'GET', headers: getAuthHeaders(), muteHttpExceptions: true }
+    );
+    const responseData = JSON.parse(response.getContentText());
+
+    return responseData.success ? responseData.data : null;
+  } catch (error) {
+    console.error('Preset fetch failed:', error);
+    return null;
+  }
+}
+
 /**
  * Get preset settings
  */
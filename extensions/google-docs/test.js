@@ -222,11 +222,12 @@ function testAPIConnectivity() {
   };
   
   try {
+    const headers = getAuthHeaders();
+    headers['Content-Type'] = 'application/json';
+    
     const options = {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
+      headers: headers,
       payload: JSON.stringify(testPayload)
     };
     
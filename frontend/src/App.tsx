@@ -1,22 +1,19 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { SliderPanel } from './components/SliderPanel';
-import { CORE_SLIDERS, CoreSliders, TonePreset, CustomSlider } from './types/shared';
-import { Send, RotateCcw, Loader, CheckCircle, AlertCircle, Save, History } from 'lucide-react';
+import { CustomSliderForm, CustomSliderDraft } from './components/CustomSliderForm';
+import { ApiKeyManager } from './components/ApiKeyManager';
+import { HistoryPanel } from './components/HistoryPanel';
+import { CORE_SLIDERS, CoreSliders, TonePreset, CustomSlider, Guardrails, HistoryEntry, RewriteRequest, RewriteResponse, RewriteVariant, ToneAnalysisResponse } from './types/shared';
+import { Send, RotateCcw, Loader, CheckCircle, AlertCircle, Save, History, Square, LogOut, KeyRound, Clock } from 'lucide-react';
 import axios from 'axios';
 import { useLocalStorage, useAutoSave, useRecentItems, useUserPreferences } from './hooks/useLocalStorage';
-
-interface RewriteResponse {
-  rewrittenText: string;
-  originalText: string;
-  model: string;
-  processingTime: number;
-  tokensUsed: number;
-  guardrailViolations?: string[];
-}
+import { useRewriteStream } from './hooks/useRewriteStream';
+import { useAuth } from './hooks/useAuth';
 
 function App() {
   // User preferences with localStorage persistence
   const { preferences, updatePreference } = useUserPreferences();
+  const { user, logout } = useAuth();
   
   // Core slider states with localStorage persistence
   const [coreValues, setCoreValues] = useLocalStorage<CoreSliders>(
@@ -29,8 +26,12 @@ function App() {
     }
   );
 
-  // Custom sliders with localStorage
-  const [customSliders] = useState<CustomSlider[]>([]);
+  // Custom sliders (own + public) loaded from the API, values kept in localStorage
+  const [customSliders, setCustomSliders] = useState<CustomSlider[]>([]);
+  const [showCustomSliderForm, setShowCustomSliderForm] = useState(false);
+
+  // Preset the current slider values came from; cleared once a slider is moved by hand
+  const [activePresetId, setActivePresetId] = useState<string | undefined>();
   const [customValues, setCustomValues] = useLocalStorage<Record<string, number>>(
     'tone-slyder-custom-values',
     {}
@@ -40,10 +41,18 @@ function App() {
   const [originalText, setOriginalText] = useLocalStorage('tone-slyder-draft-text', '');
   const [rewrittenText, setRewrittenText] = useState('');
 
+  // Candidate rewrites (best-first) when more than one variant is requested
+  const [variantCount, setVariantCount] = useLocalStorage('tone-slyder-variant-count', 1);
+  const [variants, setVariants] = useState<RewriteVariant[]>([]);
+  const [isFetchingVariants, setIsFetchingVariants] = useState(false);
+
   // Guardrails with localStorage persistence
   const [requiredWords, setRequiredWords] = useLocalStorage('tone-slyder-required-words', '');
   const [bannedWords, setBannedWords] = useLocalStorage('tone-slyder-banned-words', '');
 
+  // Model preferred by the last applied preset; the server default is used when unset
+  const [presetModel, setPresetModel] = useState<string | undefined>();
+
   // Recent slider combinations for quick access
   const [recentCombinations, addRecentCombination] = useRecentItems<{
     name: string;
@@ -54,23 +63,35 @@ function App() {
   // Auto-save text content every 2 seconds
   useAutoSave('tone-slyder-draft-text', originalText, 2000);
 
+  // Streaming rewrite
+  const { startStream, cancel: cancelRewrite, isStreaming } = useRewriteStream(
+    'http://localhost:3001/api/rewrite/stream'
+  );
+  const isLoading = isStreaming || isFetchingVariants;
+
   // UI state
-  const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [showRecentCombinations, setShowRecentCombinations] = useState(false);
+  const [isDetectingTone, setIsDetectingTone] = useState(false);
+  const [showApiKeys, setShowApiKeys] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const handleCoreSliderChange = useCallback((sliderId: keyof CoreSliders, value: number) => {
     setCoreValues(prev => ({
       ...prev,
       [sliderId]: value
     }));
+    setActivePresetId(undefined);
   }, []);
 
   const handleCustomSliderChange = useCallback((sliderId: string, value: number) => {
-    // Implementation for custom sliders
-    console.log('Custom slider change:', sliderId, value);
-  }, []);
+    setCustomValues(prev => ({
+      ...prev,
+      [sliderId]: value
+    }));
+    setActivePresetId(undefined);
+  }, [setCustomValues]);
 
   const handlePresetApply = useCallback((preset: TonePreset) => {
     // Apply preset values to sliders
@@ -80,9 +101,43 @@ function App() {
           ...prev,
           [key as keyof CoreSliders]: value
         }));
+      } else {
+        setCustomValues(prev => ({
+          ...prev,
+          [key]: value
+        }));
       }
     });
-  }, [coreValues]);
+    if (preset.guardrails) {
+      setRequiredWords(preset.guardrails.required.join(', '));
+      setBannedWords(preset.guardrails.banned.join(', '));
+    }
+    setPresetModel(preset.model);
+    setActivePresetId(preset.id);
+  }, [coreValues, setRequiredWords, setBannedWords]);
+
+  // Put a past rewrite back into the editor with the settings that produced it
+  const handleHistoryRestore = useCallback((entry: HistoryEntry) => {
+    const restoredCore = { ...coreValues };
+    const restoredCustom: Record<string, number> = {};
+    Object.entries(entry.sliderValues).forEach(([key, value]) => {
+      if (key in restoredCore) {
+        restoredCore[key as keyof CoreSliders] = value;
+      } else {
+        restoredCustom[key] = value;
+      }
+    });
+
+    setCoreValues(restoredCore);
+    setCustomValues(prev => ({ ...prev, ...restoredCustom }));
+    setRequiredWords(entry.guardrails?.required.join(', ') || '');
+    setBannedWords(entry.guardrails?.banned.join(', ') || '');
+    setPresetModel(entry.model || undefined);
+    setActivePresetId(undefined);
+    setOriginalText(entry.originalText);
+    setRewrittenText(entry.rewrittenText);
+    setVariants([]);
+  }, [coreValues, setCoreValues, setCustomValues, setRequiredWords, setBannedWords, setOriginalText]);
 
   const handleResetSliders = useCallback(() => {
     const defaultValues = {
@@ -112,9 +167,23 @@ function App() {
     setShowRecentCombinations(false);
   }, [setCoreValues]);
 
+  useEffect(() => {
+    axios.get<{ success: boolean; data: CustomSlider[] }>('http://localhost:3001/api/sliders/custom')
+      .then(response => setCustomSliders(response.data.data))
+      .catch(err => console.error('Failed to load custom sliders:', err));
+  }, []);
+
   const handleAddCustomSlider = useCallback(() => {
-    // TODO: Implement custom slider creation
-    console.log('Add custom slider');
+    setShowCustomSliderForm(true);
+  }, []);
+
+  const handleCreateCustomSlider = useCallback(async (draft: CustomSliderDraft) => {
+    const response = await axios.post<{ success: boolean; data: CustomSlider }>(
+      'http://localhost:3001/api/sliders/custom',
+      draft
+    );
+    setCustomSliders(prev => [...prev, response.data.data]);
+    setShowCustomSliderForm(false);
   }, []);
 
   const handleManageSliders = useCallback(() => {
@@ -122,51 +191,118 @@ function App() {
     console.log('Manage sliders');
   }, []);
 
+  const handleDetectTone = async () => {
+    if (!originalText.trim()) {
+      setError('Please enter some text to analyze.');
+      return;
+    }
+
+    setIsDetectingTone(true);
+    setError(null);
+
+    try {
+      const response = await axios.post<{ success: boolean; data: ToneAnalysisResponse }>('http://localhost:3001/api/analyze', {
+        text: originalText.trim(),
+        customSliders: customSliders.map(({ id, label, description }) => ({ id, label, description }))
+      });
+
+      // Only move sliders the analysis is actually confident about
+      const detected = Object.entries(response.data.data.dimensions)
+        .filter(([, estimate]) => estimate.confidence > 0);
+
+      setCoreValues(prev => {
+        const next = { ...prev };
+        detected.forEach(([id, estimate]) => {
+          if (id in CORE_SLIDERS) next[id as keyof CoreSliders] = estimate.value;
+        });
+        return next;
+      });
+      setCustomValues(prev => {
+        const next = { ...prev };
+        detected.forEach(([id, estimate]) => {
+          if (!(id in CORE_SLIDERS)) next[id] = estimate.value;
+        });
+        return next;
+      });
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'An error occurred while detecting tone.');
+    } finally {
+      setIsDetectingTone(false);
+    }
+  };
+
+  const guardrails: Guardrails = {
+    required: requiredWords ? requiredWords.split(',').map(w => w.trim()) : [],
+    banned: bannedWords ? bannedWords.split(',').map(w => w.trim()) : []
+  };
+
   const handleRewrite = async () => {
     if (!originalText.trim()) {
       setError('Please enter some text to rewrite.');
       return;
     }
 
-    setIsLoading(true);
     setError(null);
     setSuccess(false);
+    setRewrittenText('');
+    setVariants([]);
+
+    const request: Omit<RewriteRequest, 'userId'> = {
+      originalText: originalText.trim(),
+      sliderValues: {
+        ...coreValues,
+        ...customValues
+      },
+      guardrails,
+      presetId: activePresetId,
+      model: presetModel
+    };
 
     try {
-      const response = await axios.post<{ success: boolean; data: RewriteResponse }>('http://localhost:3001/api/rewrite', {
-        originalText: originalText.trim(),
-        sliderValues: {
-          ...coreValues,
-          ...customValues
-        },
-        guardrails: {
-          required: requiredWords ? requiredWords.split(',').map(w => w.trim()) : [],
-          banned: bannedWords ? bannedWords.split(',').map(w => w.trim()) : []
-        }
-      });
+      let result: RewriteResponse | null;
 
-      if (response.data.success) {
-        setRewrittenText(response.data.data.rewrittenText);
-        setSuccess(true);
-        
-        // Auto-save successful combination for quick access
-        const successfulCombination = {
-          name: `Successful - ${new Date().toLocaleTimeString()}`,
-          sliderValues: coreValues,
-          timestamp: Date.now()
-        };
-        addRecentCombination(successfulCombination);
-        
-        if (response.data.data.guardrailViolations && response.data.data.guardrailViolations.length > 0) {
-          setError(`Warning: ${response.data.data.guardrailViolations.join(', ')}`);
+      if (variantCount > 1) {
+        // Alternatives come back all at once, so they use the non-streaming endpoint
+        setIsFetchingVariants(true);
+        try {
+          const response = await axios.post<{ success: boolean; data: RewriteResponse }>(
+            'http://localhost:3001/api/rewrite',
+            { ...request, variants: variantCount }
+          );
+          if (!response.data.success) {
+            throw new Error('Rewrite failed');
+          }
+          result = response.data.data;
+          setVariants(result.variants || []);
+        } finally {
+          setIsFetchingVariants(false);
         }
       } else {
-        throw new Error('Rewrite failed');
+        result = await startStream(request, text => setRewrittenText(prev => prev + text));
+      }
+
+      // Cancelled mid-stream: keep whatever text arrived so far
+      if (!result) {
+        return;
+      }
+
+      setRewrittenText(result.rewrittenText);
+      setSuccess(true);
+
+      // Auto-save successful combination for quick access
+      const successfulCombination = {
+        name: `Successful - ${new Date().toLocaleTimeString()}`,
+        sliderValues: coreValues,
+        timestamp: Date.now()
+      };
+      addRecentCombination(successfulCombination);
+
+      const warnings = [...(result.guardrailViolations || []), ...(result.toneDrift || [])];
+      if (warnings.length > 0) {
+        setError(`Warning: ${warnings.join(', ')}`);
       }
     } catch (err: any) {
       setError(err.response?.data?.message || err.message || 'An error occurred while rewriting.');
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -241,6 +377,30 @@ function App() {
                   </div>
                 )}
               </div>
+              <button
+                onClick={() => setShowHistory(true)}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 border rounded-lg hover:bg-gray-50 transition-colors"
+                title="Browse past rewrites"
+              >
+                <Clock size={14} />
+                History
+              </button>
+              <button
+                onClick={() => setShowApiKeys(true)}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 border rounded-lg hover:bg-gray-50 transition-colors"
+                title="Manage API keys"
+              >
+                <KeyRound size={14} />
+                API Keys
+              </button>
+              <button
+                onClick={logout}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 border rounded-lg hover:bg-gray-50 transition-colors"
+                title={user ? `Signed in as ${user.email}` : undefined}
+              >
+                <LogOut size={14} />
+                Sign out
+              </button>
             </div>
           </div>
         </div>
@@ -301,10 +461,24 @@ function App() {
                   />
                 </div>
               </div>
+              {presetModel && (
+                <div className="mt-4 flex items-center gap-2 text-sm text-gray-600">
+                  <span>
+                    Model from preset: <span className="font-medium text-gray-900">{presetModel}</span>
+                  </span>
+                  <button
+                    onClick={() => setPresetModel(undefined)}
+                    className="text-blue-600 hover:text-blue-700"
+                    disabled={isLoading}
+                  >
+                    Use default
+                  </button>
+                </div>
+              )}
             </div>
 
             {/* Rewrite Button */}
-            <div className="flex justify-center">
+            <div className="flex justify-center gap-3">
               <button
                 onClick={handleRewrite}
                 disabled={isLoading || !originalText.trim()}
@@ -322,6 +496,28 @@ function App() {
                   </>
                 )}
               </button>
+              <select
+                value={variantCount}
+                onChange={(e) => setVariantCount(parseInt(e.target.value, 10))}
+                className="px-3 py-3 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                title="Number of alternative rewrites to generate"
+                disabled={isLoading}
+              >
+                {[1, 2, 3, 4, 5].map(n => (
+                  <option key={n} value={n}>
+                    {n === 1 ? '1 version' : `${n} variants`}
+                  </option>
+                ))}
+              </select>
+              {isStreaming && (
+                <button
+                  onClick={cancelRewrite}
+                  className="flex items-center gap-2 px-6 py-3 text-gray-700 font-medium border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Square size={16} />
+                  Cancel
+                </button>
+              )}
             </div>
 
             {/* Status Messages */}
@@ -359,6 +555,36 @@ function App() {
                 <div className="p-4 bg-gray-50 rounded-lg min-h-[12rem] whitespace-pre-wrap">
                   {rewrittenText}
                 </div>
+
+                {variants.length > 1 && (
+                  <div className="mt-4">
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">Variants (best first)</h3>
+                    <div className="space-y-2">
+                      {variants.map((variant, index) => (
+                        <button
+                          key={index}
+                          onClick={() => setRewrittenText(variant.text)}
+                          className={`w-full text-left p-3 border rounded-lg transition-colors ${
+                            variant.text === rewrittenText
+                              ? 'border-blue-500 bg-blue-50'
+                              : 'border-gray-200 hover:bg-gray-50'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                            <span>Variant {index + 1}</span>
+                            <span>
+                              Tone match {Math.round(variant.toneAdherence * 100)}%
+                              {variant.guardrailViolations.length > 0 &&
+                                ` · ${variant.guardrailViolations.length} guardrail issue(s)`}
+                              {variant.toneDrift.length > 0 && ' · tone drift'}
+                            </span>
+                          </div>
+                          <div className="text-sm text-gray-800 line-clamp-2">{variant.text}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -369,17 +595,36 @@ function App() {
               coreValues={coreValues}
               customSliders={customSliders}
               customValues={customValues}
+              guardrails={guardrails}
               onCoreSliderChange={handleCoreSliderChange}
               onCustomSliderChange={handleCustomSliderChange}
               onPresetApply={handlePresetApply}
               onResetSliders={handleResetSliders}
               onAddCustomSlider={handleAddCustomSlider}
               onManageSliders={handleManageSliders}
+              onDetectTone={handleDetectTone}
+              isDetectingTone={isDetectingTone}
               disabled={isLoading}
             />
           </div>
         </div>
       </main>
+
+      {showApiKeys && <ApiKeyManager onClose={() => setShowApiKeys(false)} />}
+
+      {showHistory && (
+        <HistoryPanel
+          onRestore={handleHistoryRestore}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showCustomSliderForm && (
+        <CustomSliderForm
+          onSubmit={handleCreateCustomSlider}
+          onCancel={() => setShowCustomSliderForm(false)}
+        />
+      )}
     </div>
   );
 }
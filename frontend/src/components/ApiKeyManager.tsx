@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { ApiKeyScope, ApiKeySummary, CreatedApiKey } from '../types/shared';
+import { X, Trash2, Copy } from 'lucide-react';
+
+const KEYS_URL = 'http://localhost:3001/api/keys';
+
+const SCOPES: { scope: ApiKeyScope; label: string }[] = [
+  { scope: 'rewrite', label: 'Rewrite text' },
+  { scope: 'presets:read', label: 'Read presets' }
+];
+
+interface ApiKeyManagerProps {
+  onClose: () => void;
+}
+
+export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ onClose }) => {
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKeys = async () => {
+    try {
+      const response = await axios.get<{ success: boolean; data: ApiKeySummary[] }>(KEYS_URL);
+      setKeys(response.data.data);
+    } catch (err) {
+      console.error('Failed to load API keys:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadKeys();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const response = await axios.post<{ success: boolean; data: CreatedApiKey }>(KEYS_URL, {
+        name: name.trim(),
+        scopes
+      });
+      setCreatedKey(response.data.data);
+      setName('');
+      setScopes([]);
+      await loadKeys();
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Unable to create API key.');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await axios.delete(`${KEYS_URL}/${id}`);
+      await loadKeys();
+    } catch (err) {
+      console.error('Failed to revoke API key:', err);
+    }
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-20">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-lg p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">API Keys</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        {createdKey && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg space-y-2">
+            <p className="text-sm text-green-800">Copy this key now; it won't be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs font-mono break-all text-gray-900">{createdKey.key}</code>
+              <button
+                onClick={() => navigator.clipboard.writeText(createdKey.key)}
+                className="text-green-700 hover:text-green-900"
+                title="Copy to clipboard"
+              >
+                <Copy size={14} />
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {keys.length === 0 && <p className="text-sm text-gray-500">No API keys yet.</p>}
+          {keys.map(key => (
+            <div key={key.id} className="flex items-center justify-between p-2 border rounded-lg">
+              <div>
+                <div className="text-sm font-medium text-gray-900">{key.name}</div>
+                <div className="text-xs text-gray-500">
+                  <span className="font-mono">{key.prefix}…</span>
+                  {' · '}
+                  {key.scopes.length > 0 ? key.scopes.join(', ') : 'full access'}
+                  {' · '}
+                  {key.lastUsedAt ? `last used ${new Date(key.lastUsedAt).toLocaleDateString()}` : 'never used'}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRevoke(key.id)}
+                className="text-gray-400 hover:text-red-600"
+                title="Revoke key"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="space-y-3 border-t pt-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Google Docs add-on"
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div className="flex gap-4">
+            {SCOPES.map(({ scope, label }) => (
+              <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Leave all unchecked for a key with full access to your account.</p>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              Create Key
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
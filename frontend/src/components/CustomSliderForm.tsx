@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { CompositeMapping } from '../types/shared';
+import { X } from 'lucide-react';
+
+export interface CustomSliderDraft {
+  label: string;
+  description: string;
+  mappings: CompositeMapping[];
+  tags: string[];
+  public: boolean;
+}
+
+interface CustomSliderFormProps {
+  onSubmit: (draft: CustomSliderDraft) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Default thirds of the 10-90 slider scale
+const MAPPING_RANGES: { condition: CompositeMapping['condition']; range: [number, number]; label: string }[] = [
+  { condition: 'low', range: [10, 36], label: 'Low (10-36)' },
+  { condition: 'medium', range: [37, 63], label: 'Medium (37-63)' },
+  { condition: 'high', range: [64, 90], label: 'High (64-90)' }
+];
+
+export const CustomSliderForm: React.FC<CustomSliderFormProps> = ({ onSubmit, onCancel }) => {
+  const [label, setLabel] = useState('');
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
+  const [instructions, setInstructions] = useState<Record<string, string>>({ low: '', medium: '', high: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSubmit({
+        label: label.trim(),
+        description: description.trim(),
+        // Each line of an instruction box becomes one instruction for that range
+        mappings: MAPPING_RANGES
+          .map(({ condition, range }) => ({
+            condition,
+            range,
+            instructions: instructions[condition].split('\n').map(line => line.trim()).filter(Boolean)
+          }))
+          .filter(mapping => mapping.instructions.length > 0),
+        tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        public: isPublic
+      });
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Unable to save slider.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-20">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg w-full max-w-lg p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">New Custom Slider</h3>
+          <button type="button" onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Empathy"
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="How much the text acknowledges the reader's feelings"
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        {MAPPING_RANGES.map(({ condition, label: rangeLabel }) => (
+          <div key={condition}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {rangeLabel} instructions (one per line)
+            </label>
+            <textarea
+              value={instructions[condition]}
+              onChange={(e) => setInstructions(prev => ({ ...prev, [condition]: e.target.value }))}
+              className="w-full h-16 p-2 text-sm border border-gray-300 rounded-lg resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        ))}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tags (comma-separated)</label>
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} />
+          Share with everyone
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-600 border rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !label.trim()}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Create Slider'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { HistoryEntry, HistoryPage } from '../types/shared';
+import { X, Trash2, RotateCcw, Search } from 'lucide-react';
+
+const HISTORY_URL = 'http://localhost:3001/api/history';
+const MODELS_URL = 'http://localhost:3001/api/rewrite/models';
+const PAGE_SIZE = 10;
+
+interface HistoryPanelProps {
+  onRestore: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ onRestore, onClose }) => {
+  const [page, setPage] = useState<HistoryPage>({ entries: [], total: 0, limit: PAGE_SIZE, offset: 0 });
+  const [models, setModels] = useState<{ id: string; name: string }[]>([]);
+  const [search, setSearch] = useState('');
+  const [model, setModel] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await axios.get<{ success: boolean; data: HistoryPage }>(HISTORY_URL, {
+        params: {
+          limit: PAGE_SIZE,
+          offset,
+          search: search.trim() || undefined,
+          model: model || undefined,
+          from: from || undefined,
+          to: to || undefined
+        }
+      });
+      setPage(response.data.data);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Unable to load history.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [offset, search, model, from, to]);
+
+  // Debounce so typing in the search box doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(loadHistory, 300);
+    return () => clearTimeout(timeout);
+  }, [loadHistory]);
+
+  useEffect(() => {
+    axios.get<{ success: boolean; data: { id: string; name: string }[] }>(MODELS_URL)
+      .then(response => setModels(response.data.data))
+      .catch(err => console.error('Failed to load models:', err));
+  }, []);
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await axios.delete(`${HISTORY_URL}/${id}`);
+      if (page.entries.length === 1 && offset > 0) {
+        setOffset(Math.max(0, offset - PAGE_SIZE));
+      } else {
+        await loadHistory();
+      }
+    } catch (err) {
+      console.error('Failed to delete history entry:', err);
+    }
+  };
+
+  const handleRestore = (entry: HistoryEntry) => {
+    onRestore(entry);
+    onClose();
+  };
+
+  const lastShown = Math.min(page.offset + page.entries.length, page.total);
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-20">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Rewrite History</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="col-span-2 relative">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => updateFilter(setSearch)(e.target.value)}
+              placeholder="Search original or rewritten text"
+              className="w-full pl-7 p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={model}
+            onChange={(e) => updateFilter(setModel)(e.target.value)}
+            className="col-span-2 p-2 text-sm border border-gray-300 rounded-lg"
+          >
+            <option value="">All models</option>
+            {models.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+          <label className="text-xs text-gray-600">
+            From
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => updateFilter(setFrom)(e.target.value)}
+              className="w-full p-2 text-sm border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            To
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => updateFilter(setTo)(e.target.value)}
+              className="w-full p-2 text-sm border border-gray-300 rounded-lg"
+            />
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {!isLoading && page.entries.length === 0 && (
+            <p className="text-sm text-gray-500">No rewrites found.</p>
+          )}
+          {page.entries.map(entry => (
+            <div key={entry.id} className="p-3 border rounded-lg space-y-1">
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>
+                  {new Date(entry.timestamp).toLocaleString()}
+                  {' · '}
+                  {entry.model}
+                  {entry.tokensUsed !== undefined && ` · ${entry.tokensUsed} tokens`}
+                  {entry.costUSD !== undefined && ` · $${entry.costUSD.toFixed(4)}`}
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleRestore(entry)}
+                    className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                    title="Load text and sliders into the editor"
+                  >
+                    <RotateCcw size={12} />
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDelete(entry.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete entry"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              <p className="text-sm text-gray-500 line-clamp-2">{entry.originalText}</p>
+              <p className="text-sm text-gray-900 line-clamp-2">{entry.rewrittenText}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>{page.total > 0 ? `${page.offset + 1}–${lastShown} of ${page.total}` : ''}</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0 || isLoading}
+              className="px-3 py-1 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={lastShown >= page.total || isLoading}
+              className="px-3 py-1 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,79 @@
-import React, { useState } from 'react';
-import { DEFAULT_PRESETS, TonePreset } from '../types/shared';
-import { ChevronDown, BookOpen, Briefcase, MessageCircle, FileText, Star } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { DEFAULT_PRESETS, TonePreset, Guardrails } from '../types/shared';
+import { ChevronDown, BookOpen, Briefcase, MessageCircle, FileText, Star, Trash2 } from 'lucide-react';
+
+const PRESETS_URL = 'http://localhost:3001/api/presets';
 
 interface PresetSelectorProps {
   onPresetApply: (preset: TonePreset) => void;
+  currentValues?: Record<string, number>;
+  currentGuardrails?: Guardrails;
   disabled?: boolean;
   className?: string;
 }
 
 export const PresetSelector: React.FC<PresetSelectorProps> = ({
   onPresetApply,
+  currentValues,
+  currentGuardrails,
   disabled = false,
   className = ''
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [selectedPreset, setSelectedPreset] = useState<TonePreset | null>(null);
 
+  // Built-ins until the API answers, then built-ins + own + public presets
+  const [presets, setPresets] = useState<TonePreset[]>(DEFAULT_PRESETS);
+  const [myPresetIds, setMyPresetIds] = useState<Set<string>>(new Set());
+  const [newPresetName, setNewPresetName] = useState('');
+  const [shareNewPreset, setShareNewPreset] = useState(false);
+
+  const loadPresets = async () => {
+    try {
+      const [all, mine] = await Promise.all([
+        axios.get<{ success: boolean; data: TonePreset[] }>(PRESETS_URL),
+        axios.get<{ success: boolean; data: TonePreset[] }>(`${PRESETS_URL}?scope=mine`)
+      ]);
+      setPresets(all.data.data);
+      setMyPresetIds(new Set(mine.data.data.map(preset => preset.id)));
+    } catch (err) {
+      console.error('Failed to load presets:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadPresets();
+  }, []);
+
+  const handleSavePreset = async () => {
+    if (!currentValues || !newPresetName.trim()) return;
+
+    try {
+      await axios.post(PRESETS_URL, {
+        name: newPresetName.trim(),
+        sliderValues: currentValues,
+        guardrails: currentGuardrails,
+        public: shareNewPreset
+      });
+      setNewPresetName('');
+      setShareNewPreset(false);
+      await loadPresets();
+    } catch (err) {
+      console.error('Failed to save preset:', err);
+    }
+  };
+
+  const handleDeletePreset = async (preset: TonePreset) => {
+    try {
+      await axios.delete(`${PRESETS_URL}/${preset.id}`);
+      if (selectedPreset?.id === preset.id) setSelectedPreset(null);
+      await loadPresets();
+    } catch (err) {
+      console.error('Failed to delete preset:', err);
+    }
+  };
+
   const handlePresetSelect = (preset: TonePreset) => {
     setSelectedPreset(preset);
     setIsOpen(false);
@@ -88,8 +146,8 @@ export const PresetSelector: React.FC<PresetSelectorProps> = ({
       {/* Dropdown Menu */}
       {isOpen && (
         <div className="absolute z-50 mt-2 w-full bg-white border border-gray-200 rounded-lg shadow-lg">
-          <div className="p-2 space-y-1">
-            {DEFAULT_PRESETS.map((preset) => (
+          <div className="p-2 space-y-1 max-h-80 overflow-y-auto">
+            {presets.map((preset) => (
               <button
                 key={preset.id}
                 onClick={() => handlePresetSelect(preset)}
@@ -98,7 +156,23 @@ export const PresetSelector: React.FC<PresetSelectorProps> = ({
               >
                 {getPresetIcon(preset.id)}
                 <div className="flex-1">
-                  <div className="font-medium text-gray-900">{preset.name}</div>
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900">{preset.name}</span>
+                    <span className="flex items-center gap-2 text-xs text-gray-500">
+                      {myPresetIds.has(preset.id) ? (preset.public ? 'Mine · shared' : 'Mine') : preset.creator && 'Community'}
+                      {!!preset.usage_count && <span>{preset.usage_count} uses</span>}
+                      {myPresetIds.has(preset.id) && (
+                        <Trash2
+                          size={14}
+                          className="text-gray-400 hover:text-red-600"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeletePreset(preset);
+                          }}
+                        />
+                      )}
+                    </span>
+                  </div>
                   <p className="text-xs text-gray-600 mt-1">
                     {preset.description}
                   </p>
@@ -117,6 +191,38 @@ export const PresetSelector: React.FC<PresetSelectorProps> = ({
             ))}
           </div>
 
+          {/* Save current sliders as a preset */}
+          {currentValues && (
+            <div className="border-t border-gray-200 p-2 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newPresetName}
+                  onChange={(e) => setNewPresetName(e.target.value)}
+                  placeholder="Save current sliders as..."
+                  className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={disabled}
+                />
+                <button
+                  onClick={handleSavePreset}
+                  disabled={disabled || !newPresetName.trim()}
+                  className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  Save
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={shareNewPreset}
+                  onChange={(e) => setShareNewPreset(e.target.checked)}
+                  disabled={disabled}
+                />
+                Share with the community
+              </label>
+            </div>
+          )}
+
           {/* Divider and Community Presets Link */}
           <div className="border-t border-gray-200 p-2">
             <button
@@ -145,6 +251,21 @@ export const PresetSelector: React.FC<PresetSelectorProps> = ({
               </div>
             ))}
           </div>
+          {selectedPreset.guardrails && (
+            selectedPreset.guardrails.required.length > 0 || selectedPreset.guardrails.banned.length > 0
+          ) && (
+            <div className="mt-2 space-y-1 text-xs text-gray-600">
+              {selectedPreset.guardrails.required.length > 0 && (
+                <div>Required: {selectedPreset.guardrails.required.join(', ')}</div>
+              )}
+              {selectedPreset.guardrails.banned.length > 0 && (
+                <div>Banned: {selectedPreset.guardrails.banned.join(', ')}</div>
+              )}
+            </div>
+          )}
+          {selectedPreset.model && (
+            <div className="mt-1 text-xs text-gray-600">Model: {selectedPreset.model}</div>
+          )}
         </div>
       )}
 
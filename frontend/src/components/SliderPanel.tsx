@@ -1,19 +1,22 @@
 import React, { useCallback } from 'react';
 import { Slider } from './Slider';
 import { PresetSelector } from './PresetSelector';
-import { CORE_SLIDERS, CoreSliders, CustomSlider, TonePreset } from '../types/shared';
-import { RotateCcw, Plus, Settings } from 'lucide-react';
+import { CORE_SLIDERS, CoreSliders, CustomSlider, TonePreset, Guardrails } from '../types/shared';
+import { RotateCcw, Plus, Settings, Wand2 } from 'lucide-react';
 
 interface SliderPanelProps {
   coreValues: CoreSliders;
   customSliders: CustomSlider[];
   customValues: Record<string, number>;
+  guardrails?: Guardrails;
   onCoreSliderChange: (sliderId: keyof CoreSliders, value: number) => void;
   onCustomSliderChange: (sliderId: string, value: number) => void;
   onPresetApply: (preset: TonePreset) => void;
   onResetSliders: () => void;
   onAddCustomSlider: () => void;
   onManageSliders: () => void;
+  onDetectTone?: () => void;
+  isDetectingTone?: boolean;
   disabled?: boolean;
   className?: string;
 }
@@ -22,12 +25,15 @@ export const SliderPanel: React.FC<SliderPanelProps> = ({
   coreValues,
   customSliders,
   customValues,
+  guardrails,
   onCoreSliderChange,
   onCustomSliderChange,
   onPresetApply,
   onResetSliders,
   onAddCustomSlider,
   onManageSliders,
+  onDetectTone,
+  isDetectingTone = false,
   disabled = false,
   className = ''
 }) => {
@@ -65,6 +71,17 @@ export const SliderPanel: React.FC<SliderPanelProps> = ({
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-lg font-semibold text-gray-900">Tone Controls</h2>
         <div className="flex items-center gap-2">
+          {onDetectTone && (
+            <button
+              onClick={onDetectTone}
+              disabled={disabled || isDetectingTone}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Position sliders to match the tone of your current text"
+            >
+              <Wand2 size={14} className={isDetectingTone ? 'animate-pulse' : ''} />
+              Detect
+            </button>
+          )}
           <button
             onClick={onResetSliders}
             disabled={disabled || !isSlidersDirty()}
@@ -89,6 +106,8 @@ export const SliderPanel: React.FC<SliderPanelProps> = ({
       <div className="mb-6">
         <PresetSelector
           onPresetApply={onPresetApply}
+          currentValues={{ ...coreValues, ...customValues }}
+          currentGuardrails={guardrails}
           disabled={disabled}
         />
       </div>
@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback } from 'react';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { AuthSession, AuthUser } from '../types/shared';
+
+const AUTH_URL = 'http://localhost:3001/api/auth';
+const SESSION_KEY = 'tone-slyder-session';
+// Held while refreshing, so tabs sharing the session don't spend the same refresh token
+const REFRESH_LOCK = 'tone-slyder-refresh';
+
+type Listener = (session: AuthSession | null) => void;
+
+let session: AuthSession | null = loadSession();
+let refreshInFlight: Promise<boolean> | null = null;
+const listeners = new Set<Listener>();
+
+function loadSession(): AuthSession | null {
+  try {
+    const item = window.localStorage.getItem(SESSION_KEY);
+    return item ? JSON.parse(item) : null;
+  } catch (error) {
+    console.warn('Error reading stored session:', error);
+    return null;
+  }
+}
+
+function applySession(next: AuthSession | null) {
+  session = next;
+  listeners.forEach(listener => listener(next));
+}
+
+function setSession(next: AuthSession | null) {
+  if (next) {
+    window.localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+  } else {
+    window.localStorage.removeItem(SESSION_KEY);
+  }
+  applySession(next);
+}
+
+// Another tab signed in or out, or rotated the refresh token
+window.addEventListener('storage', event => {
+  if (event.key === SESSION_KEY || event.key === null) {
+    applySession(loadSession());
+  }
+});
+
+/**
+ * Run `task` while no other tab is refreshing; browsers without the Web Locks API run it directly
+ */
+function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (!navigator.locks) return task();
+  return navigator.locks.request(REFRESH_LOCK, task) as Promise<T>;
+}
+
+/**
+ * Headers for requests made outside axios (e.g. fetch-based streaming)
+ */
+export function getAuthHeaders(): Record<string, string> {
+  return session ? { Authorization: `Bearer ${session.accessToken}` } : {};
+}
+
+/**
+ * Swap the refresh token for a new session. Concurrent callers share one request, and
+ * tabs take turns: a tab that finds the token already rotated by another adopts its session.
+ * Resolves false (and signs out) when the session can't be renewed.
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!session) return Promise.resolve(false);
+
+  if (!refreshInFlight) {
+    const staleToken = session.refreshToken;
+
+    refreshInFlight = withRefreshLock(async () => {
+      const stored = loadSession();
+      if (!stored || stored.refreshToken !== staleToken) {
+        applySession(stored);
+        return stored !== null;
+      }
+
+      try {
+        const response = await axios.post<{ success: boolean; data: AuthSession }>(`${AUTH_URL}/refresh`, {
+          refreshToken: staleToken
+        });
+        setSession(response.data.data);
+        return true;
+      } catch {
+        setSession(null);
+        return false;
+      }
+    }).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+
+  return refreshInFlight;
+}
+
+// Attach the access token to every API call and retry once after refreshing on 401
+axios.interceptors.request.use(config => {
+  if (session && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${session.accessToken}`;
+  }
+  return config;
+});
+
+axios.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+  if (
+    error.response?.status === 401 &&
+    original &&
+    !original._retried &&
+    !original.url?.startsWith(AUTH_URL)
+  ) {
+    original._retried = true;
+    if (await refreshSession()) {
+      original.headers.Authorization = `Bearer ${session!.accessToken}`;
+      return axios(original);
+    }
+  }
+
+  return Promise.reject(error);
+});
+
+/**
+ * Current user plus login/register/logout actions, shared across components
+ */
+export function useAuth() {
+  const [current, setCurrent] = useState<AuthSession | null>(session);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  const login = useCallback(async (email: string, password: string) => {
+    const response = await axios.post<{ success: boolean; data: AuthSession }>(`${AUTH_URL}/login`, {
+      email,
+      password
+    });
+    setSession(response.data.data);
+  }, []);
+
+  const register = useCallback(async (email: string, password: string, displayName?: string) => {
+    const response = await axios.post<{ success: boolean; data: AuthSession }>(`${AUTH_URL}/register`, {
+      email,
+      password,
+      displayName: displayName || undefined
+    });
+    setSession(response.data.data);
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      if (session) {
+        await axios.post(`${AUTH_URL}/logout`, { refreshToken: session.refreshToken });
+      }
+    } catch (error) {
+      console.warn('Logout request failed:', error);
+    } finally {
+      setSession(null);
+    }
+  }, []);
+
+  const user: AuthUser | null = current?.user || null;
+
+  return { user, login, register, logout };
+}
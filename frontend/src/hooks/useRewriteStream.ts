@@ -0,0 +1,110 @@
+import { useState, useCallback, useRef } from 'react';
+import { RewriteRequest, RewriteResponse } from '../types/shared';
+import { getAuthHeaders, refreshSession } from './useAuth';
+
+export interface RewriteStreamResult extends RewriteResponse {
+  cost: number;
+  cached?: boolean;
+}
+
+/**
+ * Split a Server-Sent Events buffer into complete events, returning any trailing partial event
+ */
+function parseEvents(buffer: string): { events: { event: string; data: string }[]; rest: string } {
+  const chunks = buffer.split('\n\n');
+  const rest = chunks.pop() || '';
+
+  const events = chunks.map(chunk => {
+    let event = 'message';
+    const data: string[] = [];
+    chunk.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+    });
+    return { event, data: data.join('\n') };
+  });
+
+  return { events, rest };
+}
+
+/**
+ * Hook for streaming rewrites from POST /api/rewrite/stream with cancellation
+ */
+export function useRewriteStream(url: string) {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Resolves with the final result, or null if the stream was cancelled
+   */
+  const startStream = useCallback(async (
+    request: Omit<RewriteRequest, 'userId'>,
+    onDelta: (text: string) => void
+  ): Promise<RewriteStreamResult | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsStreaming(true);
+
+    try {
+      const send = () => fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        body: JSON.stringify(request),
+        signal: controller.signal
+      });
+
+      let response = await send();
+      if (response.status === 401 && await refreshSession()) {
+        response = await send();
+      }
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `Request failed with status ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let result: RewriteStreamResult | null = null;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const parsed = parseEvents(buffer);
+        buffer = parsed.rest;
+
+        for (const { event, data } of parsed.events) {
+          const payload = JSON.parse(data);
+          if (event === 'delta') onDelta(payload.text);
+          else if (event === 'done') result = payload;
+          else if (event === 'error') throw new Error(payload.message);
+        }
+      }
+
+      if (!result) {
+        throw new Error('Stream ended before the rewrite completed');
+      }
+      return result;
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        return null;
+      }
+      throw error;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, [url]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { startStream, cancel, isStreaming };
+}
@@ -38,6 +38,8 @@ export interface TonePreset {
   name: string;
   description: string;
   sliderValues: Record<string, number>;
+  guardrails?: Guardrails;  // Applied alongside the sliders, e.g. mandatory legal phrasing
+  model?: string;           // Preferred model for this preset
   creator?: string;
   public: boolean;
   tags: string[];
@@ -56,6 +58,193 @@ export interface RewriteRequest {
   guardrails: Guardrails;
   model?: string;
   userId?: string;
+  variants?: number;  // Number of candidate rewrites to generate (default 1)
+  presetId?: string;  // Preset the slider values came from, for usage counts
+}
+
+// Why a usage ledger entry was recorded
+export type UsageReason = 'primary' | 'retry' | 'batch' | 'cached' | 'analysis';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;   // Charged
+  savedUSD: number;  // Avoided by cache hits
+}
+
+export type UsageBreakdown = Record<UsageReason, UsageTotals>;
+
+export type UsageGranularity = 'day' | 'month';
+
+export interface UsagePeriod extends UsageTotals {
+  period: string;  // "2024-01-31" by day, "2024-01" by month (UTC)
+  byModel: Record<string, UsageTotals>;
+}
+
+export interface UsageHistory {
+  from: string;
+  to: string;
+  granularity: UsageGranularity;
+  totals: UsageTotals;
+  periods: UsagePeriod[];
+  byModel: (UsageTotals & { model: string })[];
+  byPreset: (UsageTotals & { presetId: string | null; presetName?: string })[];
+  bySliders: (UsageTotals & { sliderValues: Record<string, number> })[];  // Most costly configurations
+  topRequests: {
+    requestId: string;
+    createdAt: string;
+    model: string;
+    presetId?: string;
+    calls: number;
+    tokens: number;
+    costUSD: number;
+  }[];
+  cacheSavings: {
+    hits: number;
+    savedUSD: number;
+  };
+}
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export interface OrganizationLimits {
+  monthlyRewrites: number;
+  monthlyBudgetUSD: number;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  tier: 'free' | 'premium' | 'enterprise';
+  role: OrganizationRole;     // The caller's role
+  limits: OrganizationLimits; // Shared by all members, from the organization's tier
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  displayName?: string;
+  role: OrganizationRole;
+  monthlyRewriteLimit?: number;  // Sub-limits within the shared pool; unset = pool only
+  monthlyBudgetUSD?: number;
+  joinedAt: string;
+}
+
+// A pending invitation; the invited user joins only by accepting it
+export interface OrganizationInvitation {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  email: string;
+  role: OrganizationRole;
+  monthlyRewriteLimit?: number;
+  monthlyBudgetUSD?: number;
+  invitedAt: string;
+  expiresAt: string;
+}
+
+export interface OrganizationUsage {
+  monthYear: string;
+  pool: { rewrites: number; tokens: number; costUSD: number };
+  limits: OrganizationLimits;
+  utilization: { rewritesPercent: number; budgetPercent: number };
+  members: (OrganizationMember & { rewrites: number; tokens: number; costUSD: number })[];
+}
+
+export type NotificationEventType = 'quota.warning' | 'quota.exceeded';
+
+export type QuotaMetric = 'rewrites' | 'budget';
+
+// Whose limit was reached: the user's own, their organization's shared pool, or their sub-limit in it
+export type QuotaScope = 'user' | 'organization' | 'member';
+
+export interface QuotaEvent {
+  id: string;
+  type: NotificationEventType;
+  createdAt: string;
+  data: {
+    userId: string;          // Recipient
+    scope: QuotaScope;
+    organizationId?: string;
+    metric: QuotaMetric;
+    threshold: number;       // Percent crossed: 80, 95 or 100
+    used: number;
+    limit: number;
+    monthYear: string;
+  };
+}
+
+export interface WebhookSummary {
+  id: string;
+  url: string;
+  events: NotificationEventType[];
+  createdAt: string;
+  lastDeliveryAt?: string;
+  lastStatus?: 'delivered' | 'failed';
+}
+
+export interface CreatedWebhook extends WebhookSummary {
+  secret: string;  // Signing secret; only returned once, at creation
+}
+
+// Extra allowance granted on top of the tier's limits for the current month
+export interface QuotaTopUp {
+  rewrites: number;
+  budgetUSD: number;
+}
+
+export interface AdminUserSummary {
+  id: string;
+  email: string;
+  displayName?: string;
+  tier: 'free' | 'premium' | 'enterprise';
+  role: UserRole;
+  isActive: boolean;
+  createdAt: string;
+  lastLogin?: string;
+}
+
+export type AdminAction =
+  | 'user.update'
+  | 'user.top_up'
+  | 'user.reset_usage'
+  | 'plan.tier_update'
+  | 'plan.model_update';
+
+export interface AdminAuditEntry {
+  id: string;
+  actorId?: string;            // Unset once the acting account is deleted
+  actorEmail: string;
+  action: AdminAction;
+  targetUserId?: string;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface CostProjection {
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+}
+
+// Pre-flight projection for a rewrite request, built from the prompt it would send
+export interface RewriteEstimate {
+  model: string;
+  promptTokens: number;  // Per LLM call
+  textTokens: number;    // The original text alone
+  llmCalls: number;      // Expected calls; `max` also allows for a guardrail retry
+  min: CostProjection;
+  expected: CostProjection;
+  max: CostProjection;
+}
+
+export interface RewriteVariant {
+  text: string;
+  toneAdherence: number;  // 0-1, how closely the text matches the requested sliders
+  guardrailViolations: string[];
+  toneDrift: string[];
 }
 
 export interface RewriteResponse {
@@ -64,7 +253,29 @@ export interface RewriteResponse {
   model: string;
   processingTime: number;
   tokensUsed: number;
+  inputTokens?: number;   // Provider-reported prompt tokens, summed over every LLM call
+  outputTokens?: number;  // Provider-reported completion tokens
+  costUSD?: number;       // Charged for this request; 0 when served from cache
   guardrailViolations?: string[];
+  toneDrift?: string[];  // Dimensions that moved against the requested slider direction
+  variants?: RewriteVariant[];  // Best-first; present when more than one variant was requested
+}
+
+export interface ToneDimensionEstimate {
+  value: number;       // Estimated slider position (10-90)
+  confidence: number;  // 0-1
+}
+
+export interface ToneAnalysisRequest {
+  text: string;
+  customSliders?: Pick<SliderConfig, 'id' | 'label' | 'description'>[];
+  model?: string;
+}
+
+export interface ToneAnalysisResponse {
+  dimensions: Record<string, ToneDimensionEstimate>;
+  model: string;
+  tokensUsed: number;
 }
 
 export interface ToneInstruction {
@@ -77,6 +288,8 @@ export interface SliderWeight {
   dimension: string;
   weight: number;
   instruction: string;
+  label?: string;           // Display name for custom sliders, whose dimension is an ID
+  instructions?: string[];  // Concrete instructions from a matching CompositeMapping range
 }
 
 export interface ConflictResolution {
@@ -100,6 +313,40 @@ export interface User {
   };
 }
 
+// Admins may use /api/admin
+export type UserRole = 'user' | 'admin';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  displayName?: string;
+  tier: 'free' | 'premium' | 'enterprise';
+  role: UserRole;
+}
+
+export interface AuthSession {
+  accessToken: string;   // Short-lived JWT sent as `Authorization: Bearer`
+  refreshToken: string;  // Opaque token exchanged at /api/auth/refresh
+  expiresIn: string;     // Access token lifetime, e.g. "15m"
+  user: AuthUser;
+}
+
+// Restricts what an API key may do; a key without scopes acts with the owner's full access
+export type ApiKeyScope = 'rewrite' | 'presets:read';
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;        // First characters of the key, for recognising it in lists
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export interface CreatedApiKey extends ApiKeySummary {
+  key: string;           // Full key; only returned once, at creation
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -117,6 +364,33 @@ export interface ModelConfig {
   costPerToken: number;
 }
 
+export type PlanTier = 'free' | 'premium' | 'enterprise';
+
+export interface TierPlan {
+  monthlyRewrites: number;
+  monthlyBudgetUSD: number;
+  rateLimitPerHour: number;
+  modelAccess: string[];  // Hosted model IDs; self-hosted models are open to every tier
+}
+
+export interface ModelPlan {
+  id: string;
+  name: string;
+  provider: ModelProvider;
+  inputPer1k: number;   // USD per 1K prompt tokens
+  outputPer1k: number;  // USD per 1K completion tokens
+  maxTokens: number;    // Context window
+  description: string;
+  features: string[];
+}
+
+// Single source for tier limits and model prices
+export interface PlanCatalog {
+  tiers: Record<PlanTier, TierPlan>;
+  models: ModelPlan[];
+  updatedAt?: string;  // Set once an admin has edited the catalog
+}
+
 export interface CacheKey {
   originalText: string;
   sliderValues: Record<string, number>;
@@ -130,7 +404,26 @@ export interface HistoryEntry {
   originalText: string;
   rewrittenText: string;
   sliderValues: Record<string, number>;
+  guardrails?: Guardrails;
   model: string;
+  tokensUsed?: number;
+  costUSD?: number;
+}
+
+export interface HistoryQuery {
+  limit?: number;
+  offset?: number;
+  search?: string;  // Matches original or rewritten text
+  model?: string;
+  from?: string;    // ISO date, inclusive
+  to?: string;      // ISO date, inclusive
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number;
+  limit: number;
+  offset: number;
 }
 
 export interface ExtensionMessage {